@@ -2,24 +2,78 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { DocumentViewer } from './components/DocumentViewer';
-import { orchestrateRequest, executeAgentTask } from './services/agentService';
-import { AgentType, ChatMessage, AuditLogEntry } from './types';
+import { CalendarView } from './components/CalendarView';
+import { DocumentsPanel } from './components/DocumentsPanel';
+import { ApprovalsPanel } from './components/ApprovalsPanel';
+import { FinancialDashboard } from './components/FinancialDashboard';
+import { OccupancyBoard } from './components/OccupancyBoard';
+import { OfflineLookup } from './components/OfflineLookup';
+import { LoginScreen } from './components/LoginScreen';
+import { ProgressSteps } from './components/ProgressSteps';
+import { SessionSwitcher } from './components/SessionSwitcher';
+import { AgentRunOptions, executePlan, needsRoutingConfirmation, orchestrateRequest, planForAgent } from './services/agentService';
+import { appendAuditEntry, exportAuditLog, listAuditEntries, subscribeAuditLog, verifyAuditChain } from './services/auditLog';
+import { canApprove, canUseAgent, canUseTool, getCurrentUser, logout } from './services/accessControl';
+import { LlmError, RequestCancelledError } from './services/errors';
+import { exportFhirBundle, importFhirBundle } from './services/fhir';
+import { Language, formatTime, getLanguage, llmErrorMessage, subscribeLanguage, t } from './services/i18n';
+import { REPLAY_RETRY_MS, isNetworkError, isOnline, nextQueued, queueRequest, queuedCount, subscribeConnectivity } from './services/outbox';
+import { buildHistory, compactSession, createSession, deleteSession, listSessions, lockSessions, saveSession } from './services/sessions';
+import { AgentProgressEvent, AgentType, ChatMessage, ConversationSession, OrchestrationPlan, PlanStep, AuditLogEntry, AuditStatus, StaffUser } from './types';
+
+const describePlan = (steps: PlanStep[]) =>
+  `${t('app.planIntro', { count: steps.length })}\n${steps.map(s => `${s.id}. ${s.agent}: ${s.task}`).join('\n')}`;
+
+const welcomeMessage = (): ChatMessage => ({
+  id: 'welcome',
+  role: 'model',
+  sender: AgentType.ORCHESTRATOR,
+  text: t('app.welcome'),
+  timestamp: new Date()
+});
+
+type SidePanel = 'calendar' | 'lookup' | 'beds' | 'documents' | 'approvals' | 'finance';
+
+const SIDE_PANEL_LABELS = {
+  calendar: 'app.panel.calendar',
+  lookup: 'app.panel.lookup',
+  beds: 'app.panel.beds',
+  documents: 'app.panel.documents',
+  approvals: 'app.panel.approvals',
+  finance: 'app.panel.finance'
+} as const;
+
+const OUTBOX_LABELS = {
+  QUEUED: 'outbox.queued',
+  SENDING: 'outbox.sending',
+  SENT: 'outbox.sent'
+} as const;
+
+// An empty session opens on the welcome banner
+const messagesOf = (session: ConversationSession) =>
+  session.messages.length > 0 ? session.messages : [welcomeMessage()];
 
 function App() {
-  const [messages, setMessages] = useState<ChatMessage[]>([
-    {
-      id: 'welcome',
-      role: 'model',
-      sender: AgentType.ORCHESTRATOR,
-      text: "Welcome to MHO (Manage Hospital Operations). I am the Central Manager. How can I assist you today? (e.g., 'Check my insurance claim', 'Schedule a cardiology appointment')",
-      timestamp: new Date()
-    }
-  ]);
+  const [messages, setMessages] = useState<ChatMessage[]>([welcomeMessage()]);
+  const [sessions, setSessions] = useState<ConversationSession[]>([]);
+  const [activeSessionId, setActiveSessionId] = useState<string | null>(null);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [currentAgent, setCurrentAgent] = useState<AgentType>(AgentType.ORCHESTRATOR);
+  const [user, setUser] = useState<StaffUser | null>(getCurrentUser());
+  const [language, setLanguage] = useState<Language>(getLanguage());
   const [auditLogs, setAuditLogs] = useState<AuditLogEntry[]>([]);
+  const [auditChainValid, setAuditChainValid] = useState(true);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false); // Mobile sidebar state
+  const [dataVersion, setDataVersion] = useState(0); // Bumped after agent turns so side panels reload
+  const [sidePanel, setSidePanel] = useState<SidePanel>('calendar');
+  const [fhirStatus, setFhirStatus] = useState('');
+  const [activity, setActivity] = useState<AgentProgressEvent[]>([]); // Progress of the latest request, for the sidebar
+  const [online, setOnline] = useState(isOnline()); // Offline requests wait in the outbox
+  const [replayHeld, setReplayHeld] = useState(false); // Set after a network failure the browser did not report as offline
+  const abortRef = useRef<AbortController | null>(null);
+  const [pinnedAgent, setPinnedAgent] = useState<AgentType | null>(null); // Bypasses the orchestrator when set
+  const routingResolvers = useRef<Record<string, (choice: AgentType | 'PROPOSED') => void>>({}); // Pending routing confirmations
   const chatEndRef = useRef<HTMLDivElement>(null);
 
   const scrollToBottom = () => {
@@ -30,83 +84,436 @@ function App() {
     scrollToBottom();
   }, [messages]);
 
-  const addAuditLog = (agent: AgentType, action: string) => {
-    const newLog: AuditLogEntry = {
-      id: Date.now().toString() + Math.random(),
-      timestamp: new Date().toLocaleTimeString(),
-      agent,
-      action,
-      status: 'SUCCESS'
-    };
-    setAuditLogs(prev => [...prev, newLog]);
+  // Re-render in the new language; the welcome banner is the only stored text that follows it
+  useEffect(() => subscribeLanguage(next => {
+    setLanguage(next);
+    setMessages(prev => prev.map(m => (m.id === 'welcome' ? welcomeMessage() : m)));
+  }), []);
+
+  // Load the persisted audit chain and follow new entries as they are appended
+  useEffect(() => {
+    listAuditEntries().then(existing => setAuditLogs(prev => {
+      const seen = new Set(existing.map(e => e.id));
+      return [...existing, ...prev.filter(e => !seen.has(e.id))];
+    }));
+    return subscribeAuditLog(entry => setAuditLogs(prev => [...prev, entry]));
+  }, []);
+
+  useEffect(() => subscribeConnectivity(setOnline), []);
+
+  // Open the signed-in user's sessions, starting a general one on first use
+  useEffect(() => {
+    if (!user) return;
+    listSessions()
+      .then(async existing => (existing.length > 0 ? existing : [await createSession()]))
+      .then(opened => {
+        setSessions(opened);
+        setActiveSessionId(opened[0].id);
+        setMessages(messagesOf(opened[0]));
+      })
+      .catch(error => console.warn("Conversation sessions unavailable:", error));
+  }, [user]);
+
+  // Persist the active session whenever a request settles, then fold old turns into its summary
+  const activeSession = sessions.find(s => s.id === activeSessionId);
+  useEffect(() => {
+    if (isLoading || !activeSession || messagesOf(activeSession) === messages) return;
+    if (messages.every(m => m.id === 'welcome')) return; // Nothing said yet
+    const current = messages;
+    setSessions(prev => prev.map(s => (s.id === activeSession.id ? { ...s, messages: current } : s)));
+    saveSession({ ...activeSession, messages: current })
+      .then(compactSession)
+      .then(saved => setSessions(prev => prev.map(s => (s.id === saved.id
+        ? { ...s, summary: saved.summary, summarizedCount: saved.summarizedCount, updatedAt: saved.updatedAt }
+        : s))))
+      .catch(error => console.warn("Session could not be saved:", error));
+  }, [messages, isLoading]);
+
+  useEffect(() => {
+    verifyAuditChain().then(result => setAuditChainValid(result.valid));
+  }, [auditLogs]);
+
+  const addAuditLog = (agent: AgentType, action: string, status: AuditStatus = 'SUCCESS') => {
+    appendAuditEntry({ agent, action, status });
+  };
+
+  const handleExportAuditLog = async () => {
+    const json = await exportAuditLog();
+    const url = URL.createObjectURL(new Blob([json], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `mho-audit-log-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleExportFhir = async () => {
+    const bundle = await exportFhirBundle();
+    const url = URL.createObjectURL(new Blob([JSON.stringify(bundle, null, 2)], { type: 'application/fhir+json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `mho-fhir-bundle-${new Date().toISOString().slice(0, 10)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+    addAuditLog(AgentType.ADMISSION, `Exported FHIR bundle with ${bundle.entry?.length ?? 0} resources`);
+    setFhirStatus(t('fhir.exported', { count: bundle.entry?.length ?? 0 }));
+  };
+
+  const handleImportFhir = async (file: File) => {
+    setFhirStatus(t('fhir.importing'));
+    try {
+      const outcomes = await importFhirBundle(JSON.parse(await file.text()));
+      const count = (status: string) => outcomes.filter(o => o.status === status).length;
+      const summary = t('fhir.summary', {
+        created: count('CREATED'), matched: count('MATCHED'), conflicts: count('CONFLICT'), skipped: count('SKIPPED'), failed: count('FAILED')
+      });
+      addAuditLog(
+        AgentType.ADMISSION,
+        `Imported FHIR bundle ${file.name}: ${count('CREATED')} created, ${count('MATCHED')} matched, ${count('CONFLICT')} conflicts, ${count('SKIPPED')} skipped, ${count('FAILED')} failed`,
+        count('FAILED') + count('CONFLICT') > 0 ? 'FAILED' : 'SUCCESS'
+      );
+      setFhirStatus(`${file.name}: ${summary}.`);
+      setMessages(prev => [...prev, {
+        id: Date.now().toString(),
+        role: 'model',
+        text: `${t('fhir.importResult', { file: file.name, summary })}\n\n${outcomes
+          .map(o => `- ${o.resourceType}${o.id ? ` ${o.id}` : ''}: ${o.status} — ${o.detail}`)
+          .join('\n')}`,
+        sender: AgentType.ADMISSION,
+        timestamp: new Date()
+      }]);
+      setDataVersion(v => v + 1);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      addAuditLog(AgentType.ADMISSION, `FHIR import of ${file.name} failed: ${message}`, 'FAILED');
+      setFhirStatus(t('fhir.importFailed', { message }));
+    }
   };
 
   const handleSend = async () => {
     if (!input.trim() || isLoading) return;
+    setInput('');
+
+    // Offline the request waits in the session's outbox and is replayed once the connection returns
+    if (!isOnline()) {
+      setMessages(prev => [...prev, queueRequest(input, pinnedAgent ?? undefined)]);
+      addAuditLog(AgentType.ORCHESTRATOR, 'Request queued in the outbox while offline', 'PENDING');
+      return;
+    }
 
-    const userMsg: ChatMessage = {
+    await runRequest({
       id: Date.now().toString(),
       role: 'user',
       text: input,
       sender: 'User',
       timestamp: new Date()
+    }, pinnedAgent);
+  };
+
+  /**
+   * Runs one request through routing and the sub-agents. `userMsg` is a new
+   * message or a queued one being replayed; either way it ends up last in the
+   * chat, followed by its replies.
+   */
+  const runRequest = async (userMsg: ChatMessage, pinned: AgentType | null) => {
+    // The reply bubble exists from the start and fills in as the request runs. For a
+    // multi-step plan it becomes the orchestrator's plan summary and each step gets its own bubble.
+    const planId = (Date.now() + 1).toString();
+    let replyId = planId;
+    let multiStep = false;
+    let stepCount = 0;
+    const progress: AgentProgressEvent[] = [];
+    const progressByMessage: Record<string, AgentProgressEvent[]> = {};
+    const updateMessage = (id: string, patch: Partial<ChatMessage>) =>
+      setMessages(prev => prev.map(m => (m.id === id ? { ...m, ...patch } : m)));
+    const addProgress = (id: string, event: AgentProgressEvent) => {
+      progressByMessage[id] = [...(progressByMessage[id] ?? []), event];
+      updateMessage(id, { progress: progressByMessage[id] });
     };
+    const bubbleFor = (step: PlanStep) => (multiStep ? `${planId}-step-${step.id}` : planId);
 
-    setMessages(prev => [...prev, userMsg]);
-    setInput('');
+    setMessages(prev => [...prev.filter(m => m.id !== userMsg.id), userMsg, {
+      id: planId,
+      role: 'model',
+      text: '',
+      sender: AgentType.ORCHESTRATOR,
+      timestamp: new Date(),
+      progress: [],
+      pending: true
+    }]);
     setIsLoading(true);
+    setActivity([]);
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let requeued = false;
+    const options: AgentRunOptions = {
+      signal: controller.signal,
+      onProgress: (event) => {
+        progress.push(event);
+        setActivity([...progress]);
+
+        switch (event.kind) {
+          case 'PLANNED': {
+            const { steps } = event.plan;
+            multiStep = steps.length > 1;
+            stepCount = steps.length;
+            addProgress(planId, event);
+            if (multiStep) {
+              updateMessage(planId, { text: describePlan(steps), sender: AgentType.ORCHESTRATOR });
+            } else if (steps.length === 1) {
+              updateMessage(planId, { text: '', sender: steps[0].agent });
+              setCurrentAgent(steps[0].agent);
+            }
+            break;
+          }
+          case 'STEP_STARTED':
+            addProgress(planId, event);
+            replyId = bubbleFor(event.step);
+            setMessages(prev => [...prev, {
+              id: replyId,
+              role: 'model',
+              text: '',
+              sender: event.step.agent,
+              timestamp: new Date(),
+              progress: [],
+              pending: true,
+              planStep: { index: event.index, total: event.total }
+            }]);
+            setCurrentAgent(event.step.agent);
+            break;
+          case 'STEP_FINISHED':
+            addProgress(planId, event);
+            break;
+          default:
+            addProgress(replyId, event);
+        }
+      },
+      onText: (text) => updateMessage(replyId, { text }),
+      onStepResult: ({ step, status, result }) => {
+        const id = bubbleFor(step);
+        updateMessage(id, {
+          text: result.text,
+          timestamp: new Date(),
+          documentData: result.document,
+          groundingSources: result.groundingSources,
+          alerts: result.alerts,
+          pending: false,
+          ...(multiStep ? { planStep: { index: step.id - 1, total: stepCount, status } } : {})
+        });
+        if (result.failed) {
+          addAuditLog(step.agent, `Request not completed: ${result.failureReason ?? 'no reason given'}`, 'FAILED');
+        } else if (result.document?.approvalId) {
+          addAuditLog(step.agent, `${result.document.type} held for approval (${result.document.approvalId})`, 'PENDING');
+        } else {
+          addAuditLog(step.agent, result.document ? `Generated ${result.document.type}` : 'Responded to query');
+        }
+      }
+    };
 
     try {
-      // 1. Orchestrator Phase
-      // NOTE: We reset visualization to Orchestrator briefly to show processing
-      setCurrentAgent(AgentType.ORCHESTRATOR);
-      const delegation = await orchestrateRequest(userMsg.text);
-      
-      addAuditLog(AgentType.ORCHESTRATOR, `Delegated to ${delegation.agent}`);
+      // 1. Orchestrator Phase (skipped when an agent is pinned)
+      let plan: OrchestrationPlan;
+      if (pinned) {
+        plan = planForAgent(pinned, userMsg.text, `Pinned to ${pinned} by the user`);
+        options.onProgress?.({ kind: 'PLANNED', plan });
+        addAuditLog(AgentType.ORCHESTRATOR, `Routing bypassed: pinned to ${pinned}`);
+      } else {
+        setCurrentAgent(AgentType.ORCHESTRATOR);
+        plan = await orchestrateRequest(userMsg.text, options);
+
+        if (needsRoutingConfirmation(plan)) {
+          const agents = [...new Set([...plan.steps.map(s => s.agent), ...plan.alternatives])].filter(a => canUseAgent(user, a));
+          const proposed = plan.steps.length > 1;
+          const confidence = `${Math.round(plan.confidence * 100)}%`;
+          if (agents.length === 0 && !proposed) {
+            addAuditLog(AgentType.ORCHESTRATOR, `Request not routed (confidence ${confidence}); no candidate agent is available to this role`, 'FAILED');
+            updateMessage(planId, { text: t('app.routeUnavailable'), pending: false });
+            return;
+          }
+
+          updateMessage(planId, {
+            sender: AgentType.ORCHESTRATOR,
+            text: plan.steps.length === 0
+              ? t('app.routeFailed')
+              : `${proposed ? `${describePlan(plan.steps)}\n\n` : ''}${t('app.routeUnsure', { confidence, reasoning: plan.reasoning })}`,
+            routingChoices: { proposed, agents }
+          });
+          setCurrentAgent(AgentType.ORCHESTRATOR);
+          const choice = await new Promise<AgentType | 'PROPOSED'>((resolve, reject) => {
+            const onAbort = () => {
+              delete routingResolvers.current[planId];
+              reject(new RequestCancelledError());
+            };
+            controller.signal.addEventListener('abort', onAbort, { once: true });
+            routingResolvers.current[planId] = (picked) => {
+              controller.signal.removeEventListener('abort', onAbort);
+              delete routingResolvers.current[planId];
+              resolve(picked);
+            };
+          });
+
+          updateMessage(planId, { routingChoices: undefined, text: proposed && choice === 'PROPOSED' ? describePlan(plan.steps) : '' });
+          if (choice !== 'PROPOSED') {
+            plan = planForAgent(choice, userMsg.text, `Chosen by the user after a ${confidence} confidence route`);
+            options.onProgress?.({ kind: 'PLANNED', plan });
+          }
+          addAuditLog(AgentType.ORCHESTRATOR, `Low-confidence route (${confidence}) resolved by user: ${choice === 'PROPOSED' ? 'proposed plan' : choice}`);
+        }
+      }
       
-      // Artificial delay for UI effect (switching agents)
-      await new Promise(r => setTimeout(r, 600));
-      setCurrentAgent(delegation.agent);
+      addAuditLog(AgentType.ORCHESTRATOR, plan.steps.length === 1
+        ? `Delegated to ${plan.steps[0].agent}`
+        : `Planned ${plan.steps.length} steps: ${plan.steps.map(s => s.agent).join(' → ')}`);
 
       // 2. Execution Phase
-      const historyContext = messages.map(m => `${m.sender}: ${m.text}`).join('\n');
-      const response = await executeAgentTask(delegation.agent, userMsg.text, historyContext);
-
-      const agentMsg: ChatMessage = {
-        id: (Date.now() + 1).toString(),
-        role: 'model',
-        text: response.text,
-        sender: delegation.agent,
-        timestamp: new Date(),
-        documentData: response.document,
-        groundingSources: response.groundingSources
-      };
+      const history = activeSession ? buildHistory({ ...activeSession, messages }) : { summary: '', turns: [] };
+      const results = await executePlan(plan, history, options);
 
-      setMessages(prev => [...prev, agentMsg]);
-      addAuditLog(delegation.agent, response.document ? `Generated ${response.document.type}` : 'Responded to query');
+      if (multiStep) {
+        const completed = results.filter(r => r.status === 'COMPLETED').length;
+        updateMessage(planId, { pending: false });
+        addAuditLog(AgentType.ORCHESTRATOR, `Plan finished: ${completed} of ${results.length} steps completed`, completed === results.length ? 'SUCCESS' : 'FAILED');
+      }
 
     } catch (error) {
-      console.error("Error processing request", error);
-      const errorMsg: ChatMessage = {
-        id: Date.now().toString(),
-        role: 'model',
-        text: "I apologize, but I encountered a secure connection error. Please try again.",
-        sender: AgentType.ORCHESTRATOR,
-        timestamp: new Date()
-      };
-      setMessages(prev => [...prev, errorMsg]);
-      setCurrentAgent(AgentType.ORCHESTRATOR);
+      const toolsCompleted = progress.filter(e => e.kind === 'TOOL_FINISHED' && e.ok).length;
+      if (error instanceof RequestCancelledError) {
+        addAuditLog(AgentType.ORCHESTRATOR, `Request cancelled by user after ${toolsCompleted} completed tool call(s)`, 'FAILED');
+        updateMessage(replyId, {
+          text: toolsCompleted > 0
+            ? t('app.cancelledAfter', { count: toolsCompleted })
+            : t('app.cancelledNothing'),
+          pending: false
+        });
+        updateMessage(planId, { pending: false });
+      } else if (isNetworkError(error) && toolsCompleted === 0) {
+        // The connection dropped before anything took effect, so the request can safely wait in the outbox
+        requeued = true;
+        if (isOnline()) {
+          setReplayHeld(true);
+          setTimeout(() => setReplayHeld(false), REPLAY_RETRY_MS);
+        }
+        setMessages(prev => prev
+          .filter(m => m.id !== planId && !m.id.startsWith(`${planId}-step-`))
+          .map(m => (m.id === userMsg.id
+            ? { ...m, outbox: { status: 'QUEUED', queuedAt: userMsg.outbox?.queuedAt ?? new Date().toISOString(), agent: pinned ?? undefined } }
+            : m)));
+        addAuditLog(AgentType.ORCHESTRATOR, 'Request returned to the outbox after the connection dropped', 'PENDING');
+        setCurrentAgent(AgentType.ORCHESTRATOR);
+      } else {
+        console.error("Error processing request", error);
+        addAuditLog(AgentType.ORCHESTRATOR, error instanceof LlmError ? `Request failed (${error.category}): ${error.message}` : 'Request failed', 'FAILED');
+        updateMessage(replyId, {
+          text: error instanceof LlmError ? llmErrorMessage(error.category) : t('app.requestFailed'),
+          sender: AgentType.ORCHESTRATOR,
+          pending: false
+        });
+        updateMessage(planId, { pending: false });
+        setCurrentAgent(AgentType.ORCHESTRATOR);
+      }
     } finally {
+      if (userMsg.outbox && !requeued) updateMessage(userMsg.id, { outbox: { ...userMsg.outbox, status: 'SENT' } });
+      abortRef.current = null;
       setIsLoading(false);
+      // Tools may have changed records even when the request was cancelled
+      setDataVersion(v => v + 1);
     }
   };
 
+  // Replay the outbox one request at a time once the connection is back
+  useEffect(() => {
+    if (!online || !isOnline() || replayHeld || isLoading || !user) return;
+    const queued = nextQueued(messages);
+    if (!queued?.outbox) return;
+    addAuditLog(AgentType.ORCHESTRATOR, `Replaying request queued in the outbox at ${queued.outbox.queuedAt}`);
+    runRequest({ ...queued, outbox: { ...queued.outbox, status: 'SENDING' } }, queued.outbox.agent ?? null);
+  }, [online, replayHeld, isLoading, messages, user]);
+
+  const handleCancel = () => abortRef.current?.abort();
+
+  const handleRoutingChoice = (messageId: string, choice: AgentType | 'PROPOSED') => {
+    routingResolvers.current[messageId]?.(choice);
+  };
+
+  // Clicking a sub-agent pins it; clicking the pinned agent or the Central Manager returns to automatic routing
+  const handlePinAgent = (agent: AgentType) => {
+    const next = agent === AgentType.ORCHESTRATOR || agent === pinnedAgent ? null : agent;
+    setPinnedAgent(next);
+    setCurrentAgent(next ?? AgentType.ORCHESTRATOR);
+    addAuditLog(AgentType.ORCHESTRATOR, next ? `Agent pinned: ${next}` : 'Automatic routing restored');
+  };
+
+  const handleSelectSession = (id: string) => {
+    const session = sessions.find(s => s.id === id);
+    if (!session || isLoading) return;
+    setActiveSessionId(id);
+    setMessages(messagesOf(session));
+  };
+
+  const handleCreateSession = async (patientMrn: string) => {
+    const session = await createSession({ patientMrn: patientMrn.trim() || undefined });
+    setSessions(prev => [session, ...prev]);
+    setActiveSessionId(session.id);
+    setMessages(messagesOf(session));
+  };
+
+  const handleDeleteSession = async (id: string) => {
+    await deleteSession(id);
+    const remaining = sessions.filter(s => s.id !== id);
+    const next = remaining[0] ?? await createSession();
+    setSessions(remaining.length > 0 ? remaining : [next]);
+    setActiveSessionId(next.id);
+    setMessages(messagesOf(next));
+  };
+
+  const handleLogout = async () => {
+    await logout();
+    lockSessions();
+    setSessions([]);
+    setActiveSessionId(null);
+    setMessages([welcomeMessage()]);
+    setUser(null);
+    setPinnedAgent(null);
+    setSidePanel('calendar');
+    setCurrentAgent(AgentType.ORCHESTRATOR);
+  };
+
+  if (!user) {
+    return <LoginScreen onLogin={setUser} language={language} />;
+  }
+
+  const queued = queuedCount(messages);
+
+  // Calendar, beds, approvals and finance only appear for roles that may use the matching agent or tools, or decide held documents
+  const sidePanels: SidePanel[] = [
+    ...(canUseAgent(user, AgentType.SCHEDULING) ? ['calendar' as const] : []),
+    'lookup',
+    ...(canUseTool(user, AgentType.ADMISSION, 'check_bed_availability') ? ['beds' as const] : []),
+    'documents',
+    ...(canApprove(user, 'PRESCRIPTION') || canApprove(user, 'INVOICE') ? ['approvals' as const] : []),
+    ...(canUseTool(user, AgentType.BILLING, 'financial_report') ? ['finance' as const] : [])
+  ];
+  // The remembered tab may not be open to this role (the calendar is the default)
+  const shownPanel = sidePanels.includes(sidePanel) ? sidePanel : sidePanels[0];
+
   return (
     <div className="flex h-screen bg-slate-100">
       <Sidebar 
         activeAgent={currentAgent} 
         auditLogs={auditLogs} 
-        onSelectAgent={setCurrentAgent}
+        auditChainValid={auditChainValid}
+        onExportAuditLog={handleExportAuditLog}
+        onExportFhir={canUseTool(user, AgentType.ADMISSION, 'find_patient') ? handleExportFhir : undefined}
+        onImportFhir={canUseTool(user, AgentType.ADMISSION, 'register_patient') ? handleImportFhir : undefined}
+        fhirStatus={fhirStatus}
+        activity={activity}
+        isBusy={isLoading}
+        pinnedAgent={pinnedAgent}
+        onSelectAgent={handlePinAgent}
+        user={user}
+        language={language}
+        onLogout={handleLogout}
         isOpen={isSidebarOpen}
         onClose={() => setIsSidebarOpen(false)}
       />
@@ -130,8 +537,23 @@ function App() {
            </span>
         </div>
 
+        <SessionSwitcher
+          sessions={sessions}
+          activeId={activeSessionId}
+          disabled={isLoading}
+          onSelect={handleSelectSession}
+          onCreate={handleCreateSession}
+          onDelete={handleDeleteSession}
+        />
+
         {/* Chat Area */}
         <div className="flex-1 overflow-y-auto p-4 sm:p-6 space-y-6 scrollbar-hide">
+          {activeSession?.summary && (
+            <details className="text-xs text-slate-500 bg-slate-50 border border-slate-200 rounded-lg px-3 py-2">
+              <summary className="cursor-pointer">{t('app.summaryNote')}</summary>
+              <p className="mt-2 whitespace-pre-wrap">{activeSession.summary}</p>
+            </details>
+          )}
           {messages.map((msg) => (
             <div 
               key={msg.id} 
@@ -140,7 +562,11 @@ function App() {
               <div className={`max-w-[90%] sm:max-w-[75%] flex flex-col ${msg.role === 'user' ? 'items-end' : 'items-start'}`}>
                 {/* Sender Label */}
                 <span className={`text-[10px] mb-1 px-2 ${msg.role === 'user' ? 'text-slate-400' : 'text-indigo-500 font-semibold'}`}>
-                   {msg.role === 'user' ? 'You' : msg.sender}
+                   {msg.role === 'user' ? t('app.you') : msg.sender}
+                   {msg.planStep && ` · ${t('app.step', { index: msg.planStep.index + 1, total: msg.planStep.total })}`}
+                   {msg.planStep?.status && msg.planStep.status !== 'COMPLETED' && (
+                     <span className={`ml-1 ${msg.planStep.status === 'FAILED' ? 'text-red-500' : 'text-amber-500'}`}>({t(msg.planStep.status === 'FAILED' ? 'status.FAILED' : 'status.SKIPPED')})</span>
+                   )}
                 </span>
 
                 {/* Message Bubble */}
@@ -149,17 +575,63 @@ function App() {
                     ? 'bg-slate-800 text-white rounded-br-none' 
                     : 'bg-white text-slate-700 border border-slate-200 rounded-bl-none'
                 }`}>
-                  {msg.text}
+                  {/* Live Progress */}
+                  {msg.progress && msg.progress.length > 0 && (
+                    <div className={msg.text || !msg.pending ? 'mb-3 pb-3 border-b border-slate-100' : undefined}>
+                      <ProgressSteps events={msg.progress} />
+                    </div>
+                  )}
+
+                  <span className="whitespace-pre-wrap">{msg.text}</span>
+                  {msg.pending && !msg.routingChoices && (
+                    msg.text
+                      ? <span className="inline-block w-1.5 h-4 ml-0.5 align-middle bg-slate-400 animate-pulse"></span>
+                      : (
+                        <div className="flex items-center gap-2">
+                          <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce"></div>
+                          <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce delay-75"></div>
+                          <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce delay-150"></div>
+                        </div>
+                      )
+                  )}
                   
+                  {/* Routing Confirmation */}
+                  {msg.routingChoices && (
+                    <div className="mt-3 flex flex-wrap gap-2">
+                      {msg.routingChoices.proposed && (
+                        <button
+                          onClick={() => handleRoutingChoice(msg.id, 'PROPOSED')}
+                          className="text-xs px-3 py-1 rounded-full bg-indigo-600 text-white hover:bg-indigo-700"
+                        >
+                          {t('app.runPlan')}
+                        </button>
+                      )}
+                      {msg.routingChoices.agents.map(agent => (
+                        <button
+                          key={agent}
+                          onClick={() => handleRoutingChoice(msg.id, agent)}
+                          className="text-xs px-3 py-1 rounded-full border border-indigo-300 text-indigo-700 hover:bg-indigo-50"
+                        >
+                          {agent}
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
                   {/* Document Attachment */}
                   {msg.documentData && (
                     <DocumentViewer data={msg.documentData} />
                   )}
 
+                  {/* System Alerts */}
+                  {msg.alerts?.map((alert, idx) => (
+                    <DocumentViewer key={idx} data={alert} />
+                  ))}
+
                   {/* Grounding Sources */}
                   {msg.groundingSources && msg.groundingSources.length > 0 && (
                     <div className="mt-3 pt-3 border-t border-slate-100">
-                      <p className="text-[10px] text-slate-400 uppercase font-bold mb-1">Sources</p>
+                      <p className="text-[10px] text-slate-400 uppercase font-bold mb-1">{t('app.sources')}</p>
                       <ul className="space-y-1">
                         {msg.groundingSources.map((source, idx) => (
                           <li key={idx}>
@@ -180,53 +652,90 @@ function App() {
                 
                 {/* Timestamp */}
                 <span className="text-[10px] text-slate-300 mt-1 px-1">
-                  {msg.timestamp.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
+                  {formatTime(msg.timestamp)}
+                  {msg.outbox && (
+                    <span className={`ml-1 ${msg.outbox.status === 'SENT' ? '' : 'text-amber-500 font-semibold'}`}>
+                      · {t(OUTBOX_LABELS[msg.outbox.status as keyof typeof OUTBOX_LABELS])}
+                    </span>
+                  )}
                 </span>
               </div>
             </div>
           ))}
           
-          {isLoading && (
-            <div className="flex justify-start animate-pulse">
-               <div className="bg-white p-4 rounded-2xl rounded-bl-none shadow-sm border border-slate-200 flex items-center gap-2">
-                 <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce"></div>
-                 <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce delay-75"></div>
-                 <div className="w-2 h-2 bg-slate-400 rounded-full animate-bounce delay-150"></div>
-                 <span className="text-xs text-slate-400 ml-2">Processing...</span>
-               </div>
-            </div>
-          )}
           <div ref={chatEndRef} />
         </div>
 
         {/* Input Area */}
         <div className="bg-white p-4 border-t border-slate-200">
+          {(!online || queued > 0) && (
+            <div className={`max-w-4xl mx-auto mb-2 text-xs rounded px-3 py-1 border ${online ? 'bg-indigo-50 border-indigo-200 text-indigo-800' : 'bg-slate-100 border-slate-300 text-slate-700'}`}>
+              {!online ? t('outbox.offlineBanner', { count: queued }) : replayHeld ? t('outbox.retrying', { count: queued }) : t('outbox.replaying', { count: queued })}
+            </div>
+          )}
+          {pinnedAgent && (
+            <div className="max-w-4xl mx-auto mb-2 flex items-center justify-between text-xs bg-amber-50 border border-amber-200 text-amber-800 rounded px-3 py-1">
+              <span>📌 {t('app.pinnedBanner', { agent: pinnedAgent })}</span>
+              <button onClick={() => handlePinAgent(pinnedAgent)} className="hover:underline">{t('app.unpin')}</button>
+            </div>
+          )}
           <div className="max-w-4xl mx-auto relative flex items-center gap-2">
             <input
               type="text"
               value={input}
               onChange={(e) => setInput(e.target.value)}
               onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-              placeholder={isLoading ? "Please wait..." : "Type request (e.g., 'Generate invoice for surgery')"}
+              placeholder={isLoading ? t('app.wait') : online ? t('app.placeholder') : t('outbox.placeholder')}
               disabled={isLoading}
               className="flex-1 bg-slate-50 border border-slate-300 text-slate-900 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 block w-full p-4 disabled:opacity-50 disabled:bg-slate-100"
             />
-            <button
-              onClick={handleSend}
-              disabled={isLoading || !input.trim()}
-              className="absolute right-2 px-4 py-2 bg-indigo-600 text-white rounded-md text-sm font-medium hover:bg-indigo-700 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors shadow-sm"
-            >
-              Send
-            </button>
+            {isLoading ? (
+              <button
+                onClick={handleCancel}
+                className="absolute right-2 px-4 py-2 bg-white text-red-600 border border-red-300 rounded-md text-sm font-medium hover:bg-red-50 transition-colors shadow-sm"
+              >
+                {t('app.cancel')}
+              </button>
+            ) : (
+              <button
+                onClick={handleSend}
+                disabled={!input.trim()}
+                className="absolute right-2 px-4 py-2 bg-indigo-600 text-white rounded-md text-sm font-medium hover:bg-indigo-700 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors shadow-sm"
+              >
+                {online ? t('app.send') : t('outbox.queue')}
+              </button>
+            )}
           </div>
           <div className="max-w-4xl mx-auto mt-2 text-center">
-             <p className="text-[10px] text-slate-400">
-               MHO System ensures all data handling complies with HIPAA standards. 
-               Identities are role-masked.
-             </p>
+             <p className="text-[10px] text-slate-400">{t('app.complianceNote')}</p>
           </div>
         </div>
       </main>
+
+      {/* Calendar / Documents Panel (desktop only) */}
+      <aside className="hidden lg:flex w-80 bg-white border-l border-gray-200 h-screen flex-col">
+        <div className="flex border-b border-gray-200 text-xs font-medium">
+          {sidePanels.map(panel => (
+            <button
+              key={panel}
+              onClick={() => setSidePanel(panel)}
+              className={`flex-1 py-2 ${shownPanel === panel ? 'text-indigo-700 border-b-2 border-indigo-600' : 'text-gray-500 hover:text-gray-700'}`}
+            >
+              {t(SIDE_PANEL_LABELS[panel])}
+            </button>
+          ))}
+        </div>
+        <div className="flex-1 min-h-0">
+          {shownPanel === 'calendar' && <CalendarView refreshKey={dataVersion} />}
+          {shownPanel === 'lookup' && <OfflineLookup user={user} refreshKey={dataVersion} />}
+          {shownPanel === 'documents' && <DocumentsPanel user={user} refreshKey={dataVersion} />}
+          {shownPanel === 'approvals' && (
+            <ApprovalsPanel user={user} refreshKey={dataVersion} onDecided={() => setDataVersion(v => v + 1)} />
+          )}
+          {shownPanel === 'finance' && <FinancialDashboard refreshKey={dataVersion} />}
+          {shownPanel === 'beds' && <OccupancyBoard refreshKey={dataVersion} />}
+        </div>
+      </aside>
     </div>
   );
 }
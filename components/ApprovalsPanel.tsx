@@ -0,0 +1,262 @@
+import React, { useEffect, useState } from 'react';
+import { ApprovableDocumentType, ApprovalRequest, ApprovalThresholds, InvoiceLineInput, StaffUser } from '../types';
+import { canApprove } from '../services/accessControl';
+import { getApprovalThresholds, listApprovals, updateApprovalThresholds } from '../services/approvals';
+import { decideApproval } from '../services/documents';
+import { DOCUMENT_SCHEMAS } from '../services/documentSchemas';
+import { fieldLabel } from '../services/documentExport';
+import { approvalReasonLabel, approvalStatusLabel, documentTypeLabel, formatDateTime, t } from '../services/i18n';
+import { DocumentViewer } from './DocumentViewer';
+
+interface ApprovalsPanelProps {
+  user: StaffUser;
+  refreshKey: number; // Bumped by the parent whenever an agent may have queued requests
+  onDecided: () => void;
+}
+
+const APPROVABLE_TYPES: ApprovableDocumentType[] = ['PRESCRIPTION', 'INVOICE'];
+
+// Prescription fields an approver may correct; a different drug needs a new prescription
+const EDITABLE_PRESCRIPTION_FIELDS = ['dose', 'frequency', 'quantity', 'instructions', 'prescriber'];
+
+export const ApprovalsPanel: React.FC<ApprovalsPanelProps> = ({ user, refreshKey, onDecided }) => {
+  const [view, setView] = useState<'pending' | 'decided'>('pending');
+  const [requests, setRequests] = useState<ApprovalRequest[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [fields, setFields] = useState<Record<string, string> | null>(null); // Prescription edits
+  const [lines, setLines] = useState<InvoiceLineInput[] | null>(null); // Invoice line edits
+  const [note, setNote] = useState('');
+  const [error, setError] = useState('');
+  const [thresholds, setThresholds] = useState<ApprovalThresholds | null>(null);
+  const [version, setVersion] = useState(0); // Bumped after a local decision
+
+  const types = APPROVABLE_TYPES.filter(type => canApprove(user, type));
+  const selected = requests.find(r => r.id === selectedId);
+
+  useEffect(() => {
+    let cancelled = false;
+    listApprovals().then(found => {
+      if (cancelled) return;
+      setRequests(found.filter(r => types.includes(r.type) && (view === 'pending') === (r.status === 'PENDING')));
+    });
+    getApprovalThresholds().then(current => { if (!cancelled) setThresholds(current); });
+    return () => { cancelled = true; };
+  }, [view, refreshKey, version, user]);
+
+  const select = (request: ApprovalRequest) => {
+    setSelectedId(request.id);
+    setFields(null);
+    setLines(null);
+    setNote('');
+    setError('');
+  };
+
+  const startEditing = () => {
+    if (!selected) return;
+    if (selected.type === 'INVOICE') {
+      setLines((selected.invoiceLines ?? []).map(line => ({ ...line })));
+    } else {
+      setFields(Object.fromEntries(EDITABLE_PRESCRIPTION_FIELDS.map(key => [key, String(selected.document.content[key] ?? '')])));
+    }
+  };
+
+  const updateLine = (index: number, key: 'quantity' | 'unitPrice', value: string) =>
+    setLines(lines && lines.map((line, i) => i === index ? { ...line, [key]: Number(value) } : line));
+
+  const decide = async (approve: boolean) => {
+    if (!selected) return;
+    setError('');
+    try {
+      await decideApproval(selected.id, {
+        approve,
+        note,
+        changes: fields ?? undefined,
+        invoiceLines: lines ?? undefined
+      });
+      setSelectedId(null);
+      setVersion(v => v + 1);
+      onDecided();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const saveThresholds = async () => {
+    if (!thresholds) return;
+    setError('');
+    try {
+      // Only send what this user may set; the rest belongs to other approvers
+      const owned: Partial<ApprovalThresholds> = {};
+      if (canApprove(user, 'INVOICE')) owned.invoiceTotal = thresholds.invoiceTotal;
+      if (canApprove(user, 'PRESCRIPTION')) {
+        owned.prescriptionQuantity = thresholds.prescriptionQuantity;
+        owned.holdFlaggedPrescriptions = thresholds.holdFlaggedPrescriptions;
+      }
+      setThresholds(await updateApprovalThresholds(owned));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-4 border-b border-gray-200 space-y-2">
+        <h2 className="text-xs font-semibold text-gray-400 uppercase tracking-wider">{t('approval.title')}</h2>
+        <div className="flex text-xs rounded border border-gray-200 overflow-hidden">
+          {(['pending', 'decided'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => { setView(option); setSelectedId(null); }}
+              className={`flex-1 py-1 ${view === option ? 'bg-slate-800 text-white' : 'text-gray-500 hover:bg-gray-100'}`}
+            >
+              {t(option === 'pending' ? 'approval.pending' : 'approval.decided')}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {requests.length === 0 && <p className="text-xs text-gray-400 italic">{t('approval.empty')}</p>}
+        {requests.map(request => (
+          <button
+            key={request.id}
+            onClick={() => select(request)}
+            className={`w-full text-left text-xs p-2 rounded border ${
+              selectedId === request.id ? 'border-indigo-300 bg-indigo-50' : 'border-gray-100 bg-gray-50 hover:bg-gray-100'
+            }`}
+          >
+            <div className="flex justify-between">
+              <span className="font-mono font-semibold text-gray-700">{request.id}</span>
+              <span className={request.status === 'REJECTED' ? 'text-red-600' : request.status === 'APPROVED' ? 'text-emerald-600' : 'text-amber-600'}>
+                {approvalStatusLabel(request.status)}
+              </span>
+            </div>
+            <div className="text-gray-600 truncate">{documentTypeLabel(request.type)} · {request.document.title}</div>
+            <div className="text-gray-400">{request.patientMrn ?? '—'} · {formatDateTime(request.requestedAt)}</div>
+          </button>
+        ))}
+
+        {selected && (
+          <div className="pt-2 border-t border-gray-200 space-y-2">
+            <ul className="text-[11px] text-amber-700 list-disc pl-4">
+              {selected.reasons.map((reason, i) => <li key={i}>{approvalReasonLabel(reason)}</li>)}
+            </ul>
+            <p className="text-[10px] text-gray-500">{t('approval.requestedBy', { user: selected.requestedBy, time: formatDateTime(selected.requestedAt) })}</p>
+            {selected.decidedBy && selected.decidedAt && (
+              <p className="text-[10px] text-gray-500">
+                {t('approval.decidedBy', { status: approvalStatusLabel(selected.status), user: selected.decidedBy, time: formatDateTime(selected.decidedAt) })}
+                {selected.decisionNote && ` · ${selected.decisionNote}`}
+              </p>
+            )}
+            {selected.editedFields && <p className="text-[10px] text-gray-500">{t('approval.edited', { fields: selected.editedFields.join(', ') })}</p>}
+            {selected.documentNumber && <p className="text-[10px] text-gray-500">{t('approval.issued', { number: selected.documentNumber })}</p>}
+
+            <DocumentViewer data={selected.status === 'PENDING' ? { ...selected.document, approvalId: selected.id } : selected.document} />
+
+            {fields && (
+              <div className="space-y-1">
+                {DOCUMENT_SCHEMAS.PRESCRIPTION.fields.filter(spec => spec.key in fields).map(spec => (
+                  <label key={spec.key} className="block text-[10px] text-gray-500">
+                    {fieldLabel(spec)}
+                    <input
+                      value={fields[spec.key]}
+                      onChange={(e) => setFields({ ...fields, [spec.key]: e.target.value })}
+                      className="w-full text-xs border border-gray-200 rounded px-2 py-1"
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {lines && (
+              <table className="w-full text-[10px] text-gray-600">
+                <thead>
+                  <tr className="text-gray-400">
+                    <th className="text-left font-normal">{t('approval.lineDescription')}</th>
+                    <th className="text-right font-normal">{t('doc.qty')}</th>
+                    <th className="text-right font-normal">{t('doc.unitPrice')}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {lines.map((line, i) => (
+                    <tr key={i}>
+                      <td className="pr-1 truncate">{line.description}</td>
+                      <td className="w-12">
+                        <input type="number" min="0" value={line.quantity} onChange={(e) => updateLine(i, 'quantity', e.target.value)} className="w-full text-xs border border-gray-200 rounded px-1 text-right" />
+                      </td>
+                      <td className="w-24">
+                        <input type="number" min="0" value={line.unitPrice} onChange={(e) => updateLine(i, 'unitPrice', e.target.value)} className="w-full text-xs border border-gray-200 rounded px-1 text-right" />
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+
+            {selected.status === 'PENDING' && (selected.requestedBy === user.username ? (
+              <p className="text-xs text-gray-400 italic">{t('approval.ownRequest')}</p>
+            ) : (
+              <div className="space-y-2">
+                <input
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder={t('approval.note')}
+                  className="w-full text-xs border border-gray-200 rounded px-2 py-1"
+                />
+                <div className="flex gap-2">
+                  {!fields && !lines && (
+                    <button onClick={startEditing} className="flex-1 text-xs py-1 rounded border border-gray-300 hover:bg-gray-100">{t('approval.edit')}</button>
+                  )}
+                  <button onClick={() => decide(true)} className="flex-1 text-xs py-1 rounded bg-emerald-600 text-white hover:bg-emerald-700">{t('approval.approve')}</button>
+                  <button onClick={() => decide(false)} className="flex-1 text-xs py-1 rounded border border-red-300 text-red-600 hover:bg-red-50">{t('approval.reject')}</button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+        {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+      </div>
+
+      {thresholds && (
+        <div className="p-4 border-t border-gray-200 space-y-1 text-[10px] text-gray-500">
+          <h3 className="font-semibold uppercase tracking-wider text-gray-400">{t('approval.thresholds')}</h3>
+          {canApprove(user, 'INVOICE') && (
+            <label className="block">
+              {t('approval.threshold.invoiceTotal')}
+              <input
+                type="number"
+                min="0"
+                value={thresholds.invoiceTotal}
+                onChange={(e) => setThresholds({ ...thresholds, invoiceTotal: Number(e.target.value) })}
+                className="w-full text-xs border border-gray-200 rounded px-2 py-1"
+              />
+            </label>
+          )}
+          {canApprove(user, 'PRESCRIPTION') && (
+            <>
+              <label className="block">
+                {t('approval.threshold.prescriptionQuantity')}
+                <input
+                  type="number"
+                  min="0"
+                  value={thresholds.prescriptionQuantity}
+                  onChange={(e) => setThresholds({ ...thresholds, prescriptionQuantity: Number(e.target.value) })}
+                  className="w-full text-xs border border-gray-200 rounded px-2 py-1"
+                />
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={thresholds.holdFlaggedPrescriptions}
+                  onChange={(e) => setThresholds({ ...thresholds, holdFlaggedPrescriptions: e.target.checked })}
+                />
+                {t('approval.threshold.holdFlaggedPrescriptions')}
+              </label>
+            </>
+          )}
+          <button onClick={saveThresholds} className="w-full text-xs py-1 rounded border border-gray-300 hover:bg-gray-100">{t('approval.saveThresholds')}</button>
+        </div>
+      )}
+    </div>
+  );
+};
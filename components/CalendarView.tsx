@@ -0,0 +1,94 @@
+import React, { useEffect, useState } from 'react';
+import { Appointment, AppointmentSlot } from '../types';
+import { DOCTORS, listAppointments, listSlots } from '../services/scheduling';
+import { t } from '../services/i18n';
+
+interface CalendarViewProps {
+  refreshKey: number; // Bumped by the parent whenever an agent may have changed bookings
+}
+
+const toDateInput = (date: Date) =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const shiftDate = (date: string, days: number) => {
+  const d = new Date(`${date}T00:00`);
+  d.setDate(d.getDate() + days);
+  return toDateInput(d);
+};
+
+export const CalendarView: React.FC<CalendarViewProps> = ({ refreshKey }) => {
+  const [date, setDate] = useState(toDateInput(new Date()));
+  const [department, setDepartment] = useState('');
+  const [slots, setSlots] = useState<AppointmentSlot[]>([]);
+  const [appointments, setAppointments] = useState<Appointment[]>([]);
+
+  const departments = Array.from(new Set(DOCTORS.map(d => d.department)));
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([listSlots(date, { department }), listAppointments({ date })]).then(([s, a]) => {
+      if (cancelled) return;
+      setSlots(s);
+      setAppointments(a.filter(appt => appt.status === 'BOOKED'));
+    });
+    return () => { cancelled = true; };
+  }, [date, department, refreshKey]);
+
+  const doctorsOnDuty = DOCTORS.filter(d => slots.some(s => s.doctorId === d.id));
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-4 border-b border-gray-200">
+        <h2 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-3">{t('calendar.title')}</h2>
+        <div className="flex items-center gap-1 mb-2">
+          <button onClick={() => setDate(shiftDate(date, -1))} className="px-2 py-1 text-xs rounded border border-gray-200 hover:bg-gray-100">‹</button>
+          <input
+            type="date"
+            value={date}
+            onChange={(e) => e.target.value && setDate(e.target.value)}
+            className="flex-1 text-xs border border-gray-200 rounded px-2 py-1"
+          />
+          <button onClick={() => setDate(shiftDate(date, 1))} className="px-2 py-1 text-xs rounded border border-gray-200 hover:bg-gray-100">›</button>
+        </div>
+        <select
+          value={department}
+          onChange={(e) => setDepartment(e.target.value)}
+          className="w-full text-xs border border-gray-200 rounded px-2 py-1"
+        >
+          <option value="">{t('calendar.allDepartments')}</option>
+          {departments.map(dep => <option key={dep} value={dep}>{dep}</option>)}
+        </select>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4">
+        {doctorsOnDuty.map(doctor => (
+          <div key={doctor.id}>
+            <div className="text-xs font-medium text-gray-700">{doctor.name}</div>
+            <div className="text-[10px] text-gray-400 mb-1">{doctor.department}</div>
+            <div className="grid grid-cols-4 gap-1">
+              {slots.filter(s => s.doctorId === doctor.id).map(slot => {
+                const booking = appointments.find(a => a.doctorId === doctor.id && a.start === slot.start);
+                return (
+                  <div
+                    key={slot.start}
+                    title={booking ? `${booking.id} · ${booking.patientMrn}${booking.reason ? ` · ${booking.reason}` : ''}` : t('calendar.free')}
+                    className={`text-[10px] text-center rounded py-1 font-mono ${
+                      slot.available
+                        ? 'bg-green-50 text-green-700 border border-green-100'
+                        : 'bg-indigo-600 text-white'
+                    }`}
+                  >
+                    {slot.start.slice(11)}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        ))}
+        {doctorsOnDuty.length === 0 && (
+          <div className="text-center text-gray-400 text-xs py-4 italic">{t('calendar.noDoctors')}</div>
+        )}
+      </div>
+    </div>
+  );
+};
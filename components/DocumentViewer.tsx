@@ -1,11 +1,14 @@
-import React from 'react';
+import React, { useRef } from 'react';
 import { GeneratedDocumentData } from '../types';
+import { HOSPITAL_LETTERHEAD, documentRows, downloadDocumentPdf, signatureFor } from '../services/documentExport';
+import { documentStatusLabel, documentTypeLabel, formatRupiah, t } from '../services/i18n';
 
 interface DocumentViewerProps {
   data: GeneratedDocumentData;
 }
 
 export const DocumentViewer: React.FC<DocumentViewerProps> = ({ data }) => {
+  const rootRef = useRef<HTMLDivElement>(null);
   const getIcon = () => {
     switch (data.type) {
       case 'INVOICE': return '💰';
@@ -24,33 +27,111 @@ export const DocumentViewer: React.FC<DocumentViewerProps> = ({ data }) => {
     }
   };
 
+  const rows = documentRows(data);
+  const signature = signatureFor(data);
+
+  // The print stylesheet in index.html hides everything except the marked document
+  const handlePrint = () => {
+    const root = rootRef.current;
+    if (!root) return;
+    root.classList.add('print-target');
+    document.body.classList.add('printing-document');
+    window.addEventListener('afterprint', () => {
+      root.classList.remove('print-target');
+      document.body.classList.remove('printing-document');
+    }, { once: true });
+    window.print();
+  };
+
   return (
-    <div className={`mt-4 mb-2 p-6 rounded-lg border-l-4 shadow-sm font-mono text-sm ${getColor()} max-w-md`}>
+    <div ref={rootRef} className={`mt-4 mb-2 p-6 rounded-lg border-l-4 shadow-sm font-mono text-sm ${getColor()} max-w-md`}>
+      {/* Letterhead (print only) */}
+      <div className="hidden print:block border-b-2 border-gray-800 pb-2 mb-4 font-sans">
+        <div className="text-xl font-bold text-indigo-900">{HOSPITAL_LETTERHEAD.name}</div>
+        <div className="text-xs">{HOSPITAL_LETTERHEAD.tagline}</div>
+        <div className="text-xs">{HOSPITAL_LETTERHEAD.address}</div>
+        <div className="text-xs">{HOSPITAL_LETTERHEAD.contact}</div>
+      </div>
+
       <div className="flex justify-between items-start border-b border-gray-200 pb-3 mb-3">
         <div>
           <span className="text-2xl mr-2">{getIcon()}</span>
-          <span className="font-bold uppercase tracking-wider text-gray-700">{data.type}</span>
+          <span className="font-bold uppercase tracking-wider text-gray-700">{documentTypeLabel(data.type)}</span>
         </div>
         <div className="text-xs text-gray-500 text-right">
           <div>HOSPITAL MHO SYSTEM</div>
-          <div>ID: {Math.floor(Math.random() * 100000)}</div>
+          <div>{t('doc.number', { number: data.documentNumber ?? t('doc.notFiled') })}</div>
+          {data.version && data.version > 1 && <div>{t('doc.version', { version: data.version })}</div>}
+          {data.approvalId && (
+            <div className="font-bold text-amber-600">{t('approval.awaiting', { id: data.approvalId })}</div>
+          )}
+          {data.status && data.status !== 'CURRENT' && (
+            <div className={`font-bold ${data.status === 'VOID' ? 'text-red-600' : 'text-amber-600'}`}>{documentStatusLabel(data.status)}</div>
+          )}
         </div>
       </div>
 
       <h3 className="text-lg font-bold text-gray-800 mb-4">{data.title}</h3>
 
       <div className="space-y-2 mb-6">
-        {Object.entries(data.content).map(([key, value]) => (
-          <div key={key} className="flex justify-between border-b border-gray-200/50 pb-1">
-            <span className="font-semibold text-gray-600 capitalize">{key.replace(/_/g, ' ')}:</span>
+        {rows.map(([label, value]) => (
+          <div key={label} className="flex justify-between border-b border-gray-200/50 pb-1">
+            <span className="font-semibold text-gray-600 capitalize">{label}:</span>
             <span className="text-gray-900">{value}</span>
           </div>
         ))}
       </div>
 
+      {data.lineItems && data.lineItems.length > 0 && (
+        <table className="w-full text-xs mb-6">
+          <thead>
+            <tr className="text-gray-500 border-b border-gray-300">
+              <th className="text-left font-semibold pb-1">{t('doc.item')}</th>
+              <th className="text-right font-semibold pb-1">{t('doc.qty')}</th>
+              <th className="text-right font-semibold pb-1">{t('doc.unitPrice')}</th>
+              <th className="text-right font-semibold pb-1">{t('doc.amount')}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {data.lineItems.map((item, i) => (
+              <tr key={i} className="border-b border-gray-200/50">
+                <td className="py-1 pr-2">{item.description}</td>
+                <td className="py-1 text-right">{item.quantity}</td>
+                <td className="py-1 text-right">{formatRupiah(item.unitPrice)}</td>
+                <td className="py-1 text-right">{formatRupiah(item.amount)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {/* Signature block (print only) */}
+      <div className="hidden print:block mt-8 ml-auto w-56 text-xs font-sans">
+        <div>{t('doc.signedAt', { date: signature.date })}</div>
+        <div className="font-bold">{signature.role}</div>
+        <div className="h-16 border-b border-gray-800"></div>
+        <div>{signature.name || t('doc.nameAndStamp')}</div>
+      </div>
+
       <div className="text-xs text-gray-500 italic mt-4 pt-2 border-t border-gray-200">
-        <strong>COMPLIANCE NOTE:</strong> {data.footer}
+        <strong>{t('doc.complianceNote')}</strong> {data.footer}
       </div>
+
+      {/* A held draft is not an official document yet, so it cannot be exported */}
+      {!data.approvalId && <div className="flex justify-end gap-2 mt-3 print:hidden font-sans">
+        <button
+          onClick={() => downloadDocumentPdf(data)}
+          className="text-xs px-3 py-1 rounded border border-gray-300 bg-white text-gray-700 hover:bg-gray-100"
+        >
+          {t('doc.downloadPdf')}
+        </button>
+        <button
+          onClick={handlePrint}
+          className="text-xs px-3 py-1 rounded border border-gray-300 bg-white text-gray-700 hover:bg-gray-100"
+        >
+          {t('doc.print')}
+        </button>
+      </div>}
     </div>
   );
 };
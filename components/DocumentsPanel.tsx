@@ -0,0 +1,189 @@
+import React, { useEffect, useState } from 'react';
+import { ArchivedDocument, DocumentType, StaffUser } from '../types';
+import { DOCUMENT_OWNERS, amendDocument, getDocumentHistory, searchDocuments, voidDocument } from '../services/documentArchive';
+import { DOCUMENT_SCHEMAS } from '../services/documentSchemas';
+import { fieldLabel } from '../services/documentExport';
+import { documentStatusLabel, documentTypeLabel, formatDate, formatDateTime, t } from '../services/i18n';
+import { canUseTool } from '../services/accessControl';
+import { appendAuditEntry } from '../services/auditLog';
+import { DocumentViewer } from './DocumentViewer';
+
+interface DocumentsPanelProps {
+  user: StaffUser;
+  refreshKey: number; // Bumped by the parent whenever an agent may have issued documents
+}
+
+const DOCUMENT_TYPES = Object.keys(DOCUMENT_OWNERS) as DocumentType[];
+
+export const DocumentsPanel: React.FC<DocumentsPanelProps> = ({ user, refreshKey }) => {
+  const [patientMrn, setPatientMrn] = useState('');
+  const [type, setType] = useState<DocumentType | ''>('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [results, setResults] = useState<ArchivedDocument[]>([]);
+  const [history, setHistory] = useState<ArchivedDocument[]>([]);
+  const [draft, setDraft] = useState<Record<string, string> | null>(null); // Field values while amending
+  const [reason, setReason] = useState('');
+  const [error, setError] = useState('');
+  const [version, setVersion] = useState(0); // Bumped after a local amend/void
+
+  // Only document types whose owning agent grants this role 'find_documents'
+  const visibleTypes = DOCUMENT_TYPES.filter(docType => canUseTool(user, DOCUMENT_OWNERS[docType], 'find_documents'));
+  const selected = history[history.length - 1];
+  const canChange = (tool: string) => selected && canUseTool(user, DOCUMENT_OWNERS[selected.type], tool);
+
+  useEffect(() => {
+    let cancelled = false;
+    searchDocuments({ patientMrn: patientMrn || undefined, type: type || undefined, from: from || undefined, to: to || undefined })
+      .then(found => { if (!cancelled) setResults(found.filter(d => visibleTypes.includes(d.type))); });
+    return () => { cancelled = true; };
+  }, [patientMrn, type, from, to, refreshKey, version, user]);
+
+  const openDocument = async (documentNumber: string) => {
+    setDraft(null);
+    setReason('');
+    setError('');
+    setHistory(await getDocumentHistory(documentNumber));
+  };
+
+  const runChange = async (action: () => Promise<ArchivedDocument>, label: string) => {
+    if (!selected) return;
+    setError('');
+    try {
+      const updated = await action();
+      await appendAuditEntry({
+        agent: DOCUMENT_OWNERS[selected.type],
+        action: `Document ${updated.documentNumber} ${label} from the documents panel: ${updated.changeReason}${updated.stockNote ? ` ${updated.stockNote}` : ''}`,
+        status: 'SUCCESS',
+        patientMrn: updated.patientMrn
+      });
+      setDraft(null);
+      setReason('');
+      setVersion(v => v + 1);
+      await openDocument(updated.documentNumber);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleAmend = () => {
+    if (!draft || !selected) return;
+    const changes: Record<string, string> = {};
+    for (const key of Object.keys(draft)) {
+      if (String(selected.content[key] ?? '') !== draft[key]) changes[key] = draft[key];
+    }
+    runChange(() => amendDocument(selected.documentNumber, changes, reason), 'amended');
+  };
+
+  const handleVoid = () => {
+    if (!selected) return;
+    runChange(() => voidDocument(selected.documentNumber, reason), 'voided');
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-4 border-b border-gray-200 space-y-2">
+        <h2 className="text-xs font-semibold text-gray-400 uppercase tracking-wider">{t('archive.title')}</h2>
+        <input
+          value={patientMrn}
+          onChange={(e) => setPatientMrn(e.target.value)}
+          placeholder={t('archive.mrn')}
+          className="w-full text-xs border border-gray-200 rounded px-2 py-1"
+        />
+        <select
+          value={type}
+          onChange={(e) => setType(e.target.value as DocumentType | '')}
+          className="w-full text-xs border border-gray-200 rounded px-2 py-1"
+        >
+          <option value="">{t('archive.allTypes')}</option>
+          {visibleTypes.map(docType => <option key={docType} value={docType}>{documentTypeLabel(docType)}</option>)}
+        </select>
+        <div className="flex gap-1">
+          <input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="flex-1 text-xs border border-gray-200 rounded px-2 py-1" />
+          <input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="flex-1 text-xs border border-gray-200 rounded px-2 py-1" />
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-2">
+        {results.length === 0 && <p className="text-xs text-gray-400 italic">{t('archive.empty')}</p>}
+        {results.map(doc => (
+          <button
+            key={doc.id}
+            onClick={() => openDocument(doc.documentNumber)}
+            className={`w-full text-left text-xs p-2 rounded border ${
+              selected?.documentNumber === doc.documentNumber ? 'border-indigo-300 bg-indigo-50' : 'border-gray-100 bg-gray-50 hover:bg-gray-100'
+            }`}
+          >
+            <div className="flex justify-between">
+              <span className="font-mono font-semibold text-gray-700">{doc.documentNumber}</span>
+              <span className={doc.status === 'VOID' ? 'text-red-600 font-bold' : 'text-gray-400'}>
+                {doc.status === 'VOID' ? documentStatusLabel('VOID') : `v${doc.version}`}
+              </span>
+            </div>
+            <div className="text-gray-600 truncate">{doc.title}</div>
+            <div className="text-gray-400">{doc.patientMrn ?? '—'} · {formatDate(doc.issuedAt)}</div>
+          </button>
+        ))}
+
+        {selected && (
+          <div className="pt-2 border-t border-gray-200">
+            <DocumentViewer data={selected} />
+
+            {history.length > 1 && (
+              <ul className="text-[10px] text-gray-500 space-y-1 mb-2">
+                {history.map(v => (
+                  <li key={v.id}>
+                    v{v.version} · {documentStatusLabel(v.status)} · {formatDateTime(v.issuedAt)} · {v.issuedBy}
+                    {v.changeReason && ` · ${v.changeReason}`}
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {draft && (
+              <div className="space-y-1 mb-2">
+                {DOCUMENT_SCHEMAS[selected.type].fields.map(spec => (
+                  <label key={spec.key} className="block text-[10px] text-gray-500">
+                    {fieldLabel(spec)}
+                    <input
+                      value={draft[spec.key] ?? ''}
+                      onChange={(e) => setDraft({ ...draft, [spec.key]: e.target.value })}
+                      className="w-full text-xs border border-gray-200 rounded px-2 py-1"
+                    />
+                  </label>
+                ))}
+              </div>
+            )}
+
+            {selected.status === 'CURRENT' && selected.type !== 'INVOICE' && (canChange('amend_document') || canChange('void_document')) && (
+              <div className="space-y-2">
+                <input
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  placeholder={t('archive.reason')}
+                  className="w-full text-xs border border-gray-200 rounded px-2 py-1"
+                />
+                <div className="flex gap-2">
+                  {canChange('amend_document') && (draft ? (
+                    <button onClick={handleAmend} className="flex-1 text-xs py-1 rounded bg-indigo-600 text-white hover:bg-indigo-700">{t('archive.saveAmendment')}</button>
+                  ) : (
+                    <button
+                      onClick={() => setDraft(Object.fromEntries(Object.entries(selected.content).map(([k, v]) => [k, String(v)])))}
+                      className="flex-1 text-xs py-1 rounded border border-gray-300 hover:bg-gray-100"
+                    >
+                      {t('archive.amend')}
+                    </button>
+                  ))}
+                  {canChange('void_document') && (
+                    <button onClick={handleVoid} className="flex-1 text-xs py-1 rounded border border-red-300 text-red-600 hover:bg-red-50">{t('archive.void')}</button>
+                  )}
+                </div>
+              </div>
+            )}
+            {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { AgentType, FinancialReport } from '../types';
+import { DAYS_IN_AR_WINDOW, buildFinancialReport, financialReportToCsv } from '../services/financialReports';
+import { appendAuditEntry } from '../services/auditLog';
+import { formatDate, formatRupiah, revenueCategoryLabel, t } from '../services/i18n';
+
+interface FinancialDashboardProps {
+  refreshKey: number; // Bumped by the parent whenever an agent may have posted invoices or claims
+}
+
+const MONTH_OPTIONS = [3, 6, 12];
+
+export const FinancialDashboard: React.FC<FinancialDashboardProps> = ({ refreshKey }) => {
+  const [months, setMonths] = useState(6);
+  const [report, setReport] = useState<FinancialReport | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    buildFinancialReport({ months }).then(built => { if (!cancelled) setReport(built); });
+    return () => { cancelled = true; };
+  }, [months, refreshKey]);
+
+  if (!report) return null;
+
+  const largestBucket = Math.max(1, ...report.aging.map(row => row.amount));
+  const revenueMonths = Array.from(new Set(report.revenue.map(row => row.month)));
+
+  const handleExport = async () => {
+    const url = URL.createObjectURL(new Blob([financialReportToCsv(report)], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `mho-financial-report-${report.asOf}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+    await appendAuditEntry({
+      agent: AgentType.BILLING,
+      action: `Exported financial report CSV as of ${report.asOf} (${report.outstandingInvoices.length} outstanding invoices)`,
+      status: 'SUCCESS'
+    });
+  };
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-4 border-b border-gray-200 space-y-2">
+        <div className="flex justify-between items-center">
+          <h2 className="text-xs font-semibold text-gray-400 uppercase tracking-wider">{t('finance.title')}</h2>
+          <button onClick={handleExport} className="text-[10px] px-2 py-1 rounded border border-gray-300 hover:bg-gray-100">{t('finance.exportCsv')}</button>
+        </div>
+        <div className="flex justify-between items-center text-[10px] text-gray-500">
+          <span>{t('finance.asOf', { date: formatDate(report.asOf) })}</span>
+          <select value={months} onChange={(e) => setMonths(Number(e.target.value))} className="border border-gray-200 rounded px-1 py-0.5">
+            {MONTH_OPTIONS.map(count => <option key={count} value={count}>{t('finance.months', { count })}</option>)}
+          </select>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-5 text-xs">
+        <div className="grid grid-cols-2 gap-2">
+          <div className="p-2 rounded bg-gray-50 border border-gray-100">
+            <div className="text-[10px] text-gray-400">{t('finance.outstanding')}</div>
+            <div className="font-semibold text-gray-800">{formatRupiah(report.totalOutstanding)}</div>
+          </div>
+          <div className="p-2 rounded bg-gray-50 border border-gray-100" title={t('finance.daysInArHint', { days: DAYS_IN_AR_WINDOW, amount: formatRupiah(report.averageDailyRevenue) })}>
+            <div className="text-[10px] text-gray-400">{t('finance.daysInAr')}</div>
+            <div className="font-semibold text-gray-800">{report.daysInAR ?? '—'}</div>
+          </div>
+        </div>
+
+        <section>
+          <h3 className="text-[10px] font-semibold text-gray-400 uppercase tracking-wider mb-1">{t('finance.aging')}</h3>
+          {report.aging.map(row => (
+            <div key={row.bucket} className="mb-1">
+              <div className="flex justify-between text-gray-600">
+                <span>{t('finance.bucket', { bucket: row.bucket })} · {row.invoiceCount}</span>
+                <span>{formatRupiah(row.amount)}</span>
+              </div>
+              <div className="h-1.5 bg-gray-100 rounded">
+                <div
+                  className={`h-1.5 rounded ${row.bucket === '90+' ? 'bg-red-500' : row.bucket === '61-90' ? 'bg-amber-500' : 'bg-indigo-500'}`}
+                  style={{ width: `${(row.amount / largestBucket) * 100}%` }}
+                />
+              </div>
+            </div>
+          ))}
+        </section>
+
+        <section>
+          <h3 className="text-[10px] font-semibold text-gray-400 uppercase tracking-wider mb-1">{t('finance.denials')}</h3>
+          {report.denialRates.length === 0 && <p className="text-gray-400 italic">{t('finance.noClaims')}</p>}
+          {report.denialRates.map(rate => (
+            <div key={rate.payerId} className="flex justify-between text-gray-600">
+              <span className="truncate pr-2">{rate.payerName}</span>
+              <span className={rate.denialRate >= 0.1 ? 'text-red-600' : ''}>
+                {Math.round(rate.denialRate * 1000) / 10}% ({rate.denied}/{rate.decided})
+              </span>
+            </div>
+          ))}
+        </section>
+
+        <section>
+          <h3 className="text-[10px] font-semibold text-gray-400 uppercase tracking-wider mb-1">{t('finance.revenue')}</h3>
+          {revenueMonths.length === 0 && <p className="text-gray-400 italic">{t('finance.noRevenue')}</p>}
+          {revenueMonths.map(month => {
+            const rows = report.revenue.filter(row => row.month === month);
+            return (
+              <div key={month} className="mb-2">
+                <div className="flex justify-between font-semibold text-gray-700">
+                  <span>{month}</span>
+                  <span>{formatRupiah(rows.reduce((sum, row) => sum + row.amount, 0))}</span>
+                </div>
+                {rows.map(row => (
+                  <div key={row.department} className="flex justify-between text-gray-500 pl-2">
+                    <span>{revenueCategoryLabel(row.department)}</span>
+                    <span>{formatRupiah(row.amount)}</span>
+                  </div>
+                ))}
+              </div>
+            );
+          })}
+        </section>
+
+        <section>
+          <h3 className="text-[10px] font-semibold text-gray-400 uppercase tracking-wider mb-1">{t('finance.outstandingInvoices')}</h3>
+          {report.outstandingInvoices.length === 0 && <p className="text-gray-400 italic">{t('finance.noOutstanding')}</p>}
+          {report.outstandingInvoices.map(invoice => (
+            <div key={invoice.invoiceId} className="p-2 mb-1 rounded border border-gray-100 bg-gray-50">
+              <div className="flex justify-between">
+                <span className="font-mono font-semibold text-gray-700">{invoice.invoiceId}</span>
+                <span className={invoice.ageDays > 90 ? 'text-red-600' : 'text-gray-400'}>{t('finance.ageDays', { days: invoice.ageDays })}</span>
+              </div>
+              <div className="text-gray-600 truncate">{invoice.patientName} · {invoice.patientMrn}</div>
+              <div className="flex justify-between text-gray-500">
+                <span>{formatDate(invoice.date)}</span>
+                <span>{formatRupiah(invoice.outstanding)} / {formatRupiah(invoice.total)}</span>
+              </div>
+            </div>
+          ))}
+        </section>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,22 @@
+import React from 'react';
+import { LANGUAGES, Language, setLanguage } from '../services/i18n';
+
+interface LanguageSwitcherProps {
+  language: Language;
+}
+
+export const LanguageSwitcher: React.FC<LanguageSwitcherProps> = ({ language }) => (
+  <div className="inline-flex rounded border border-gray-200 overflow-hidden text-[10px]">
+    {LANGUAGES.map(({ code, label }) => (
+      <button
+        key={code}
+        type="button"
+        title={label}
+        onClick={() => setLanguage(code)}
+        className={`px-2 py-1 uppercase ${language === code ? 'bg-slate-800 text-white' : 'text-slate-500 hover:bg-gray-100'}`}
+      >
+        {code}
+      </button>
+    ))}
+  </div>
+);
@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { StaffUser } from '../types';
+import { DEMO_USERNAMES, login } from '../services/accessControl';
+import { unlockSessions } from '../services/sessions';
+import { Language, t } from '../services/i18n';
+import { LanguageSwitcher } from './LanguageSwitcher';
+
+interface LoginScreenProps {
+  onLogin: (user: StaffUser) => void;
+  language: Language;
+}
+
+export const LoginScreen: React.FC<LoginScreenProps> = ({ onLogin, language }) => {
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isSubmitting) return;
+    setIsSubmitting(true);
+    setError('');
+    try {
+      const user = await login(username, password);
+      // The password is only available here, so the session key is derived now
+      await unlockSessions(user.username, password);
+      onLogin(user);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t('login.failed'));
+      setPassword('');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex h-screen items-center justify-center bg-slate-100 p-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white rounded-lg shadow-md border border-gray-200 p-6">
+        <div className="flex justify-between items-start mb-1">
+          <h1 className="text-xl font-bold text-slate-800 flex items-center gap-2">
+            <span className="bg-slate-800 text-white p-1 rounded">MHO</span> System
+          </h1>
+          <LanguageSwitcher language={language} />
+        </div>
+        <p className="text-xs text-slate-500 mb-6">{t('login.intro')}</p>
+
+        <label className="block text-xs font-semibold text-gray-500 mb-1" htmlFor="username">{t('login.username')}</label>
+        <input
+          id="username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="username"
+          autoFocus
+          className="w-full bg-slate-50 border border-slate-300 text-slate-900 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 p-3 mb-4"
+        />
+
+        <label className="block text-xs font-semibold text-gray-500 mb-1" htmlFor="password">{t('login.password')}</label>
+        <input
+          id="password"
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete="current-password"
+          className="w-full bg-slate-50 border border-slate-300 text-slate-900 text-sm rounded-lg focus:ring-indigo-500 focus:border-indigo-500 p-3 mb-4"
+        />
+
+        {error && <p className="text-xs text-red-600 mb-4">{error}</p>}
+
+        <button
+          type="submit"
+          disabled={isSubmitting || !username || !password}
+          className="w-full px-4 py-3 bg-indigo-600 text-white rounded-md text-sm font-medium hover:bg-indigo-700 disabled:bg-slate-300 disabled:cursor-not-allowed transition-colors shadow-sm"
+        >
+          {isSubmitting ? t('login.signingIn') : t('login.signIn')}
+        </button>
+
+        <p className="text-[10px] text-slate-400 mt-4 text-center">
+          {t('login.demo', { accounts: DEMO_USERNAMES.join(', ') })}
+        </p>
+      </form>
+    </div>
+  );
+};
@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+import { BedStatus } from '../types';
+import { WARDS, listBeds } from '../services/wards';
+import { formatDateTime, t, wardClassLabel } from '../services/i18n';
+
+interface OccupancyBoardProps {
+  refreshKey: number; // Bumped by the parent whenever an agent may have admitted, moved or discharged someone
+}
+
+export const OccupancyBoard: React.FC<OccupancyBoardProps> = ({ refreshKey }) => {
+  const [beds, setBeds] = useState<BedStatus[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    listBeds().then(found => { if (!cancelled) setBeds(found); });
+    return () => { cancelled = true; };
+  }, [refreshKey]);
+
+  const occupied = beds.filter(b => b.occupant).length;
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-4 border-b border-gray-200">
+        <h2 className="text-xs font-semibold text-gray-400 uppercase tracking-wider">{t('beds.title')}</h2>
+        <p className="text-[10px] text-gray-500 mt-1">{t('beds.summary', { occupied, capacity: beds.length })}</p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-4 text-xs">
+        {WARDS.map(ward => {
+          const inWard = beds.filter(b => b.wardId === ward.id);
+          const full = inWard.length > 0 && inWard.every(b => b.occupant);
+          return (
+            <section key={ward.id}>
+              <div className="flex justify-between items-baseline mb-1">
+                <span className="font-semibold text-gray-700">{ward.name}</span>
+                <span className={full ? 'text-red-600 font-bold' : 'text-gray-400'}>
+                  {wardClassLabel(ward.wardClass)} · {full ? t('beds.full') : t('beds.summary', { occupied: inWard.filter(b => b.occupant).length, capacity: inWard.length })}
+                </span>
+              </div>
+              {ward.rooms.map(room => (
+                <div key={room.id} className="flex items-center gap-1 mb-1">
+                  <span className="w-14 font-mono text-[10px] text-gray-400">{room.id}</span>
+                  {inWard.filter(b => b.roomId === room.id).map(bed => (
+                    <span
+                      key={bed.bedId}
+                      title={bed.occupant
+                        ? `${bed.bedId} · ${bed.occupant.patientName} (${bed.occupant.patientMrn}) · ${t('beds.since', { time: formatDateTime(bed.occupant.assignedAt) })}`
+                        : `${bed.bedId} · ${t('beds.free')}`}
+                      className={`w-7 h-7 flex items-center justify-center rounded text-[10px] font-semibold border ${
+                        bed.occupant ? 'bg-rose-100 border-rose-300 text-rose-700' : 'bg-emerald-50 border-emerald-300 text-emerald-700'
+                      }`}
+                    >
+                      {bed.bedId.slice(-1)}
+                    </span>
+                  ))}
+                </div>
+              ))}
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
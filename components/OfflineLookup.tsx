@@ -0,0 +1,114 @@
+import React, { useEffect, useState } from 'react';
+import { AgentType, Drug, Patient, StaffUser } from '../types';
+import { canUseTool } from '../services/accessControl';
+import { appendAuditEntry } from '../services/auditLog';
+import { searchFormulary } from '../services/formulary';
+import { findPatients } from '../services/patientRegistry';
+import { formatDate, t } from '../services/i18n';
+
+interface OfflineLookupProps {
+  user: StaffUser;
+  refreshKey: number; // Bumped by the parent whenever an agent may have registered or moved a patient
+}
+
+// Reads the local stores directly, so it answers without a connection or a model call
+export const OfflineLookup: React.FC<OfflineLookupProps> = ({ user, refreshKey }) => {
+  const [patientQuery, setPatientQuery] = useState('');
+  const [patients, setPatients] = useState<Patient[] | null>(null);
+  const [drugQuery, setDrugQuery] = useState('');
+  const [searchedPatient, setSearchedPatient] = useState('');
+
+  // Patient records are PHI: only roles that may look patients up through an agent see them here
+  const mayFindPatients = Object.values(AgentType).some(agent => canUseTool(user, agent, 'find_patient'));
+
+  // Keep the last search current while agents change the registry
+  useEffect(() => {
+    if (!searchedPatient) return;
+    let cancelled = false;
+    findPatients(searchedPatient).then(found => { if (!cancelled) setPatients(found); });
+    return () => { cancelled = true; };
+  }, [refreshKey]);
+
+  const handlePatientSearch = async (e: any) => {
+    e.preventDefault();
+    const query = patientQuery.trim();
+    if (!query) return;
+    const found = await findPatients(query);
+    setSearchedPatient(query);
+    setPatients(found);
+    await appendAuditEntry({
+      agent: AgentType.ADMISSION,
+      action: `Local patient lookup (${found.length} match${found.length === 1 ? '' : 'es'})`,
+      status: 'SUCCESS',
+      patientMrn: found.length === 1 ? found[0].mrn : undefined
+    });
+  };
+
+  const drugs: Drug[] = searchFormulary(drugQuery);
+
+  return (
+    <div className="flex flex-col h-full">
+      <div className="p-4 border-b border-gray-200">
+        <p className="text-[10px] text-gray-500">{t('lookup.localNote')}</p>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-5 text-xs">
+        {mayFindPatients && (
+          <section>
+            <h3 className="text-[10px] font-semibold text-gray-400 uppercase tracking-wider mb-1">{t('lookup.patients')}</h3>
+            <form onSubmit={handlePatientSearch} className="flex gap-1 mb-2">
+              <input
+                value={patientQuery}
+                onChange={(e) => setPatientQuery(e.target.value)}
+                placeholder={t('lookup.patientPlaceholder')}
+                className="flex-1 border border-gray-200 rounded px-2 py-1"
+              />
+              <button type="submit" className="px-2 py-1 rounded border border-gray-300 hover:bg-gray-100">{t('lookup.search')}</button>
+            </form>
+            {patients?.length === 0 && <p className="text-gray-400 italic">{t('lookup.noPatients')}</p>}
+            {patients?.map(patient => (
+              <div key={patient.mrn} className="p-2 mb-1 rounded border border-gray-100 bg-gray-50">
+                <div className="flex justify-between">
+                  <span className="font-semibold text-gray-700 truncate pr-2">{patient.fullName}</span>
+                  <span className="font-mono text-gray-400">{patient.mrn}</span>
+                </div>
+                <div className="text-gray-500">{patient.sex} · {t('lookup.born', { date: formatDate(patient.dateOfBirth) })}</div>
+                <div className={patient.status === 'ADMITTED' ? 'text-indigo-600' : 'text-gray-500'}>
+                  {patient.status === 'ADMITTED'
+                    ? t('lookup.admitted', { ward: patient.ward ?? '', bed: patient.bedId ?? '' })
+                    : patient.status === 'DISCHARGED' && patient.dischargedAt
+                      ? t('lookup.discharged', { date: formatDate(patient.dischargedAt) })
+                      : t('lookup.registered')}
+                </div>
+                {patient.allergies.length > 0 && (
+                  <div className="text-red-600">{t('lookup.allergies', { list: patient.allergies.join(', ') })}</div>
+                )}
+              </div>
+            ))}
+          </section>
+        )}
+
+        <section>
+          <h3 className="text-[10px] font-semibold text-gray-400 uppercase tracking-wider mb-1">{t('lookup.formulary')}</h3>
+          <input
+            value={drugQuery}
+            onChange={(e) => setDrugQuery(e.target.value)}
+            placeholder={t('lookup.drugPlaceholder')}
+            className="w-full border border-gray-200 rounded px-2 py-1 mb-2"
+          />
+          {drugQuery.trim() && drugs.length === 0 && <p className="text-gray-400 italic">{t('lookup.noDrugs')}</p>}
+          {drugs.map(drug => (
+            <div key={drug.id} className="p-2 mb-1 rounded border border-gray-100 bg-gray-50">
+              <div className="flex justify-between">
+                <span className="font-semibold text-gray-700">{drug.name}</span>
+                <span className="text-gray-400">{drug.form}</span>
+              </div>
+              <div className="text-gray-500">{drug.strengths.join(', ')} · {drug.drugClass}</div>
+              <div className="text-gray-400 truncate">{drug.brandNames.join(', ')}</div>
+            </div>
+          ))}
+        </section>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,61 @@
+import React from 'react';
+import { AgentProgressEvent, PlanStepStatus } from '../types';
+import { t } from '../services/i18n';
+
+interface ProgressStepsProps {
+  events: AgentProgressEvent[];
+}
+
+const STEP_STATUS_ICONS: Record<PlanStepStatus, string> = { COMPLETED: '✅', FAILED: '⚠️', SKIPPED: '⏭️' };
+
+const describe = (event: AgentProgressEvent) => {
+  switch (event.kind) {
+    case 'PLANNED': {
+      const { steps, confidence, reasoning } = event.plan;
+      if (steps.length === 0) return { icon: '❓', text: t('progress.routingFailed'), detail: reasoning, color: 'text-amber-600' };
+      const route = steps.length === 1
+        ? t('progress.routed', { agent: steps[0].agent })
+        : t('progress.planned', { count: steps.length, agents: steps.map(s => s.agent).join(' → ') });
+      return { icon: '🧭', text: t('progress.confidence', { route, confidence: Math.round(confidence * 100) }), detail: reasoning, color: 'text-indigo-600' };
+    }
+    case 'STEP_STARTED': return { icon: '▶️', text: t('progress.stepStarted', { index: event.index + 1, total: event.total, agent: event.step.agent }), detail: event.step.task, color: 'text-slate-600' };
+    case 'STEP_FINISHED': return {
+      icon: STEP_STATUS_ICONS[event.status],
+      text: t('progress.stepFinished', { id: event.step.id, status: t(`status.${event.status}`) }),
+      detail: event.step.task,
+      color: event.status === 'COMPLETED' ? 'text-green-600' : event.status === 'FAILED' ? 'text-red-600' : 'text-amber-600'
+    };
+    case 'TOOL_STARTED': return { icon: '⚙️', text: t('progress.toolStarted', { tool: event.tool }), detail: event.agent, color: 'text-slate-500' };
+    case 'TOOL_FINISHED': return event.ok
+      ? { icon: '✅', text: t('progress.toolFinished', { tool: event.tool }), detail: event.agent, color: 'text-green-600' }
+      : { icon: '⚠️', text: t('progress.toolFailed', { tool: event.tool }), detail: event.agent, color: 'text-red-600' };
+  }
+};
+
+export const ProgressSteps: React.FC<ProgressStepsProps> = ({ events }) => {
+  // A finished tool or step replaces its "running" line
+  const visible: AgentProgressEvent[] = [];
+  for (const event of events) {
+    const running = event.kind === 'TOOL_FINISHED'
+      ? visible.findIndex(e => e.kind === 'TOOL_STARTED' && e.tool === event.tool)
+      : event.kind === 'STEP_FINISHED'
+      ? visible.findIndex(e => e.kind === 'STEP_STARTED' && e.step.id === event.step.id)
+      : -1;
+    if (running >= 0) visible[running] = event;
+    else visible.push(event);
+  }
+
+  return (
+    <ul className="space-y-1">
+      {visible.map((event, i) => {
+        const { icon, text, detail, color } = describe(event);
+        return (
+          <li key={i} className={`text-[11px] flex items-start gap-1 ${color}`} title={detail}>
+            <span>{icon}</span>
+            <span className={event.kind === 'TOOL_STARTED' || event.kind === 'STEP_STARTED' ? 'animate-pulse' : undefined}>{text}</span>
+          </li>
+        );
+      })}
+    </ul>
+  );
+};
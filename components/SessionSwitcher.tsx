@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { ConversationSession } from '../types';
+import { formatDate, t } from '../services/i18n';
+
+interface SessionSwitcherProps {
+  sessions: ConversationSession[];
+  activeId: string | null;
+  disabled: boolean; // No switching while a request is running
+  onSelect: (id: string) => void;
+  onCreate: (patientMrn: string) => Promise<void>;
+  onDelete: (id: string) => void;
+}
+
+export const SessionSwitcher: React.FC<SessionSwitcherProps> = ({ sessions, activeId, disabled, onSelect, onCreate, onDelete }) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [patientMrn, setPatientMrn] = useState('');
+  const [error, setError] = useState('');
+  const active = sessions.find(s => s.id === activeId);
+
+  const handleCreate = async () => {
+    setError('');
+    try {
+      await onCreate(patientMrn);
+      setPatientMrn('');
+      setIsCreating(false);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  return (
+    <div className="bg-white border-b border-slate-200 px-4 py-2 text-xs">
+      <div className="max-w-4xl mx-auto flex items-center gap-2">
+        <span className="text-slate-400 uppercase tracking-wider font-semibold hidden sm:inline">{t('session.label')}</span>
+        <select
+          value={activeId ?? ''}
+          disabled={disabled}
+          onChange={(e) => onSelect(e.target.value)}
+          className="flex-1 min-w-0 border border-slate-200 rounded px-2 py-1 disabled:opacity-50"
+        >
+          {sessions.map(s => (
+            <option key={s.id} value={s.id}>
+              {s.title} · {formatDate(s.updatedAt)}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={() => setIsCreating(!isCreating)}
+          disabled={disabled}
+          className="px-2 py-1 rounded border border-slate-300 hover:bg-slate-100 disabled:opacity-50"
+        >
+          {t('session.new')}
+        </button>
+        {active && (
+          <button
+            onClick={() => window.confirm(t('session.confirmDelete', { title: active.title })) && onDelete(active.id)}
+            disabled={disabled}
+            className="px-2 py-1 rounded border border-red-200 text-red-600 hover:bg-red-50 disabled:opacity-50"
+          >
+            {t('session.delete')}
+          </button>
+        )}
+        <span className="text-slate-400 hidden md:inline" title={t('session.encrypted')}>🔐</span>
+      </div>
+
+      {isCreating && (
+        <div className="max-w-4xl mx-auto flex items-center gap-2 mt-2">
+          <input
+            value={patientMrn}
+            onChange={(e) => setPatientMrn(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+            placeholder={t('session.mrnPlaceholder')}
+            className="flex-1 border border-slate-200 rounded px-2 py-1"
+          />
+          <button onClick={handleCreate} className="px-3 py-1 rounded bg-indigo-600 text-white hover:bg-indigo-700">
+            {t('session.open')}
+          </button>
+        </div>
+      )}
+      {error && <p className="max-w-4xl mx-auto text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+};
@@ -1,22 +1,45 @@
 
 import React from 'react';
-import { AgentType, AuditLogEntry } from '../types';
+import { AgentProgressEvent, AgentType, AuditLogEntry, StaffUser } from '../types';
+import { canUseAgent } from '../services/accessControl';
+import { Language, formatTime, roleLabel, t } from '../services/i18n';
+import { LanguageSwitcher } from './LanguageSwitcher';
+import { ProgressSteps } from './ProgressSteps';
 
 interface SidebarProps {
   activeAgent: AgentType;
+  pinnedAgent: AgentType | null;
   auditLogs: AuditLogEntry[];
+  auditChainValid: boolean;
+  onExportAuditLog: () => void;
+  onExportFhir?: () => void;           // Omitted when the role may not read patient records
+  onImportFhir?: (file: File) => void; // Omitted when the role may not register patients
+  fhirStatus?: string;
+  activity: AgentProgressEvent[]; // Progress of the latest request
+  isBusy: boolean;
   onSelectAgent: (agent: AgentType) => void;
+  user: StaffUser;
+  language: Language;
+  onLogout: () => void;
   isOpen: boolean;
   onClose: () => void;
 }
 
-export const Sidebar: React.FC<SidebarProps> = ({ activeAgent, auditLogs, onSelectAgent, isOpen, onClose }) => {
+const statusColor = (status: AuditLogEntry['status']) => {
+  switch (status) {
+    case 'SUCCESS': return 'text-green-600';
+    case 'PENDING': return 'text-amber-600';
+    default: return 'text-red-600';
+  }
+};
+
+export const Sidebar: React.FC<SidebarProps> = ({ activeAgent, pinnedAgent, auditLogs, auditChainValid, onExportAuditLog, onExportFhir, onImportFhir, fhirStatus, activity, isBusy, onSelectAgent, user, language, onLogout, isOpen, onClose }) => {
   const agents = [
-    { id: AgentType.ORCHESTRATOR, label: 'Central Manager', icon: '🧠', color: 'text-indigo-600' },
-    { id: AgentType.ADMISSION, label: 'Patient Admission', icon: '📋', color: 'text-purple-600' },
-    { id: AgentType.SCHEDULING, label: 'Scheduling', icon: '📅', color: 'text-blue-600' },
-    { id: AgentType.PHARMACY, label: 'Pharmacy', icon: '💊', color: 'text-teal-600' },
-    { id: AgentType.BILLING, label: 'Billing & RCM', icon: '💳', color: 'text-emerald-600' },
+    { id: AgentType.ORCHESTRATOR, label: t('agent.orchestrator'), icon: '🧠', color: 'text-indigo-600' },
+    { id: AgentType.ADMISSION, label: t('agent.admission'), icon: '📋', color: 'text-purple-600' },
+    { id: AgentType.SCHEDULING, label: t('agent.scheduling'), icon: '📅', color: 'text-blue-600' },
+    { id: AgentType.PHARMACY, label: t('agent.pharmacy'), icon: '💊', color: 'text-teal-600' },
+    { id: AgentType.BILLING, label: t('agent.billing'), icon: '💳', color: 'text-emerald-600' },
   ];
 
   return (
@@ -40,7 +63,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ activeAgent, auditLogs, onSele
             <h1 className="text-xl font-bold text-slate-800 flex items-center gap-2">
               <span className="bg-slate-800 text-white p-1 rounded">MHO</span> System
             </h1>
-            <p className="text-xs text-slate-500 mt-1">Hospital Operations Agent</p>
+            <p className="text-xs text-slate-500 mt-1">{t('sidebar.tagline')}</p>
           </div>
           {/* Close button for mobile */}
           <button onClick={onClose} className="md:hidden text-gray-500 hover:text-gray-700">
@@ -50,62 +73,148 @@ export const Sidebar: React.FC<SidebarProps> = ({ activeAgent, auditLogs, onSele
           </button>
         </div>
 
+        {/* Signed-in Staff User */}
+        <div className="px-4 py-3 border-b border-gray-200 flex items-center justify-between">
+          <div className="min-w-0">
+            <div className="text-sm font-medium text-slate-700 truncate">{user.fullName}</div>
+            <div className="text-[10px] text-slate-400 uppercase tracking-wider">{roleLabel(user.role)}</div>
+          </div>
+          <div className="flex items-center gap-2 shrink-0">
+            <LanguageSwitcher language={language} />
+            <button onClick={onLogout} className="text-xs text-slate-500 hover:text-slate-800 border border-gray-200 rounded px-2 py-1">
+              {t('sidebar.signOut')}
+            </button>
+          </div>
+        </div>
+
         {/* Active Agent Status */}
         <div className="p-4 bg-slate-50 border-b border-gray-200">
-          <h2 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-3">Active Sub-Agents</h2>
+          <h2 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-3 flex justify-between items-center">
+            <span>{t('sidebar.agents')}</span>
+            <span className="normal-case tracking-normal font-normal text-[10px]">{pinnedAgent ? t('sidebar.pinned') : t('sidebar.autoRouting')}</span>
+          </h2>
           <div className="space-y-2">
-            {agents.map((agent) => (
+            {agents.map((agent) => {
+              const permitted = canUseAgent(user, agent.id);
+              return (
               <button 
                 key={agent.id}
+                disabled={!permitted}
+                title={!permitted
+                  ? t('sidebar.notAvailable', { role: roleLabel(user.role) })
+                  : agent.id === AgentType.ORCHESTRATOR
+                  ? t('sidebar.routeAutomatically')
+                  : pinnedAgent === agent.id ? t('sidebar.unpinAgent') : t('sidebar.pinAgent')}
                 onClick={() => {
                   onSelectAgent(agent.id);
                   if (window.innerWidth < 768) onClose(); // Close on mobile selection
                 }}
-                className={`w-full flex items-center p-2 rounded-md transition-all cursor-pointer text-left ${
-                  activeAgent === agent.id 
-                    ? 'bg-white shadow-md ring-1 ring-gray-200 scale-102' 
-                    : 'opacity-50 hover:opacity-100 hover:bg-gray-100'
+                className={`w-full flex items-center p-2 rounded-md transition-all text-left ${
+                  !permitted
+                    ? 'opacity-30 cursor-not-allowed'
+                    : activeAgent === agent.id 
+                    ? 'bg-white shadow-md ring-1 ring-gray-200 scale-102 cursor-pointer' 
+                    : 'opacity-50 hover:opacity-100 hover:bg-gray-100 cursor-pointer'
                 }`}
               >
                 <span className="text-xl mr-3">{agent.icon}</span>
                 <span className={`text-sm font-medium ${activeAgent === agent.id ? agent.color : 'text-gray-600'}`}>
                   {agent.label}
                 </span>
+                {!permitted && <span className="ml-auto text-xs">🔒</span>}
+                {pinnedAgent === agent.id && <span className="ml-auto text-xs" title={t('sidebar.pinned')}>📌</span>}
                 {activeAgent === agent.id && (
                   <span className="ml-auto w-2 h-2 rounded-full bg-green-500 animate-pulse"></span>
                 )}
               </button>
-            ))}
+              );
+            })}
           </div>
         </div>
 
+        {/* Live Activity */}
+        {activity.length > 0 && (
+          <div className="p-4 border-b border-gray-200">
+            <h2 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2 flex justify-between items-center">
+              <span>{isBusy ? t('sidebar.liveActivity') : t('sidebar.lastRequest')}</span>
+              {isBusy && <span className="w-2 h-2 rounded-full bg-amber-500 animate-pulse"></span>}
+            </h2>
+            <ProgressSteps events={activity} />
+          </div>
+        )}
+
+        {/* FHIR Interoperability */}
+        {(onExportFhir || onImportFhir) && (
+          <div className="p-4 border-b border-gray-200">
+            <h2 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-2">HL7 FHIR R4</h2>
+            <div className="flex gap-2">
+              {onExportFhir && (
+                <button onClick={onExportFhir} className="flex-1 text-xs py-1 rounded border border-gray-300 hover:bg-gray-100">
+                  {t('fhir.export')}
+                </button>
+              )}
+              {onImportFhir && (
+                <label className="flex-1 text-xs py-1 rounded border border-gray-300 hover:bg-gray-100 text-center cursor-pointer">
+                  {t('fhir.import')}
+                  <input
+                    type="file"
+                    accept=".json,application/fhir+json,application/json"
+                    className="hidden"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) onImportFhir(file);
+                      e.target.value = ''; // Allow re-importing the same file
+                    }}
+                  />
+                </label>
+              )}
+            </div>
+            {fhirStatus && <p className="text-[10px] text-gray-500 mt-2">{fhirStatus}</p>}
+          </div>
+        )}
+
         {/* Live Audit Log */}
         <div className="flex-1 overflow-y-auto p-4 bg-gray-50/50">
            <h2 className="text-xs font-semibold text-gray-400 uppercase tracking-wider mb-3 flex justify-between items-center">
-              <span>Audit Log (Immutable)</span>
+              <span>{t('sidebar.auditLog')}</span>
               <span className="text-[10px] bg-red-100 text-red-700 px-1 rounded">HIPAA ON</span>
            </h2>
+           <div className="flex items-center justify-between mb-3 text-[10px]">
+              <span
+                className={`px-1 rounded font-mono ${auditChainValid ? 'bg-green-100 text-green-700' : 'bg-red-600 text-white'}`}
+                title={t('sidebar.chainCheck')}
+              >
+                {auditChainValid ? t('sidebar.chainVerified') : t('sidebar.chainBroken')}
+              </span>
+              <button onClick={onExportAuditLog} className="text-indigo-600 hover:underline">
+                {t('sidebar.exportAudit')}
+              </button>
+           </div>
            <div className="space-y-3">
               {auditLogs.slice().reverse().map((log) => (
                 <div key={log.id} className="bg-white p-2 rounded border border-gray-100 text-xs shadow-sm">
                   <div className="flex justify-between text-gray-400 mb-1">
-                    <span>{log.timestamp}</span>
-                    <span className={`font-mono font-bold ${log.status === 'SUCCESS' ? 'text-green-600' : 'text-amber-600'}`}>
+                    <span>{formatTime(log.timestamp)}</span>
+                    <span className={`font-mono font-bold ${statusColor(log.status)}`}>
                       {log.status}
                     </span>
                   </div>
                   <div className="font-medium text-gray-700 truncate">{log.agent}</div>
                   <div className="text-gray-500 truncate" title={log.action}>{log.action}</div>
+                  <div className="flex justify-between text-[10px] text-gray-400 mt-1 font-mono">
+                    <span className="truncate">{log.actor}{log.patientMrn ? ` · ${log.patientMrn}` : ''}</span>
+                    <span title={log.hash}>#{log.hash.slice(0, 8)}</span>
+                  </div>
                 </div>
               ))}
               {auditLogs.length === 0 && (
-                <div className="text-center text-gray-400 py-4 italic">System idle. Waiting for requests...</div>
+                <div className="text-center text-gray-400 py-4 italic">{t('sidebar.idle')}</div>
               )}
            </div>
         </div>
 
         <div className="p-4 border-t border-gray-200 text-[10px] text-gray-400 text-center">
-          Powered by Gemini 2.5 Flash | Compliance Mode Active
+          {t('sidebar.footer')}
         </div>
       </div>
     </>
@@ -0,0 +1,65 @@
+// MHO service worker: keeps the app shell and its CDN dependencies cached so the
+// app opens without a connection. Patient data never passes through here; it
+// lives in IndexedDB (services/storage.ts), and model calls are never cached.
+
+const CACHE = 'mho-shell-v1';
+const SHELL = ['/', '/index.html', '/manifest.json'];
+
+// Cross-origin hosts the shell loads from: Tailwind, the import map's modules, fonts and the icon
+const CDN_HOSTS = ['cdn.tailwindcss.com', 'esm.sh', 'fonts.googleapis.com', 'fonts.gstatic.com', 'cdn-icons-png.flaticon.com'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(caches.open(CACHE).then(cache => cache.addAll(SHELL)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then(keys => Promise.all(keys.filter(key => key !== CACHE).map(key => caches.delete(key))))
+      .then(() => self.clients.claim())
+  );
+});
+
+// Vite's hashed build output and the shell files; dev-server modules are left alone so edits show up
+const isShellAsset = (url) =>
+  url.origin === self.location.origin
+    ? url.pathname.startsWith('/assets/') || SHELL.includes(url.pathname)
+    : CDN_HOSTS.includes(url.hostname);
+
+// Serves the cached copy at once and refreshes it in the background
+const staleWhileRevalidate = async (request) => {
+  const cache = await caches.open(CACHE);
+  const cached = await cache.match(request);
+  const refreshed = fetch(request)
+    .then(response => {
+      if (response.ok || response.type === 'opaque') cache.put(request, response.clone());
+      return response;
+    })
+    .catch(() => undefined);
+  return cached || (await refreshed) || Response.error();
+};
+
+// Pages come from the network when possible so a new build is picked up, else from the cached shell
+const networkFirstPage = async (request) => {
+  const cache = await caches.open(CACHE);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put('/index.html', response.clone());
+    return response;
+  } catch {
+    return (await cache.match('/index.html')) || Response.error();
+  }
+};
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  if (request.mode === 'navigate') {
+    event.respondWith(networkFirstPage(request));
+  } else if (isShellAsset(url)) {
+    event.respondWith(staleWhileRevalidate(request));
+  }
+  // Anything else (model APIs, grounding links) goes straight to the network
+});
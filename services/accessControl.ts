@@ -0,0 +1,121 @@
+import { AgentType, ApprovableDocumentType, StaffRole, StaffUser } from "../types";
+import { appendAuditEntry, setAuditActor, sha256 } from "./auditLog";
+import { DomainError } from "./errors";
+
+// --- Staff Accounts ---
+
+interface StaffAccount extends StaffUser {
+  passwordHash: string; // sha256("mho:<username>:<password>")
+}
+
+// Demo accounts; every password is "demo123"
+const STAFF_ACCOUNTS: StaffAccount[] = [
+  { username: 'frontdesk', fullName: 'Rina Marlina', role: 'FRONT_DESK', passwordHash: '6d3932d6d5864be14f5649c3687ca5552acb77d1252922779a5cde5551b3b4d7' },
+  { username: 'nurse', fullName: 'Ns. Dewi Anggraini', role: 'NURSE', passwordHash: '6678515dd826377325dcaf171a230a81870ba459a6f7080cec29b7c370b84788' },
+  { username: 'pharmacist', fullName: 'apt. Yusuf Hidayat', role: 'PHARMACIST', passwordHash: 'fe16255e660714b8b7a44dbd58bc760ab85a5bf89190e118b4bf3dac9f3ae189' },
+  { username: 'doctor', fullName: 'dr. Rudi Hartono, Sp.PD', role: 'DOCTOR', passwordHash: '52a813d5d8d4175cf952c6a36b52d3db4697e7b492e006240fc8383d2fa871a4' },
+  { username: 'billing', fullName: 'Fitri Handayani', role: 'BILLING_CLERK', passwordHash: '31e08ddc21bfc6d29b4416e3ffd62518cc7ad5424649d6d8dacc4fcc4dc45492' },
+  { username: 'supervisor', fullName: 'Hendra Wijaya, S.E.', role: 'FINANCE_SUPERVISOR', passwordHash: 'ebd5984899f5f1a3375fe2fec5721a57b7f4278388a1a3ca5d350f0d31526539' },
+  { username: 'auditor', fullName: 'Bambang Sutrisno, Ak.', role: 'AUDITOR', passwordHash: '193218d205716220c1f09dcee3e6747b5c127b47e0e8e0add88a9a4c900145a6' },
+];
+
+export const ROLE_LABELS: Record<StaffRole, string> = {
+  FRONT_DESK: 'Front Desk',
+  NURSE: 'Nurse',
+  PHARMACIST: 'Pharmacist',
+  DOCTOR: 'Doctor',
+  BILLING_CLERK: 'Billing Clerk',
+  FINANCE_SUPERVISOR: 'Finance Supervisor',
+  AUDITOR: 'Auditor',
+};
+
+export const DEMO_USERNAMES = STAFF_ACCOUNTS.map(a => a.username);
+
+// --- Policy (role × agent × tool) ---
+
+type ToolGrant = string[] | 'ALL';
+
+/**
+ * Which sub-agents each role may use, and which of that agent's tools.
+ * Anything not listed is denied. The Orchestrator only routes, so it is open to all.
+ */
+export const ACCESS_POLICY: Record<StaffRole, Partial<Record<AgentType, ToolGrant>>> = {
+  FRONT_DESK: {
+    [AgentType.ADMISSION]: ['find_patient', 'register_patient', 'check_bed_availability', 'generate_document', 'find_documents'],
+    [AgentType.SCHEDULING]: 'ALL',
+  },
+  NURSE: {
+    [AgentType.ADMISSION]: 'ALL',
+    [AgentType.SCHEDULING]: ['find_patient', 'list_available_slots'],
+    [AgentType.PHARMACY]: ['find_patient', 'check_interactions', 'check_stock', 'find_documents', 'find_approvals'],
+  },
+  PHARMACIST: {
+    [AgentType.PHARMACY]: 'ALL',
+  },
+  DOCTOR: {
+    [AgentType.ADMISSION]: 'ALL',
+    [AgentType.SCHEDULING]: 'ALL',
+    [AgentType.PHARMACY]: ['find_patient', 'check_interactions', 'check_stock', 'generate_document', 'find_documents', 'amend_document', 'void_document', 'find_approvals'],
+  },
+  BILLING_CLERK: {
+    [AgentType.BILLING]: 'ALL',
+  },
+  FINANCE_SUPERVISOR: {
+    [AgentType.BILLING]: 'ALL',
+  },
+  AUDITOR: {
+    [AgentType.BILLING]: ['find_patient', 'find_invoices', 'get_account_balance', 'get_trial_balance', 'claim_status_report', 'financial_report', 'find_documents', 'find_approvals'],
+  },
+};
+
+/**
+ * Who may decide held documents of each type. This is a human decision made in
+ * the approvals panel, so it is deliberately not a tool grant an agent could use.
+ */
+export const APPROVAL_POLICY: Record<ApprovableDocumentType, StaffRole[]> = {
+  PRESCRIPTION: ['PHARMACIST', 'DOCTOR'],
+  INVOICE: ['FINANCE_SUPERVISOR'],
+};
+
+let currentUser: StaffUser | null = null;
+
+export const getCurrentUser = () => currentUser;
+
+export const canUseAgent = (user: StaffUser | null, agent: AgentType): boolean => {
+  if (!user) return false;
+  if (agent === AgentType.ORCHESTRATOR) return true;
+  return ACCESS_POLICY[user.role][agent] !== undefined;
+};
+
+export const canUseTool = (user: StaffUser | null, agent: AgentType, toolName: string): boolean => {
+  if (!user) return false;
+  const grant = ACCESS_POLICY[user.role][agent];
+  return grant === 'ALL' || (grant ?? []).includes(toolName);
+};
+
+export const canApprove = (user: StaffUser | null, type: ApprovableDocumentType): boolean =>
+  !!user && APPROVAL_POLICY[type].includes(user.role);
+
+// --- Session ---
+
+export const login = async (username: string, password: string): Promise<StaffUser> => {
+  const account = STAFF_ACCOUNTS.find(a => a.username === username.trim().toLowerCase());
+  const hash = await sha256(`mho:${account?.username ?? ''}:${password}`);
+  if (!account || hash !== account.passwordHash) {
+    await appendAuditEntry({ agent: AgentType.ORCHESTRATOR, action: `Failed login for "${username}"`, status: 'DENIED' });
+    throw new DomainError('Invalid username or password.');
+  }
+
+  const { passwordHash, ...user } = account;
+  currentUser = user;
+  setAuditActor(`${user.username} (${ROLE_LABELS[user.role]})`);
+  await appendAuditEntry({ agent: AgentType.ORCHESTRATOR, action: 'Signed in', status: 'SUCCESS' });
+  return user;
+};
+
+export const logout = async () => {
+  if (!currentUser) return;
+  await appendAuditEntry({ agent: AgentType.ORCHESTRATOR, action: 'Signed out', status: 'SUCCESS' });
+  currentUser = null;
+  setAuditActor('unauthenticated');
+};
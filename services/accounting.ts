@@ -0,0 +1,452 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+import {
+  Account, GeneratedDocumentData, Invoice, InvoiceLineInput, InvoiceLineItem, JournalEntry, JournalLine, RevenueCategory, TrialBalanceRow
+} from "../types";
+import { approvalReasonsFor, holdForApproval } from "./approvals";
+import { archiveDocument } from "./documentArchive";
+import { assertValidDocument } from "./documentSchemas";
+import { DomainError } from "./errors";
+import { getPatient } from "./patientRegistry";
+import { createCollection } from "./storage";
+import { AgentTool } from "./tools";
+
+const journal = createCollection<JournalEntry>('journal');
+const invoices = createCollection<Invoice>('invoices');
+
+// --- Chart of Accounts ---
+
+export const CHART_OF_ACCOUNTS: Account[] = [
+  { code: '1100', name: 'Kas (Cash on Hand)', type: 'ASSET' },
+  { code: '1110', name: 'Bank', type: 'ASSET' },
+  { code: '1200', name: 'Piutang Pasien (Patient Receivables)', type: 'ASSET' },
+  { code: '1210', name: 'Piutang Asuransi (Insurance Receivables)', type: 'ASSET' },
+  { code: '2100', name: 'Utang Usaha (Accounts Payable)', type: 'LIABILITY' },
+  { code: '2200', name: 'PPN Keluaran (VAT Payable)', type: 'LIABILITY' },
+  { code: '3100', name: 'Modal (Equity)', type: 'EQUITY' },
+  { code: '4100', name: 'Pendapatan Rawat Jalan (Outpatient Revenue)', type: 'REVENUE' },
+  { code: '4200', name: 'Pendapatan Rawat Inap (Inpatient Revenue)', type: 'REVENUE' },
+  { code: '4300', name: 'Pendapatan Farmasi (Pharmacy Revenue)', type: 'REVENUE' },
+  { code: '4400', name: 'Pendapatan Laboratorium (Laboratory Revenue)', type: 'REVENUE' },
+  { code: '4500', name: 'Pendapatan Tindakan (Procedure Revenue)', type: 'REVENUE' },
+  { code: '5100', name: 'Beban Operasional (Operating Expense)', type: 'EXPENSE' },
+  { code: '5200', name: 'Penyesuaian Klaim (Claim Adjustments)', type: 'EXPENSE' },
+];
+
+export const ACCOUNTS = {
+  CASH: '1100',
+  BANK: '1110',
+  PATIENT_RECEIVABLE: '1200',
+  INSURANCE_RECEIVABLE: '1210',
+  VAT_PAYABLE: '2200',
+  CLAIM_ADJUSTMENT: '5200',
+} as const;
+
+const REVENUE_ACCOUNTS: Record<RevenueCategory, string> = {
+  OUTPATIENT: '4100',
+  INPATIENT: '4200',
+  PHARMACY: '4300',
+  LABORATORY: '4400',
+  PROCEDURE: '4500',
+};
+
+// PPN (Indonesian VAT). Medical services are exempt; only lines marked taxable carry it.
+export const VAT_RATE = 0.11;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const getAccount = (code: string): Account => {
+  const account = CHART_OF_ACCOUNTS.find(a => a.code === code);
+  if (!account) throw new DomainError(`Unknown account code ${code}.`);
+  return account;
+};
+
+const nextId = (prefix: string, count: number) => `${prefix}-${String(count + 1).padStart(6, '0')}`;
+
+// --- Journal ---
+
+/**
+ * Posts a balanced journal entry. Every line must be one-sided and the
+ * total debits must equal the total credits.
+ */
+export const postJournalEntry = async (input: {
+  description: string;
+  lines: JournalLine[];
+  reference?: string;
+  date?: string;
+}): Promise<JournalEntry> => {
+  const lines = (input.lines ?? []).map(line => ({
+    accountCode: String(line.accountCode),
+    debit: Math.round(Number(line.debit) || 0),
+    credit: Math.round(Number(line.credit) || 0)
+  }));
+  if (lines.length < 2) throw new DomainError('A journal entry needs at least two lines.');
+
+  for (const line of lines) {
+    getAccount(line.accountCode);
+    if (line.debit < 0 || line.credit < 0) throw new DomainError('Debit and credit amounts cannot be negative.');
+    if ((line.debit > 0) === (line.credit > 0)) {
+      throw new DomainError(`Line for account ${line.accountCode} must have either a debit or a credit amount.`);
+    }
+  }
+
+  const debits = lines.reduce((sum, l) => sum + l.debit, 0);
+  const credits = lines.reduce((sum, l) => sum + l.credit, 0);
+  if (debits !== credits) {
+    throw new DomainError(`Entry is unbalanced: debits ${debits} vs credits ${credits}.`);
+  }
+
+  const all = await journal.getAll();
+  const entry: JournalEntry = {
+    id: nextId('JE', all.length),
+    date: input.date ?? today(),
+    description: input.description,
+    reference: input.reference,
+    lines,
+    postedAt: new Date().toISOString()
+  };
+  await journal.put(entry.id, entry);
+  return entry;
+};
+
+export const listJournalEntries = async (reference?: string): Promise<JournalEntry[]> => {
+  const all = await journal.getAll();
+  return all
+    .filter(e => !reference || e.reference === reference)
+    .sort((a, b) => a.id.localeCompare(b.id));
+};
+
+/**
+ * Signed balance in the account's normal direction (debit for assets and
+ * expenses, credit for everything else).
+ */
+export const getAccountBalance = async (code: string, asOf?: string): Promise<{ account: Account; balance: number }> => {
+  const account = getAccount(code);
+  const entries = (await journal.getAll()).filter(e => !asOf || e.date <= asOf);
+  let debit = 0;
+  let credit = 0;
+  for (const line of entries.flatMap(e => e.lines).filter(l => l.accountCode === code)) {
+    debit += line.debit;
+    credit += line.credit;
+  }
+  const debitNormal = account.type === 'ASSET' || account.type === 'EXPENSE';
+  return { account, balance: debitNormal ? debit - credit : credit - debit };
+};
+
+export const getTrialBalance = async (asOf?: string): Promise<{
+  rows: TrialBalanceRow[];
+  totalDebit: number;
+  totalCredit: number;
+  balanced: boolean;
+}> => {
+  const entries = (await journal.getAll()).filter(e => !asOf || e.date <= asOf);
+  const rows = CHART_OF_ACCOUNTS.map(account => {
+    const lines = entries.flatMap(e => e.lines).filter(l => l.accountCode === account.code);
+    const net = lines.reduce((sum, l) => sum + l.debit - l.credit, 0);
+    return { code: account.code, name: account.name, debit: Math.max(net, 0), credit: Math.max(-net, 0) };
+  }).filter(row => row.debit !== 0 || row.credit !== 0);
+
+  const totalDebit = rows.reduce((sum, r) => sum + r.debit, 0);
+  const totalCredit = rows.reduce((sum, r) => sum + r.credit, 0);
+  return { rows, totalDebit, totalCredit, balanced: totalDebit === totalCredit };
+};
+
+// --- Invoicing ---
+
+export const computeLineItems = (
+  items: InvoiceLineInput[]
+): { lineItems: InvoiceLineItem[]; subtotal: number; tax: number; total: number } => {
+  if (!items?.length) throw new DomainError('An invoice needs at least one line item.');
+
+  const lineItems = items.map(item => {
+    const quantity = Number(item.quantity);
+    const unitPrice = Math.round(Number(item.unitPrice));
+    if (!REVENUE_ACCOUNTS[item.category]) {
+      throw new DomainError(`Unknown revenue category ${item.category}. Use one of ${Object.keys(REVENUE_ACCOUNTS).join(', ')}.`);
+    }
+    if (!(quantity > 0) || !(unitPrice >= 0)) {
+      throw new DomainError(`Line "${item.description}" needs a positive quantity and a non-negative unit price.`);
+    }
+    return {
+      description: item.description,
+      category: item.category,
+      quantity,
+      unitPrice,
+      taxable: !!item.taxable,
+      amount: Math.round(quantity * unitPrice)
+    };
+  });
+
+  const subtotal = lineItems.reduce((sum, l) => sum + l.amount, 0);
+  const tax = Math.round(lineItems.filter(l => l.taxable).reduce((sum, l) => sum + l.amount, 0) * VAT_RATE);
+  return { lineItems, subtotal, tax, total: subtotal + tax };
+};
+
+export const getInvoice = async (invoiceId: string): Promise<Invoice> => {
+  const invoice = await invoices.get(invoiceId);
+  if (!invoice) throw new DomainError(`No invoice found with id ${invoiceId}.`);
+  return invoice;
+};
+
+export const listInvoices = async (filter: { patientMrn?: string; status?: Invoice['status'] } = {}): Promise<Invoice[]> => {
+  const all = await invoices.getAll();
+  return all
+    .filter(i => !filter.patientMrn || i.patientMrn === filter.patientMrn)
+    .filter(i => !filter.status || i.status === filter.status)
+    .sort((a, b) => a.id.localeCompare(b.id));
+};
+
+const buildInvoice = async (id: string, input: { patientMrn: string; lineItems: InvoiceLineInput[]; date?: string }): Promise<Invoice> => {
+  const patient = await getPatient(input.patientMrn);
+  return {
+    id,
+    patientMrn: patient.mrn,
+    patientName: patient.fullName,
+    date: input.date ?? today(),
+    ...computeLineItems(input.lineItems),
+    amountPaid: 0,
+    status: 'ISSUED'
+  };
+};
+
+/**
+ * The invoice as it would be issued, without numbering or posting it. Used to
+ * decide whether it needs approval first.
+ */
+export const draftInvoice = (input: { patientMrn: string; lineItems: InvoiceLineInput[] }): Promise<Invoice> =>
+  buildInvoice('DRAFT', input);
+
+/**
+ * Issues an invoice with totals computed in code and posts
+ * Dr Patient Receivables / Cr Revenue (per category) / Cr VAT Payable.
+ */
+export const issueInvoice = async (input: {
+  patientMrn: string;
+  lineItems: InvoiceLineInput[];
+  date?: string;
+}): Promise<{ invoice: Invoice; entry: JournalEntry }> => {
+  const all = await invoices.getAll();
+  const invoice = await buildInvoice(nextId('INV', all.length), input);
+
+  const revenueByAccount = new Map<string, number>();
+  for (const line of invoice.lineItems) {
+    const code = REVENUE_ACCOUNTS[line.category];
+    revenueByAccount.set(code, (revenueByAccount.get(code) ?? 0) + line.amount);
+  }
+
+  const entry = await postJournalEntry({
+    description: `Invoice ${invoice.id} issued to ${invoice.patientMrn}`,
+    reference: invoice.id,
+    date: invoice.date,
+    lines: [
+      { accountCode: ACCOUNTS.PATIENT_RECEIVABLE, debit: invoice.total, credit: 0 },
+      ...Array.from(revenueByAccount, ([accountCode, amount]) => ({ accountCode, debit: 0, credit: amount })),
+      ...(invoice.tax > 0 ? [{ accountCode: ACCOUNTS.VAT_PAYABLE, debit: 0, credit: invoice.tax }] : [])
+    ].filter(line => line.debit > 0 || line.credit > 0)
+  });
+
+  await invoices.put(invoice.id, invoice);
+  return { invoice, entry };
+};
+
+/**
+ * Records a patient's payment against an invoice: Dr Cash or Bank / Cr
+ * Patient Receivables. Insurer payments are posted by their claim instead.
+ */
+export const recordPayment = async (input: {
+  invoiceId: string;
+  amount: number;
+  method: 'CASH' | 'BANK';
+  date?: string;
+}): Promise<{ invoice: Invoice; entry: JournalEntry }> => {
+  const invoice = await getInvoice(input.invoiceId);
+  const amount = Math.round(Number(input.amount));
+  const outstanding = invoice.total - invoice.amountPaid;
+  if (!(amount > 0)) throw new DomainError('Payment amount must be positive.');
+  if (amount > outstanding) {
+    throw new DomainError(`Payment of ${amount} exceeds the outstanding balance of ${outstanding} on ${invoice.id}.`);
+  }
+
+  const entry = await postJournalEntry({
+    description: `Payment for ${invoice.id} (${input.method})`,
+    reference: invoice.id,
+    date: input.date,
+    lines: [
+      { accountCode: input.method === 'BANK' ? ACCOUNTS.BANK : ACCOUNTS.CASH, debit: amount, credit: 0 },
+      { accountCode: ACCOUNTS.PATIENT_RECEIVABLE, debit: 0, credit: amount }
+    ]
+  });
+
+  const amountPaid = invoice.amountPaid + amount;
+  const updated: Invoice = { ...invoice, amountPaid, status: amountPaid >= invoice.total ? 'PAID' : 'PARTIALLY_PAID' };
+  await invoices.put(updated.id, updated);
+  return { invoice: updated, entry };
+};
+
+/**
+ * Renders an invoice as an INVOICE document. Checked against the INVOICE
+ * schema like any model-drafted document.
+ */
+export const invoiceToDocument = (invoice: Invoice): GeneratedDocumentData =>
+  assertValidDocument({
+    type: 'INVOICE',
+    title: `Invoice ${invoice.id}`,
+    content: {
+      invoice_no: invoice.id,
+      mrn: invoice.patientMrn,
+      patient_name: invoice.patientName,
+      date: invoice.date,
+      subtotal: invoice.subtotal,
+      tax_ppn: invoice.tax,
+      total: invoice.total,
+      amount_paid: invoice.amountPaid,
+      status: invoice.status
+    },
+    lineItems: invoice.lineItems.map(line => ({
+      description: line.taxable ? `${line.description} (PPN)` : line.description,
+      quantity: line.quantity,
+      unitPrice: line.unitPrice,
+      amount: line.amount
+    })),
+    footer: 'Totals computed and posted to the general ledger by the MHO accounting module.'
+  });
+
+// --- Agent Tools ---
+
+const issueInvoiceFunction: FunctionDeclaration = {
+  name: 'issue_invoice',
+  description: 'Issues an INVOICE (Faktur) for a patient. Totals and PPN are computed by the ledger and receivable/revenue entries are posted automatically. Never compute totals yourself. Invoices at or above the approval threshold are held (status pending_approval) and only posted once a finance supervisor approves them.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      patientMrn: { type: Type.STRING, description: 'Medical Record Number' },
+      lineItems: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            description: { type: Type.STRING },
+            category: { type: Type.STRING, enum: Object.keys(REVENUE_ACCOUNTS) },
+            quantity: { type: Type.NUMBER },
+            unitPrice: { type: Type.NUMBER, description: 'Price per unit in Rupiah' },
+            taxable: { type: Type.BOOLEAN, description: 'True only for non-medical items subject to PPN' }
+          },
+          required: ['description', 'category', 'quantity', 'unitPrice']
+        }
+      }
+    },
+    required: ['patientMrn', 'lineItems']
+  }
+};
+
+const recordPaymentFunction: FunctionDeclaration = {
+  name: 'record_payment',
+  description: 'Records a patient payment against an invoice and posts the cash entry.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      invoiceId: { type: Type.STRING, description: 'Invoice id, e.g. INV-000001' },
+      amount: { type: Type.NUMBER, description: 'Amount received in Rupiah' },
+      method: { type: Type.STRING, enum: ['CASH', 'BANK'] }
+    },
+    required: ['invoiceId', 'amount', 'method']
+  }
+};
+
+const postJournalEntryFunction: FunctionDeclaration = {
+  name: 'post_journal_entry',
+  description: 'Posts a manual, balanced double-entry journal entry (adjustments, expenses). Debits must equal credits.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      description: { type: Type.STRING },
+      lines: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            accountCode: { type: Type.STRING, enum: CHART_OF_ACCOUNTS.map(a => a.code) },
+            debit: { type: Type.NUMBER },
+            credit: { type: Type.NUMBER }
+          },
+          required: ['accountCode', 'debit', 'credit']
+        }
+      }
+    },
+    required: ['description', 'lines']
+  }
+};
+
+const getAccountBalanceFunction: FunctionDeclaration = {
+  name: 'get_account_balance',
+  description: 'Returns the balance of a ledger account from the chart of accounts.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      accountCode: { type: Type.STRING, enum: CHART_OF_ACCOUNTS.map(a => a.code) },
+      asOf: { type: Type.STRING, description: 'Optional cut-off date, YYYY-MM-DD' }
+    },
+    required: ['accountCode']
+  }
+};
+
+const getTrialBalanceFunction: FunctionDeclaration = {
+  name: 'get_trial_balance',
+  description: 'Produces the trial balance of the general ledger.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      asOf: { type: Type.STRING, description: 'Optional cut-off date, YYYY-MM-DD' }
+    }
+  }
+};
+
+const findInvoicesFunction: FunctionDeclaration = {
+  name: 'find_invoices',
+  description: 'Lists invoices, optionally filtered by patient MRN or status.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      patientMrn: { type: Type.STRING },
+      status: { type: Type.STRING, enum: ['ISSUED', 'PARTIALLY_PAID', 'PAID'] }
+    }
+  }
+};
+
+export const accountingTools: AgentTool[] = [
+  {
+    declaration: issueInvoiceFunction,
+    handler: async (args, context) => {
+      const draft = invoiceToDocument(await draftInvoice({ patientMrn: args.patientMrn, lineItems: args.lineItems }));
+      const reasons = await approvalReasonsFor(draft);
+      if (reasons.length > 0) return holdForApproval(context, { document: draft, reasons, invoiceLines: args.lineItems });
+
+      const { invoice, entry } = await issueInvoice({ patientMrn: args.patientMrn, lineItems: args.lineItems });
+      const doc = await archiveDocument(invoiceToDocument(invoice));
+      context.documents.push(doc);
+      return { invoice, journalEntry: entry.id, documentNumber: doc.documentNumber };
+    }
+  },
+  {
+    declaration: recordPaymentFunction,
+    handler: async (args) => {
+      const { invoice, entry } = await recordPayment({ invoiceId: args.invoiceId, amount: args.amount, method: args.method });
+      return { invoice, journalEntry: entry.id };
+    }
+  },
+  {
+    declaration: postJournalEntryFunction,
+    handler: async (args) => ({ entry: await postJournalEntry({ description: args.description, lines: args.lines }) })
+  },
+  {
+    declaration: getAccountBalanceFunction,
+    handler: async (args) => getAccountBalance(args.accountCode, args.asOf)
+  },
+  {
+    declaration: getTrialBalanceFunction,
+    handler: async (args) => getTrialBalance(args.asOf)
+  },
+  {
+    declaration: findInvoicesFunction,
+    handler: async (args) => ({ invoices: await listInvoices({ patientMrn: args.patientMrn, status: args.status }) })
+  }
+];
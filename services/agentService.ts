@@ -1,54 +1,241 @@
-import { GoogleGenAI, FunctionDeclaration, Type, Tool } from "@google/genai";
-import { AgentType, GeneratedDocumentData } from "../types";
-
-// --- Tool Definitions ---
-
-// Tool 1: Generate Document (Used by Admission, Pharmacy, Billing)
-const generateDocumentFunction: FunctionDeclaration = {
-  name: 'generate_document',
-  description: 'Generates an official hospital document (Invoice, Prescription, Admission Form). REQUIRED for any formal request.',
-  parameters: {
-    type: Type.OBJECT,
-    properties: {
-      docType: {
-        type: Type.STRING,
-        description: 'Type of document: INVOICE, PRESCRIPTION, ADMISSION_FORM, MEMO',
-        enum: ['INVOICE', 'PRESCRIPTION', 'ADMISSION_FORM', 'MEMO']
-      },
-      title: { type: Type.STRING, description: 'Title of the document' },
-      fields: {
-        type: Type.OBJECT,
-        description: 'Key-value pairs of the document content (e.g., Patient Name, Cost, Drug Name)',
-        additionalProperties: true, // Allow dynamic fields
-      },
-      complianceNote: { type: Type.STRING, description: 'HIPAA or Audit compliance footer note' }
-    },
-    required: ['docType', 'title', 'fields', 'complianceNote']
+import { Content, Part, Tool } from "@google/genai";
+import { AgentProgressEvent, AgentType, ConversationHistory, GeneratedDocumentData, HistoryTurn, GroundingSource, OrchestrationPlan, PlanStep, PlanStepStatus, ToolInvocation } from "../types";
+import { getLlmProvider } from "./llmClient";
+import { canUseAgent, getCurrentUser } from "./accessControl";
+import { accountingTools } from "./accounting";
+import { approvalTools } from "./approvals";
+import { appendAuditEntry } from "./auditLog";
+import { claimTools } from "./claims";
+import { documentArchiveTools } from "./documentArchive";
+import { PhiVault, createPhiVault, deidentify, deidentifyValue, reidentify, reidentifyValue } from "./deidentify";
+import { generateDocumentTool } from "./documents";
+import { LlmMalformedResponseError, RequestCancelledError, throwIfCancelled, toLlmError } from "./errors";
+import { financialReportTools } from "./financialReports";
+import { formularyTools } from "./formulary";
+import { documentTypeLabel, languageInstruction, languageName, llmErrorMessage, roleLabel, t } from "./i18n";
+import { inventoryTools } from "./inventory";
+import { isNetworkError } from "./outbox";
+import { findPatientTool, listPatients, patientTools } from "./patientRegistry";
+import { schedulingTools } from "./scheduling";
+import { AgentTool, ToolContext, executeToolCall } from "./tools";
+import { wardTools } from "./wards";
+
+// Upper bound on model round-trips per request, so a tool loop always terminates
+const MAX_AGENT_STEPS = 6;
+
+// Extra model turns allowed to fix a document that failed schema validation
+const MAX_DOCUMENT_REPAIRS = 1;
+
+// Hard bounds on the history sent with a request, whatever the caller passes
+const MAX_HISTORY_TURNS = 20;
+const MAX_TURN_CHARS = 2000;
+
+const PHI_TOKEN_INSTRUCTION = `
+      Privacy: Patient identifiers (names, NIK, phone numbers, dates of birth, MRNs) are replaced with tokens such as [[NAME_1]] or [[MRN_1]].
+      Pass tokens to tools and repeat them in answers exactly as written; never guess the value behind a token.`;
+
+/**
+ * Hooks for following a request while it runs.
+ */
+export interface AgentRunOptions {
+  signal?: AbortSignal; // Aborting cancels the request between steps and stops the stream
+  onProgress?: (event: AgentProgressEvent) => void;
+  onText?: (text: string) => void; // The current model turn's text so far, re-identified
+  onStepResult?: (result: PlanStepResult) => void; // Each plan step as soon as it ends
+}
+
+export interface AgentTaskResult {
+  text: string;
+  document?: GeneratedDocumentData;
+  groundingSources?: GroundingSource[];
+  toolCalls?: ToolInvocation[];
+  alerts?: GeneratedDocumentData[];
+  failed?: boolean; // Denied, errored, or stopped before the agent answered
+  failureReason?: string; // Set with `failed`, in English for the audit log
+}
+
+export interface PlanStepResult {
+  step: PlanStep;
+  status: PlanStepStatus;
+  result: AgentTaskResult;
+}
+
+/**
+ * A fresh vault per request, seeded with registry names so first-name-only
+ * mentions are caught too.
+ */
+const createRequestVault = async (): Promise<PhiVault> => {
+  const patients = await listPatients().catch(() => []);
+  return createPhiVault(patients.map(p => p.fullName));
+};
+
+/**
+ * Adds a text turn, merging it into the previous content when the role repeats.
+ */
+const appendTurn = (contents: Content[], role: 'user' | 'model', text: string) => {
+  const last = contents[contents.length - 1];
+  if (last?.role === role) last.parts = [...(last.parts ?? []), { text }];
+  else contents.push({ role, parts: [{ text }] });
+};
+
+/**
+ * Role-tagged, de-identified contents for the earlier conversation. Model
+ * turns are prefixed with the agent that gave them, and the list always
+ * opens with a user turn.
+ */
+const historyContents = (history: ConversationHistory, vault: PhiVault): Content[] => {
+  const contents: Content[] = [];
+  if (history.summary) appendTurn(contents, 'user', `Summary of the earlier conversation: ${deidentify(history.summary, vault)}`);
+  for (const turn of history.turns.slice(-MAX_HISTORY_TURNS)) {
+    const text = deidentify(turn.text, vault).slice(0, MAX_TURN_CHARS);
+    appendTurn(contents, turn.role, turn.role === 'model' ? `[${turn.sender}] ${text}` : text);
   }
+  while (contents[0]?.role === 'model') contents.shift();
+  return contents;
 };
 
 /**
- * Helper to get the AI client safely.
- * Initializes lazily to prevent "process is not defined" crashes during initial page load.
+ * Re-identifies streamed text, holding back a trailing token that has not
+ * been closed yet so a half-received [[NAME_1 never reaches the screen.
  */
-const getAiClient = () => {
-  // NOTE: apiKey must be provided via process.env.API_KEY
-  // If the app crashes here, check your .env file or Netlify Environment Variables.
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  return ai;
-}
+const reidentifyPartial = (text: string, vault: PhiVault): string => {
+  const open = text.lastIndexOf('[[');
+  let complete = open >= 0 && !text.includes(']]', open) ? text.slice(0, open) : text;
+  if (complete.endsWith('[')) complete = complete.slice(0, -1);
+  return reidentify(complete, vault);
+};
+
+const SUB_AGENTS: AgentType[] = [AgentType.ADMISSION, AgentType.SCHEDULING, AgentType.PHARMACY, AgentType.BILLING];
+
+// Longest plan the orchestrator may return; anything beyond is dropped
+const MAX_PLAN_STEPS = 5;
+
+// Extra routing calls when the orchestrator's answer cannot be read as a plan
+const MAX_ROUTING_REPAIRS = 1;
+
+const parseJson = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Trailing commas are the most common slip in model-written JSON
+    return JSON.parse(text.replace(/,(\s*[}\]])/g, '$1'));
+  }
+};
+
+/**
+ * The first JSON object in the orchestrator's output. Models sometimes wrap it
+ * in a ```json fence or add prose around it; braces inside strings are
+ * ignored when finding where it ends.
+ */
+const extractJsonObject = (text: string): unknown => {
+  const start = text.indexOf('{');
+  if (start < 0) throw new LlmMalformedResponseError('Orchestrator output contains no JSON object.');
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      try {
+        return parseJson(text.slice(start, i + 1));
+      } catch (error) {
+        throw new LlmMalformedResponseError(`Orchestrator output is not valid JSON: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+  }
+  throw new LlmMalformedResponseError('Orchestrator output ends inside a JSON object.');
+};
+
+// Plans below this confidence are shown to the user to confirm or re-route before anything runs
+export const ROUTING_CONFIDENCE_THRESHOLD = 0.6;
+
+/**
+ * A one-step plan sending the whole request to `agent`, used when the user
+ * pins or picks an agent.
+ */
+export const planForAgent = (agent: AgentType, userQuery: string, reasoning: string): OrchestrationPlan => ({
+  reasoning,
+  steps: [{ id: 1, agent, task: userQuery, dependsOn: [] }],
+  confidence: 1,
+  alternatives: []
+});
+
+export const needsRoutingConfirmation = (plan: OrchestrationPlan): boolean =>
+  plan.steps.length === 0 || plan.confidence < ROUTING_CONFIDENCE_THRESHOLD;
+
+// The orchestrator's JSON can have any shape, so each field is checked before use
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSubAgent = (value: unknown): value is AgentType =>
+  typeof value === 'string' && (SUB_AGENTS as string[]).includes(value);
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : []);
+
+/**
+ * Turns the orchestrator's JSON into a plan that is safe to run: known agents
+ * only, ids renumbered in order, and dependencies limited to earlier steps.
+ * A bare {"agent": ...} answer is accepted as a one-step plan.
+ */
+const parsePlan = (json: unknown, userQuery: string, vault: PhiVault): OrchestrationPlan => {
+  const result = isRecord(json) ? json : {};
+  const reasoning = reidentify(typeof result.reasoning === 'string' ? result.reasoning : '', vault);
+  const rawSteps: unknown[] = Array.isArray(result.steps)
+    ? result.steps
+    : [{ id: 1, agent: result.agent, task: userQuery, dependsOn: [] }];
+
+  const steps: PlanStep[] = [];
+  const idMap = new Map<unknown, number>();
+  for (const raw of rawSteps.slice(0, MAX_PLAN_STEPS)) {
+    if (!isRecord(raw) || !isSubAgent(raw.agent)) continue;
+    const id = steps.length + 1;
+    const dependsOn = asArray(raw.dependsOn)
+      .map(dep => idMap.get(dep))
+      .filter((dep): dep is number => dep !== undefined);
+    idMap.set(raw.id, id);
+    steps.push({
+      id,
+      agent: raw.agent,
+      task: reidentify(typeof raw.task === 'string' && raw.task ? raw.task : userQuery, vault),
+      dependsOn: [...new Set(dependsOn)]
+    });
+  }
+
+  if (steps.length === 0) throw new LlmMalformedResponseError("Orchestrator returned no usable plan steps");
+
+  // A missing score is treated as unsure rather than certain
+  const confidence = typeof result.confidence === 'number' ? Math.min(1, Math.max(0, result.confidence)) : 0;
+  const alternatives = asArray(result.alternatives)
+    .filter(isSubAgent)
+    .filter(agent => !steps.some(step => step.agent === agent));
+  return { reasoning, steps, confidence, alternatives: [...new Set(alternatives)] };
+};
 
 /**
  * PHASE 1: ORCHESTRATOR
- * Decides which agent handles the request.
+ * Splits the request into ordered sub-tasks, each delegated to one agent.
+ * When the answer cannot be read as a plan, even after a retry, the plan has
+ * no steps and the caller must ask the user. Other model failures (auth,
+ * quota, timeout, safety) are thrown as LlmErrors, since any agent the user
+ * picked would hit them too.
  */
-export const orchestrateRequest = async (userQuery: string): Promise<{ agent: AgentType; reasoning: string }> => {
-  const model = "gemini-2.5-flash";
-  const ai = getAiClient();
+export const orchestrateRequest = async (
+  userQuery: string,
+  options: AgentRunOptions = {}
+): Promise<OrchestrationPlan> => {
+  const provider = getLlmProvider();
   
   const systemInstruction = `
     ROLE: You are the Central Manager (Orchestrator) for the MHO (Manage Hospital Operations) system.
-    GOAL: Analyze the user request and delegate it to the single most appropriate Sub-Agent.
+    GOAL: Analyze the user request and break it into the sub-tasks needed, each delegated to the most appropriate Sub-Agent.
     
     SUB-AGENTS:
     1. PatientAdmissionAgent: Registration, EHR updates, admission/discharge.
@@ -56,58 +243,87 @@ export const orchestrateRequest = async (userQuery: string): Promise<{ agent: Ag
     3. PharmacyManagementAgent: Medication requests, drug interactions, prescriptions.
     4. BillingAndFinanceAgent: Invoices (Faktur), Insurance Claims (Klaim), Revenue Cycle Management (RCM).
     
+    PLANNING:
+    - Use a single step when one agent can handle the whole request. Never use more than ${MAX_PLAN_STEPS} steps.
+    - List steps in the order they must run. Each task must be self-contained: name the patient and the details the agent needs.
+    - "dependsOn" lists the ids of earlier steps whose results the step needs (e.g. the invoice after a discharge).
+    - "confidence" is how sure you are that the plan is right, from 0 to 1. Use a low value for vague or ambiguous requests.
+    - "alternatives" lists other agents that could plausibly handle the request instead.
+    - Write "reasoning" and each "task" in ${languageName()}; keep agent names and the JSON keys in English.
+    
     OUTPUT: Return a JSON object ONLY.
     {
-      "agent": "PatientAdmissionAgent" | "AppointmentSchedulingAgent" | "PharmacyManagementAgent" | "BillingAndFinanceAgent",
-      "reasoning": "Brief explanation of why"
+      "reasoning": "Brief explanation of the plan",
+      "confidence": 0.0-1.0,
+      "alternatives": ["AppointmentSchedulingAgent"],
+      "steps": [
+        {
+          "id": 1,
+          "agent": "PatientAdmissionAgent" | "AppointmentSchedulingAgent" | "PharmacyManagementAgent" | "BillingAndFinanceAgent",
+          "task": "What this agent must do",
+          "dependsOn": []
+        }
+      ]
     }
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model,
-      contents: userQuery,
-      config: {
-        systemInstruction,
-        responseMimeType: "application/json",
-        temperature: 0.1 // Low temperature for deterministic routing
+    const vault = await createRequestVault();
+    let plan: OrchestrationPlan | undefined;
+    for (let attempt = 0; !plan; attempt++) {
+      const text = await provider.route({ systemInstruction, userQuery: deidentify(userQuery, vault), signal: options.signal });
+      try {
+        plan = parsePlan(extractJsonObject(text), userQuery, vault);
+      } catch (error) {
+        if (attempt >= MAX_ROUTING_REPAIRS) throw error;
+        console.warn("Unreadable orchestrator output, asking again:", error);
       }
-    });
-
-    const text = response.text;
-    if (!text) throw new Error("No response from Orchestrator");
-    
-    const result = JSON.parse(text);
-    return {
-      agent: result.agent as AgentType,
-      reasoning: result.reasoning
-    };
+    }
+    options.onProgress?.({ kind: 'PLANNED', plan });
+    return plan;
 
   } catch (error) {
-    console.error("Orchestration Failed:", error);
-    // Fallback to a safe default or re-throw
-    return { agent: AgentType.ADMISSION, reasoning: "Fallback due to error." };
+    if (options.signal?.aborted) throw new RequestCancelledError();
+    const failure = toLlmError(error);
+    if (failure.category !== 'MALFORMED_RESPONSE') throw failure;
+    console.error("Orchestration Failed:", failure);
+    await appendAuditEntry({ agent: AgentType.ORCHESTRATOR, action: `Routing failed (${failure.category}): ${failure.message}`, status: 'FAILED' });
+    const unrouted: OrchestrationPlan = {
+      reasoning: "The request could not be routed automatically.",
+      steps: [],
+      confidence: 0,
+      alternatives: SUB_AGENTS
+    };
+    options.onProgress?.({ kind: 'PLANNED', plan: unrouted });
+    return unrouted;
   }
 };
 
 /**
  * PHASE 2: SUB-AGENT EXECUTION
- * Executes the request using the specific persona and tools.
+ * Executes the request using the specific persona and tools. Failures come
+ * back as a `failed` result, except a dropped connection, which is thrown.
  */
 export const executeAgentTask = async (
   agent: AgentType, 
   userQuery: string,
-  history: string // Simplistic history context
-): Promise<{ 
-  text: string; 
-  document?: GeneratedDocumentData; 
-  groundingSources?: Array<{uri: string, title: string}> 
-}> => {
-
-  const model = "gemini-2.5-flash";
-  const ai = getAiClient();
+  history: ConversationHistory,
+  options: AgentRunOptions = {}
+): Promise<AgentTaskResult> => {
+
+  const user = getCurrentUser();
+  if (!canUseAgent(user, agent)) {
+    await appendAuditEntry({ agent, action: `Access denied to ${agent}`, status: 'DENIED' });
+    return {
+      text: t('reply.accessDenied', { role: user ? roleLabel(user.role) : t('reply.notSignedIn'), agent }),
+      failed: true,
+      failureReason: `Access denied to ${agent} for ${user ? `role ${user.role}` : 'a signed-out user'}`
+    };
+  }
+
+  const provider = getLlmProvider();
   
-  let tools: Tool[] = [];
+  let agentTools: AgentTool[] = [];
   let systemInstruction = "";
 
   // Configure specific agent personas and tools
@@ -115,90 +331,245 @@ export const executeAgentTask = async (
     case AgentType.ADMISSION:
       systemInstruction = `Role: PatientAdmissionAgent. 
       Task: Handle patient registration and EHR updates. 
-      Compliance: Ensure HIPAA compliance. Use 'generate_document' if the user needs an Admission Form.`;
-      tools = [{ functionDeclarations: [generateDocumentFunction] }];
+      Data: Patient records live in the registry. Always use 'find_patient' before acting on a patient and never invent MRNs, demographics or allergies.
+      Use 'register_patient', 'admit_patient' and 'discharge_patient' to change records, and report the outcome they return.
+      Beds: Wards are VIP, KELAS_1, KELAS_2, KELAS_3 and ICU. Use 'check_bed_availability' to answer questions about free beds.
+      'admit_patient' assigns a bed and refuses a full ward; never admit anywhere the user did not ask for, offer the free alternatives instead.
+      Use 'transfer_patient' to move an admitted patient between beds or wards. Discharge releases the bed.
+      Compliance: Ensure HIPAA compliance. Use 'generate_document' if the user needs an Admission Form, with fields mrn, patient_name, ward (ward name and bed id) and diagnosis from the registry record.
+      Documents: Issued documents are numbered and archived. Use 'find_documents' to look them up, and 'amend_document' or 'void_document' to correct them; never reissue a corrected copy.`;
+      agentTools = [...patientTools, ...wardTools, generateDocumentTool, ...documentArchiveTools];
       break;
 
     case AgentType.SCHEDULING:
       systemInstruction = `Role: AppointmentSchedulingAgent. 
       Task: Check doctor availability and schedule appointments. 
-      Tools: Use Google Search to find doctor schedules or general medical dept info if implied.`;
-      tools = [{ googleSearch: {} }];
+      Today: ${new Date().toISOString().slice(0, 10)}. Resolve relative dates ("tomorrow", "next Monday") against it.
+      Tools: Availability comes ONLY from the hospital roster. Use 'list_available_slots' before proposing times,
+      then 'book_appointment', 'reschedule_appointment' or 'cancel_appointment'. Use 'find_patient' to resolve the patient's MRN.
+      If a booking fails (conflict, double-booking, off-duty), explain why and offer the nearest free slots.`;
+      agentTools = [...schedulingTools, findPatientTool];
       break;
 
     case AgentType.PHARMACY:
       systemInstruction = `Role: PharmacyManagementAgent. 
       Task: Check drug interactions and issue prescriptions.
-      Tools: Use Google Search to verify drug contraindications. Use 'generate_document' to issue a PRESCRIPTION.`;
-      tools = [{ googleSearch: {} }, { functionDeclarations: [generateDocumentFunction] }];
+      Tools: Use 'find_patient' to resolve the MRN, then ALWAYS call 'check_interactions' with the proposed drugs before prescribing.
+      Never override a blocked result. Use 'generate_document' to issue a PRESCRIPTION with fields mrn, patient_name, drug, dose, frequency, quantity and prescriber.
+      If the check flags a warning, state it explicitly in your answer.
+      Inventory: Issuing a PRESCRIPTION dispenses fields.quantity from stock automatically. Use 'check_stock' for availability,
+      'receive_stock' for supplier deliveries and 'dispense_medication' only for non-prescription issues such as ward top-ups.
+      Documents: Use 'find_documents' to look up issued prescriptions. 'amend_document' may correct dose, frequency, prescriber or instructions;
+      a wrong drug or quantity means 'void_document' and a new prescription.
+      Approval: A prescription above the quantity threshold or with an interaction warning comes back as 'pending_approval'.
+      It is NOT dispensed yet; say so, give the approval id and who may approve it. You cannot approve it yourself.
+      Use 'find_approvals' to report on held prescriptions.`;
+      agentTools = [findPatientTool, ...formularyTools, ...inventoryTools, generateDocumentTool, ...documentArchiveTools, ...approvalTools];
       break;
 
     case AgentType.BILLING:
       systemInstruction = `Role: BillingAndFinanceAgent (RCM Focus). 
       Task: Manage invoices, insurance claims, and financial audits.
       Tone: Professional, precise, audit-ready.
-      Tools: You MUST use 'generate_document' if the user asks for an invoice (Faktur) or claim status report.`;
-      tools = [{ functionDeclarations: [generateDocumentFunction] }];
+      Ledger: All amounts are in Rupiah and live in a double-entry general ledger. Never calculate totals or taxes yourself.
+      Tools: You MUST use 'issue_invoice' if the user asks for an invoice (Faktur); it computes totals and PPN and posts the journal.
+      Use 'record_payment' for payments, 'get_account_balance' and 'get_trial_balance' for figures, 'post_journal_entry' for adjustments,
+      'find_invoices' to look invoices up, and 'find_patient' to resolve MRNs.
+      Claims (Klaim): Use 'create_claim' to draft a claim from invoices, 'advance_claim' for every status change
+      (DRAFT → SUBMITTED → PENDING → APPROVED / PARTIALLY_PAID / DENIED → APPEALED), and 'claim_status_report' for a claim status report.
+      BPJS Kesehatan claims need the 13-digit card number and a SEP number before submission.
+      Documents: Use 'find_documents' to look up archived invoices and reports by document number, patient or date.
+      Reporting: For A/R aging, days in A/R, denial rates, revenue by department or outstanding invoices, call 'financial_report'
+      and cite its figures exactly, with the as-of date. Never estimate these numbers.
+      Approval: An invoice at or above the approval threshold comes back as 'pending_approval'. It is NOT posted to the ledger
+      and has no invoice number yet; say so and give the approval id. Only a finance supervisor can approve it, never you.
+      Use 'find_approvals' to report on held invoices.`;
+      agentTools = [findPatientTool, ...accountingTools, ...claimTools, ...financialReportTools, generateDocumentTool, ...documentArchiveTools, ...approvalTools];
       break;
       
     default:
       systemInstruction = "You are a helpful hospital assistant.";
   }
 
+  systemInstruction += PHI_TOKEN_INSTRUCTION + languageInstruction();
+
+  const tools: Tool[] = agentTools.length > 0 ? [{ functionDeclarations: agentTools.map(t => t.declaration) }] : [];
+
+  // Everything sent to the provider is de-identified; tokens are re-hydrated on the way back
+  const vault = await createRequestVault();
+  const contents = historyContents(history, vault);
+  appendTurn(contents, 'user', `Current Request: ${deidentify(userQuery, vault)}`);
+  const context: ToolContext = { agent, documents: [], alerts: [], auditEvents: [], documentIssues: [], approvals: [] };
+  const toolCalls: ToolInvocation[] = [];
+  const sources: GroundingSource[] = [];
+
   try {
-    const response = await ai.models.generateContent({
-      model,
-      contents: `Context: ${history}\n\nCurrent Request: ${userQuery}`,
-      config: {
+    let outputText = "";
+    let finished = false;
+    let repairs = 0;
+
+    // Agent loop: run every requested tool, feed results back, repeat until the model answers
+    for (let step = 0; step < MAX_AGENT_STEPS; step++) {
+      throwIfCancelled(options.signal);
+      let streamed = "";
+      const response = await provider.generate({
         systemInstruction,
+        contents,
         tools,
         temperature: 0.3,
-      }
-    });
+        signal: options.signal,
+        onTextDelta: options.onText && (delta => {
+          streamed += delta;
+          options.onText?.(reidentifyPartial(streamed, vault));
+        })
+      });
 
-    let outputText = "";
-    let generatedDoc: GeneratedDocumentData | undefined;
-    let sources: Array<{uri: string, title: string}> = [];
-
-    // Check for Grounding (Search Results)
-    if (response.candidates?.[0]?.groundingMetadata?.groundingChunks) {
-      sources = response.candidates[0].groundingMetadata.groundingChunks
-        .map((chunk: any) => chunk.web)
-        .filter((web: any) => web)
-        .map((web: any) => ({ uri: web.uri, title: web.title }));
-    }
+      sources.push(...response.groundingSources.filter(src => !sources.some(s => s.uri === src.uri)));
+      contents.push(response.content);
 
-    // Handle Function Calls (Tool Usage)
-    const functionCalls = response.functionCalls;
-    if (functionCalls && functionCalls.length > 0) {
-      const call = functionCalls[0];
-      if (call.name === 'generate_document') {
-        const args = call.args as any;
-        generatedDoc = {
-          type: args.docType,
-          title: args.title,
-          content: args.fields,
-          footer: args.complianceNote
-        };
-        outputText = `I have generated the ${args.docType} document for you. Please verify the details below.`;
+      if (response.functionCalls.length === 0) {
+        // The model gave up on a rejected document: send the problems back once instead of answering without it
+        if (context.documentIssues.length > 0 && repairs < MAX_DOCUMENT_REPAIRS) {
+          repairs++;
+          contents.push({
+            role: 'user',
+            parts: [{ text: `The document was not generated. Fix these problems and call generate_document again: ${deidentify(context.documentIssues.join(' '), vault)}` }]
+          });
+          continue;
+        }
+        outputText = reidentify(response.text, vault);
+        finished = true;
+        break;
       }
-    } else {
-      outputText = response.text || "Processed request.";
+
+      const responseParts: Part[] = [];
+      for (const call of response.functionCalls) {
+        throwIfCancelled(options.signal);
+        const tool = call.name ?? 'unknown';
+        options.onProgress?.({ kind: 'TOOL_STARTED', agent, tool });
+        const { response: result, invocation } = await executeToolCall(
+          { ...call, args: reidentifyValue(call.args ?? {}, vault) }, agentTools, context
+        );
+        options.onProgress?.({ kind: 'TOOL_FINISHED', agent, tool, ok: invocation.ok });
+        toolCalls.push(invocation);
+        responseParts.push({ functionResponse: { id: call.id, name: call.name, response: deidentifyValue(result, vault) } });
+      }
+      contents.push({ role: 'user', parts: responseParts });
     }
 
-    // If text is empty but we have a doc (rare edge case), provide default text
-    if (!outputText && generatedDoc) {
-      outputText = "Document generated.";
+    // Documents are built from re-hydrated arguments; this catches any token the model put in free text
+    const latestDoc = context.documents[context.documents.length - 1];
+    const generatedDoc: GeneratedDocumentData | undefined = latestDoc && reidentifyValue(latestDoc, vault);
+
+    if (!outputText && generatedDoc?.approvalId) {
+      outputText = t('reply.documentPending', { type: documentTypeLabel(generatedDoc.type), id: generatedDoc.approvalId });
+    } else if (!outputText && generatedDoc) {
+      outputText = t('reply.documentReady', { type: documentTypeLabel(generatedDoc.type) });
+    } else if (!finished) {
+      outputText = t('reply.stepLimit');
+    } else if (!outputText) {
+      outputText = t('reply.processed');
     }
 
     return {
       text: outputText,
       document: generatedDoc,
-      groundingSources: sources
+      groundingSources: sources,
+      toolCalls,
+      failed: !finished && !generatedDoc,
+      ...(!finished && !generatedDoc ? { failureReason: `No answer after ${MAX_AGENT_STEPS} model turns` } : {}),
+      // The same alert can be raised by several tool calls in one turn
+      alerts: context.alerts.filter((alert, i, all) => all.findIndex(a => a.title === alert.title) === i)
     };
 
   } catch (error) {
+    // Cancellation is reported by the caller, which knows what the user already saw
+    if (options.signal?.aborted) throw new RequestCancelledError();
+    const failure = toLlmError(error);
     console.error("Agent Execution Failed:", error);
-    return { text: "I encountered a system error processing your request. Please check your API Key configuration." };
+    await appendAuditEntry({ agent, action: `Agent execution failed (${failure.category}): ${failure.message}`, status: 'FAILED' });
+    // A dropped connection goes back to the caller, which can return the request to the outbox
+    if (isNetworkError(failure)) throw failure;
+    return { text: llmErrorMessage(failure.category), toolCalls, failed: true, failureReason: `${failure.category}: ${failure.message}` };
+  }
+};
+
+/**
+ * Summary of a finished step, handed to the steps that depend on it.
+ */
+const describeStepOutput = ({ step, status, result }: PlanStepResult): string => {
+  const document = result.document?.documentNumber ? ` [Document ${result.document.documentNumber}]` : '';
+  return `Step ${step.id} (${step.agent}, ${status}): ${result.text}${document}`;
+};
+
+/**
+ * PHASE 3: PLAN EXECUTION
+ * Runs the plan's steps in order. Each step sees the results of the steps it
+ * depends on; a step whose dependency did not complete is skipped.
+ */
+export const executePlan = async (
+  plan: OrchestrationPlan,
+  history: ConversationHistory,
+  options: AgentRunOptions = {}
+): Promise<PlanStepResult[]> => {
+  const results: PlanStepResult[] = [];
+  const multiStep = plan.steps.length > 1; // A single step runs exactly like a direct delegation
+
+  for (const [index, step] of plan.steps.entries()) {
+    throwIfCancelled(options.signal);
+    if (multiStep) options.onProgress?.({ kind: 'STEP_STARTED', step, index, total: plan.steps.length });
+
+    const dependencies = results.filter(r => step.dependsOn.includes(r.step.id));
+    const blocker = dependencies.find(r => r.status !== 'COMPLETED');
+    let outcome: PlanStepResult;
+
+    if (blocker) {
+      outcome = {
+        step,
+        status: 'SKIPPED',
+        result: {
+          text: t('reply.stepSkipped', { id: blocker.step.id, agent: blocker.step.agent }),
+          failed: true,
+          failureReason: `Skipped because step ${blocker.step.id} (${blocker.step.agent}) did not complete`
+        }
+      };
+    } else {
+      // Results the step depends on follow the history as replies from the agents that produced them
+      const stepContext: ConversationHistory = {
+        ...history,
+        turns: [...history.turns, ...dependencies.map(r => ({ role: 'model' as const, sender: r.step.agent, text: describeStepOutput(r) }))]
+      };
+      const result = await executeAgentTask(step.agent, step.task, stepContext, options);
+      outcome = { step, status: result.failed ? 'FAILED' : 'COMPLETED', result };
+    }
+
+    if (multiStep) {
+      await appendAuditEntry({
+        agent: step.agent,
+        action: `Plan step ${index + 1}/${plan.steps.length} ${outcome.status}: ${step.task}`,
+        status: outcome.status === 'COMPLETED' ? 'SUCCESS' : 'FAILED'
+      });
+    }
+    results.push(outcome);
+    if (multiStep) options.onProgress?.({ kind: 'STEP_FINISHED', step, status: outcome.status });
+    options.onStepResult?.(outcome);
   }
-};
\ No newline at end of file
+
+  return results;
+};
+
+/**
+ * Folds earlier turns into the running summary. Turns are de-identified
+ * before they reach the model, and the summary is re-identified for storage.
+ */
+export const summarizeConversation = async (previousSummary: string, turns: HistoryTurn[]): Promise<string> => {
+  const vault = await createRequestVault();
+  const transcript = turns.map(t => `${t.sender}: ${t.text}`).join('\n');
+  const summary = await getLlmProvider().summarize({
+    systemInstruction: `Summarize this hospital operations conversation for the staff member's later reference.
+      Keep patients, MRNs, decisions, document numbers and open follow-ups; drop pleasantries. At most 150 words.
+      Patient identifiers appear as tokens such as [[NAME_1]]; keep them exactly as written.${languageInstruction()}`,
+    text: deidentify(previousSummary ? `Earlier summary: ${previousSummary}\n${transcript}` : transcript, vault)
+  });
+  return reidentify(summary, vault);
+};
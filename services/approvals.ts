@@ -0,0 +1,262 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+import {
+  AgentType, ApprovableDocumentType, ApprovalReason, ApprovalRequest, ApprovalStatus, ApprovalThresholds, GeneratedDocumentData, InvoiceLineInput
+} from "../types";
+import { APPROVAL_POLICY, ROLE_LABELS, canApprove, getCurrentUser } from "./accessControl";
+import { appendAuditEntry } from "./auditLog";
+import { DomainError } from "./errors";
+import { createCollection } from "./storage";
+import { AgentTool, ToolContext } from "./tools";
+
+const approvals = createCollection<ApprovalRequest>('approvals');
+const settings = createCollection<ApprovalThresholds>('approval-settings');
+
+const THRESHOLDS_KEY = 'thresholds';
+
+export const DEFAULT_APPROVAL_THRESHOLDS: ApprovalThresholds = {
+  invoiceTotal: 10_000_000,
+  prescriptionQuantity: 30,
+  holdFlaggedPrescriptions: true
+};
+
+const nextId = (count: number) => `APR-${String(count + 1).padStart(6, '0')}`;
+
+const username = () => getCurrentUser()?.username ?? 'system';
+
+// --- Thresholds ---
+
+export const getApprovalThresholds = async (): Promise<ApprovalThresholds> =>
+  ({ ...DEFAULT_APPROVAL_THRESHOLDS, ...(await settings.get(THRESHOLDS_KEY)) });
+
+// Which document type's approvers own each threshold
+const THRESHOLD_OWNERS: Record<keyof ApprovalThresholds, ApprovableDocumentType> = {
+  invoiceTotal: 'INVOICE',
+  prescriptionQuantity: 'PRESCRIPTION',
+  holdFlaggedPrescriptions: 'PRESCRIPTION'
+};
+
+/**
+ * Changes thresholds. Each one may only be set by the people who approve the
+ * documents it holds, so no one can exempt their own work from review.
+ */
+export const updateApprovalThresholds = async (changes: Partial<ApprovalThresholds>): Promise<ApprovalThresholds> => {
+  const user = getCurrentUser();
+  const current = await getApprovalThresholds();
+  const keys = (Object.keys(changes) as (keyof ApprovalThresholds)[]).filter(key => changes[key] !== current[key]);
+
+  const forbidden = keys.filter(key => !canApprove(user, THRESHOLD_OWNERS[key]));
+  if (forbidden.length > 0) throw new DomainError(`You may not change ${forbidden.join(', ')}.`);
+  for (const key of ['invoiceTotal', 'prescriptionQuantity'] as const) {
+    if (key in changes && !(Number(changes[key]) >= 0)) throw new DomainError(`${key} must be zero or more.`);
+  }
+  if (keys.length === 0) return current;
+
+  const updated = { ...current, ...changes };
+  await settings.put(THRESHOLDS_KEY, updated);
+  await appendAuditEntry({
+    agent: AgentType.ORCHESTRATOR,
+    action: `Approval thresholds changed: ${keys.map(key => `${key} ${current[key]} -> ${updated[key]}`).join(', ')}`,
+    status: 'SUCCESS'
+  });
+  return updated;
+};
+
+/**
+ * Why a document must be approved before it takes effect; empty when it can
+ * be issued straight away.
+ */
+export const approvalReasonsFor = async (doc: GeneratedDocumentData): Promise<ApprovalReason[]> => {
+  const thresholds = await getApprovalThresholds();
+  const reasons: ApprovalReason[] = [];
+
+  if (doc.type === 'INVOICE') {
+    const total = Number(doc.content.total);
+    if (total >= thresholds.invoiceTotal) {
+      reasons.push({ code: 'INVOICE_TOTAL', value: total, threshold: thresholds.invoiceTotal });
+    }
+  }
+  if (doc.type === 'PRESCRIPTION') {
+    const quantity = Number(doc.content.quantity);
+    if (quantity > thresholds.prescriptionQuantity) {
+      reasons.push({ code: 'PRESCRIPTION_QUANTITY', value: quantity, threshold: thresholds.prescriptionQuantity });
+    }
+    if (thresholds.holdFlaggedPrescriptions && doc.content.interaction_warning) {
+      reasons.push({ code: 'INTERACTION_WARNING', warning: String(doc.content.interaction_warning) });
+    }
+  }
+  return reasons;
+};
+
+/** Plain-English reason, for the audit trail and for the model. */
+export const describeApprovalReason = (reason: ApprovalReason): string => {
+  switch (reason.code) {
+    case 'INVOICE_TOTAL': return `invoice total ${reason.value} is at or above the ${reason.threshold} approval threshold`;
+    case 'PRESCRIPTION_QUANTITY': return `quantity ${reason.value} is above the ${reason.threshold} unit approval threshold`;
+    case 'INTERACTION_WARNING': return `interaction warning: ${reason.warning}`;
+  }
+};
+
+// --- Queue ---
+
+/**
+ * Holds a document for approval. Nothing is dispensed, posted or filed until
+ * it is approved.
+ */
+export const requestApproval = async (input: {
+  document: GeneratedDocumentData;
+  reasons: ApprovalReason[];
+  agent: AgentType;
+  invoiceLines?: InvoiceLineInput[];
+}): Promise<ApprovalRequest> => {
+  const type = input.document.type;
+  if (type !== 'PRESCRIPTION' && type !== 'INVOICE') throw new DomainError(`${type} documents do not go through approval.`);
+
+  const all = await approvals.getAll();
+  const request: ApprovalRequest = {
+    id: nextId(all.length),
+    type,
+    status: 'PENDING',
+    document: input.document,
+    invoiceLines: input.invoiceLines,
+    reasons: input.reasons,
+    patientMrn: typeof input.document.content.mrn === 'string' ? input.document.content.mrn : undefined,
+    agent: input.agent,
+    requestedBy: username(),
+    requestedAt: new Date().toISOString()
+  };
+  await approvals.put(request.id, request);
+  return request;
+};
+
+/**
+ * Tool-side entry point: holds the document, shows the draft in the chat as
+ * awaiting approval, and tells the model it has not taken effect.
+ */
+export const holdForApproval = async (
+  context: ToolContext,
+  input: { document: GeneratedDocumentData; reasons: ApprovalReason[]; invoiceLines?: InvoiceLineInput[] }
+): Promise<Record<string, unknown>> => {
+  const request = await requestApproval({ ...input, agent: context.agent });
+  const reasons = request.reasons.map(describeApprovalReason);
+  context.approvals.push(request);
+  context.documents.push({ ...request.document, approvalId: request.id });
+  context.auditEvents.push({
+    action: `${request.id} ${request.type} held for approval: ${reasons.join('; ')}`,
+    status: 'PENDING',
+    patientMrn: request.patientMrn
+  });
+  return {
+    status: 'pending_approval',
+    approvalId: request.id,
+    docType: request.type,
+    title: request.document.title,
+    reasons,
+    approvers: APPROVAL_POLICY[request.type].map(role => ROLE_LABELS[role]),
+    effect: request.type === 'PRESCRIPTION' ? 'Not dispensed until approved.' : 'Not posted to the ledger until approved.'
+  };
+};
+
+export const getApproval = async (id: string): Promise<ApprovalRequest> => {
+  const request = await approvals.get(id.trim().toUpperCase());
+  if (!request) throw new DomainError(`No approval request found with id ${id}.`);
+  return request;
+};
+
+export const listApprovals = async (filter: {
+  status?: ApprovalStatus;
+  type?: ApprovableDocumentType;
+  patientMrn?: string;
+} = {}): Promise<ApprovalRequest[]> => {
+  const all = await approvals.getAll();
+  return all
+    .filter(r => !filter.status || r.status === filter.status)
+    .filter(r => !filter.type || r.type === filter.type)
+    .filter(r => !filter.patientMrn || r.patientMrn === filter.patientMrn.trim().toUpperCase())
+    .sort((a, b) => b.requestedAt.localeCompare(a.requestedAt));
+};
+
+/**
+ * Throws unless the signed-in user may decide the request: it must still be
+ * pending, their role must approve its type, and they must not have requested it.
+ */
+export const assertCanDecide = (request: ApprovalRequest) => {
+  const user = getCurrentUser();
+  if (request.status !== 'PENDING') throw new DomainError(`${request.id} has already been ${request.status.toLowerCase()}.`);
+  if (!canApprove(user, request.type)) throw new DomainError(`Your role may not approve ${request.type} documents.`);
+  if (user?.username === request.requestedBy) throw new DomainError(`${request.id} was requested by you; another authorised person must decide it.`);
+};
+
+/**
+ * Records the decision on a pending request and writes it to the audit log
+ * under the deciding user.
+ */
+export const closeApproval = async (
+  request: ApprovalRequest,
+  decision: { status: Exclude<ApprovalStatus, 'PENDING'>; note?: string; editedFields?: string[]; document?: GeneratedDocumentData }
+): Promise<ApprovalRequest> => {
+  const closed: ApprovalRequest = {
+    ...request,
+    status: decision.status,
+    document: decision.document ?? request.document,
+    decidedBy: username(),
+    decidedAt: new Date().toISOString(),
+    decisionNote: decision.note?.trim() || undefined,
+    editedFields: decision.editedFields?.length ? decision.editedFields : undefined,
+    documentNumber: decision.document?.documentNumber
+  };
+  await approvals.put(closed.id, closed);
+
+  const edits = closed.editedFields ? ` with edits to ${closed.editedFields.join(', ')}` : '';
+  const issued = closed.documentNumber ? `; issued as ${closed.documentNumber}` : '';
+  await appendAuditEntry({
+    agent: request.agent,
+    action: `${request.id} ${request.type} ${closed.status.toLowerCase()}${edits} (requested by ${request.requestedBy})${issued}${closed.decisionNote ? `: ${closed.decisionNote}` : ''}`,
+    status: closed.status === 'APPROVED' ? 'SUCCESS' : 'DENIED',
+    patientMrn: request.patientMrn
+  });
+  return closed;
+};
+
+// --- Agent Tools ---
+
+const findApprovalsFunction: FunctionDeclaration = {
+  name: 'find_approvals',
+  description: 'Looks up prescriptions and invoices held for approval, and their decisions. Agents cannot approve or reject; staff decide in the approvals panel.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      approvalId: { type: Type.STRING, description: 'e.g. APR-000001' },
+      patientMrn: { type: Type.STRING },
+      status: { type: Type.STRING, enum: ['PENDING', 'APPROVED', 'REJECTED'] }
+    }
+  }
+};
+
+export const approvalTools: AgentTool[] = [
+  {
+    declaration: findApprovalsFunction,
+    handler: async (args, context) => {
+      const found = args.approvalId
+        ? [await getApproval(args.approvalId)]
+        : await listApprovals({ patientMrn: args.patientMrn, status: args.status });
+      // Each agent only sees the document type it issues
+      const type: ApprovableDocumentType = context.agent === AgentType.BILLING ? 'INVOICE' : 'PRESCRIPTION';
+      return {
+        approvals: found.filter(r => r.type === type).map(r => ({
+          id: r.id,
+          type: r.type,
+          status: r.status,
+          title: r.document.title,
+          patientMrn: r.patientMrn,
+          reasons: r.reasons.map(describeApprovalReason),
+          requestedBy: r.requestedBy,
+          requestedAt: r.requestedAt,
+          decidedBy: r.decidedBy,
+          decidedAt: r.decidedAt,
+          decisionNote: r.decisionNote,
+          documentNumber: r.documentNumber
+        }))
+      };
+    }
+  }
+];
@@ -0,0 +1,148 @@
+import { AgentType, AuditLogEntry, AuditStatus } from "../types";
+import { createCollection } from "./storage";
+
+const entries = createCollection<AuditLogEntry>('audit_log');
+
+const GENESIS_HASH = '0'.repeat(64);
+
+// --- Hashing ---
+
+/**
+ * JSON with object keys sorted at every level, so the same data always
+ * hashes the same regardless of property order.
+ */
+const canonicalJson = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const keys = Object.keys(value as Record<string, unknown>)
+      .filter(key => (value as Record<string, unknown>)[key] !== undefined)
+      .sort();
+    return `{${keys.map(key => `${JSON.stringify(key)}:${canonicalJson((value as Record<string, unknown>)[key])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+export const sha256 = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const digestArgs = (args: Record<string, unknown>) => sha256(canonicalJson(args));
+
+const hashEntry = (entry: Omit<AuditLogEntry, 'hash'>) => sha256(canonicalJson(entry));
+
+// --- Append-only Log ---
+
+let actor = 'unauthenticated';
+let lastEntry: AuditLogEntry | null | undefined; // undefined until loaded from storage
+let appendQueue: Promise<unknown> = Promise.resolve();
+const listeners = new Set<(entry: AuditLogEntry) => void>();
+
+/**
+ * Sets the staff user recorded on subsequent entries.
+ */
+export const setAuditActor = (name: string) => {
+  actor = name;
+};
+
+export const listAuditEntries = async (): Promise<AuditLogEntry[]> => {
+  const all = await entries.getAll();
+  return all.sort((a, b) => a.sequence - b.sequence);
+};
+
+export const subscribeAuditLog = (listener: (entry: AuditLogEntry) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/**
+ * Appends an entry hash-chained to the previous one. Appends are serialized
+ * so concurrent callers cannot fork the chain. There is deliberately no
+ * update or delete.
+ */
+export const appendAuditEntry = (input: {
+  agent: AgentType;
+  action: string;
+  status: AuditStatus;
+  patientMrn?: string;
+  toolName?: string;
+  args?: Record<string, unknown>;
+}): Promise<AuditLogEntry> => {
+  const append = appendQueue.then(async () => {
+    if (lastEntry === undefined) {
+      const existing = await listAuditEntries();
+      lastEntry = existing[existing.length - 1] ?? null;
+    }
+
+    const sequence = (lastEntry?.sequence ?? 0) + 1;
+    const unsigned: Omit<AuditLogEntry, 'hash'> = {
+      id: `AUD-${String(sequence).padStart(8, '0')}`,
+      sequence,
+      timestamp: new Date().toISOString(),
+      actor,
+      agent: input.agent,
+      action: input.action,
+      status: input.status,
+      patientMrn: input.patientMrn,
+      toolName: input.toolName,
+      argsDigest: input.args ? await digestArgs(input.args) : undefined,
+      prevHash: lastEntry?.hash ?? GENESIS_HASH
+    };
+    const entry: AuditLogEntry = { ...unsigned, hash: await hashEntry(unsigned) };
+
+    await entries.put(entry.id, entry);
+    lastEntry = entry;
+    listeners.forEach(listener => listener(entry));
+    return entry;
+  });
+  // Keep the queue alive even if one append fails
+  appendQueue = append.catch(error => console.error("Audit append failed:", error));
+  return append;
+};
+
+// --- Verification & Export ---
+
+export interface AuditVerification {
+  valid: boolean;
+  entryCount: number;
+  brokenAt?: number; // Sequence of the first entry that fails verification
+  reason?: string;
+}
+
+/**
+ * Recomputes every hash and link. Any edited, removed or reordered entry
+ * breaks the chain from that point on.
+ */
+export const verifyAuditChain = async (): Promise<AuditVerification> => {
+  const all = await listAuditEntries();
+  let prevHash = GENESIS_HASH;
+  for (let i = 0; i < all.length; i++) {
+    const { hash, ...unsigned } = all[i];
+    if (unsigned.sequence !== i + 1) {
+      return { valid: false, entryCount: all.length, brokenAt: i + 1, reason: 'Missing or reordered entry.' };
+    }
+    if (unsigned.prevHash !== prevHash) {
+      return { valid: false, entryCount: all.length, brokenAt: unsigned.sequence, reason: 'Link to previous entry does not match.' };
+    }
+    if (await hashEntry(unsigned) !== hash) {
+      return { valid: false, entryCount: all.length, brokenAt: unsigned.sequence, reason: 'Entry contents were modified.' };
+    }
+    prevHash = hash;
+  }
+  return { valid: true, entryCount: all.length };
+};
+
+/**
+ * Serializes the full chain with its verification result for external auditors.
+ */
+export const exportAuditLog = async (): Promise<string> => {
+  const [log, verification] = await Promise.all([listAuditEntries(), verifyAuditChain()]);
+  return JSON.stringify({
+    system: 'MHO Hospital Operations',
+    exportedAt: new Date().toISOString(),
+    hashAlgorithm: 'SHA-256',
+    genesisHash: GENESIS_HASH,
+    verification,
+    entries: log
+  }, null, 2);
+};
@@ -0,0 +1,366 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+import { Claim, ClaimStatus, GeneratedDocumentData, Payer } from "../types";
+import { ACCOUNTS, getInvoice, postJournalEntry } from "./accounting";
+import { archiveDocument } from "./documentArchive";
+import { DomainError } from "./errors";
+import { getPatient } from "./patientRegistry";
+import { createCollection } from "./storage";
+import { AgentTool, ToolContext } from "./tools";
+
+const claims = createCollection<Claim>('claims');
+
+// --- Payers ---
+
+export const PAYERS: Payer[] = [
+  {
+    id: 'BPJS',
+    name: 'BPJS Kesehatan (JKN)',
+    kind: 'GOVERNMENT',
+    memberIdLabel: 'No. Kartu BPJS',
+    memberIdPattern: '^\\d{13}$',
+    requiresSep: true,
+    submissionWindowDays: 180
+  },
+  {
+    id: 'MANDIRI-INHEALTH',
+    name: 'Mandiri Inhealth',
+    kind: 'PRIVATE',
+    memberIdLabel: 'Policy Number',
+    requiresSep: false,
+    submissionWindowDays: 90
+  },
+  {
+    id: 'PRUDENTIAL',
+    name: 'Prudential Indonesia',
+    kind: 'PRIVATE',
+    memberIdLabel: 'Policy Number',
+    requiresSep: false,
+    submissionWindowDays: 90
+  },
+];
+
+export const getPayer = (payerId: string): Payer => {
+  const payer = PAYERS.find(p => p.id === payerId?.toUpperCase());
+  if (!payer) throw new DomainError(`Unknown payer ${payerId}. Known payers: ${PAYERS.map(p => p.id).join(', ')}.`);
+  return payer;
+};
+
+// --- State Machine ---
+
+export const CLAIM_TRANSITIONS: Record<ClaimStatus, ClaimStatus[]> = {
+  DRAFT: ['SUBMITTED'],
+  SUBMITTED: ['PENDING', 'DENIED'],
+  PENDING: ['APPROVED', 'PARTIALLY_PAID', 'DENIED'],
+  DENIED: ['APPEALED'],
+  PARTIALLY_PAID: ['APPEALED'],
+  APPEALED: ['APPROVED', 'PARTIALLY_PAID', 'DENIED'],
+  APPROVED: [],
+};
+
+const nextClaimId = (existing: Claim[]) => `CLM-${String(existing.length + 1).padStart(6, '0')}`;
+
+export const getClaim = async (claimId: string): Promise<Claim> => {
+  const claim = await claims.get(claimId);
+  if (!claim) throw new DomainError(`No claim found with id ${claimId}.`);
+  return claim;
+};
+
+export const listClaims = async (filter: { payerId?: string; status?: ClaimStatus; patientMrn?: string } = {}): Promise<Claim[]> => {
+  const all = await claims.getAll();
+  return all
+    .filter(c => !filter.payerId || c.payerId === filter.payerId.toUpperCase())
+    .filter(c => !filter.status || c.status === filter.status)
+    .filter(c => !filter.patientMrn || c.patientMrn === filter.patientMrn)
+    .sort((a, b) => a.id.localeCompare(b.id));
+};
+
+/**
+ * Drafts a claim whose line items are copied from the patient's invoices.
+ * An invoice can only be on one open (non-denied) claim at a time.
+ */
+export const createClaim = async (input: {
+  payerId: string;
+  patientMrn: string;
+  memberId: string;
+  invoiceIds: string[];
+  sepNumber?: string;
+}): Promise<Claim> => {
+  const payer = getPayer(input.payerId);
+  const patient = await getPatient(input.patientMrn);
+
+  if (payer.memberIdPattern && !new RegExp(payer.memberIdPattern).test(input.memberId ?? '')) {
+    throw new DomainError(`${payer.memberIdLabel} "${input.memberId}" is not valid for ${payer.name}.`);
+  }
+  if (!input.invoiceIds?.length) throw new DomainError('A claim must reference at least one invoice.');
+
+  const all = await claims.getAll();
+  const lineItems = [];
+  for (const invoiceId of input.invoiceIds) {
+    const invoice = await getInvoice(invoiceId);
+    if (invoice.patientMrn !== patient.mrn) {
+      throw new DomainError(`Invoice ${invoice.id} belongs to ${invoice.patientMrn}, not ${patient.mrn}.`);
+    }
+    const openClaim = all.find(c => c.status !== 'DENIED' && c.lineItems.some(l => l.invoiceId === invoice.id));
+    if (openClaim) throw new DomainError(`Invoice ${invoice.id} is already on claim ${openClaim.id}.`);
+    lineItems.push(...invoice.lineItems.map(line => ({ invoiceId: invoice.id, description: line.description, amount: line.amount })));
+  }
+
+  const claim: Claim = {
+    id: nextClaimId(all),
+    payerId: payer.id,
+    patientMrn: patient.mrn,
+    memberId: input.memberId,
+    sepNumber: input.sepNumber,
+    lineItems,
+    totalClaimed: lineItems.reduce((sum, l) => sum + l.amount, 0),
+    paidAmount: 0,
+    status: 'DRAFT',
+    history: [{ from: null, to: 'DRAFT', at: new Date().toISOString() }]
+  };
+  await claims.put(claim.id, claim);
+  return claim;
+};
+
+// --- Ledger ---
+
+const moveReceivable = (claim: Claim, description: string, from: string, to: string) =>
+  postJournalEntry({
+    description,
+    reference: claim.id,
+    lines: [
+      { accountCode: to, debit: claim.totalClaimed, credit: 0 },
+      { accountCode: from, debit: 0, credit: claim.totalClaimed }
+    ]
+  });
+
+/**
+ * Posts what a transition does to the receivables. While the payer holds a
+ * claim its amount sits in Insurance Receivables; a denial hands it back to
+ * the patient until an appeal. A payer decision settles it: Dr Bank for the
+ * payment, Dr Claim Adjustments for the share not paid. A later decision on
+ * appeal only posts the difference, crediting back the earlier write-off.
+ */
+const postClaimLedger = async (claim: Claim, updated: Claim, payer: Payer) => {
+  // A claim that has been paid once no longer carries a receivable
+  const settled = claim.paidAmount > 0;
+
+  switch (updated.status) {
+    case 'SUBMITTED':
+      await moveReceivable(claim, `Claim ${claim.id} submitted to ${payer.name}`, ACCOUNTS.PATIENT_RECEIVABLE, ACCOUNTS.INSURANCE_RECEIVABLE);
+      break;
+    case 'DENIED':
+      if (!settled) {
+        await moveReceivable(claim, `Claim ${claim.id} denied by ${payer.name}`, ACCOUNTS.INSURANCE_RECEIVABLE, ACCOUNTS.PATIENT_RECEIVABLE);
+      }
+      break;
+    case 'APPEALED':
+      if (!settled) {
+        await moveReceivable(claim, `Claim ${claim.id} appealed to ${payer.name}`, ACCOUNTS.PATIENT_RECEIVABLE, ACCOUNTS.INSURANCE_RECEIVABLE);
+      }
+      break;
+    case 'APPROVED':
+    case 'PARTIALLY_PAID': {
+      const received = updated.paidAmount - claim.paidAmount;
+      if (received < 0) {
+        throw new DomainError(`Claim ${claim.id} has already been paid ${claim.paidAmount}; an appeal cannot lower that.`);
+      }
+      const writeOff = (claim.totalClaimed - updated.paidAmount) - (settled ? claim.totalClaimed - claim.paidAmount : 0);
+      const lines = [
+        { accountCode: ACCOUNTS.BANK, debit: received, credit: 0 },
+        { accountCode: ACCOUNTS.CLAIM_ADJUSTMENT, debit: Math.max(writeOff, 0), credit: Math.max(-writeOff, 0) },
+        { accountCode: ACCOUNTS.INSURANCE_RECEIVABLE, debit: 0, credit: settled ? 0 : claim.totalClaimed }
+      ].filter(line => line.debit > 0 || line.credit > 0);
+      if (lines.length > 0) {
+        await postJournalEntry({ description: `Claim ${claim.id} paid by ${payer.name}`, reference: claim.id, lines });
+      }
+      break;
+    }
+  }
+};
+
+/**
+ * Moves a claim along the state machine. Payer decisions carry amounts:
+ * APPROVED pays the approved amount in full, PARTIALLY_PAID records a lower
+ * payment, DENIED requires a reason. Each transition that changes who owes
+ * the amount is posted to the ledger.
+ */
+export const advanceClaim = async (claimId: string, to: ClaimStatus, details: {
+  note?: string;
+  approvedAmount?: number;
+  paidAmount?: number;
+  denialReason?: string;
+  sepNumber?: string;
+} = {}): Promise<Claim> => {
+  const claim = await getClaim(claimId);
+  const allowed = CLAIM_TRANSITIONS[claim.status];
+  if (!allowed.includes(to)) {
+    throw new DomainError(
+      `Claim ${claim.id} cannot move from ${claim.status} to ${to}. Allowed: ${allowed.length ? allowed.join(', ') : 'none (final state)'}.`
+    );
+  }
+
+  const updated: Claim = { ...claim, status: to };
+  const payer = getPayer(claim.payerId);
+
+  switch (to) {
+    case 'SUBMITTED':
+      updated.sepNumber = details.sepNumber ?? claim.sepNumber;
+      if (payer.requiresSep && !updated.sepNumber) {
+        throw new DomainError(`${payer.name} claims require a SEP number before submission.`);
+      }
+      for (const invoiceId of new Set(claim.lineItems.map(l => l.invoiceId))) {
+        const invoice = await getInvoice(invoiceId);
+        const ageDays = (Date.now() - new Date(invoice.date).getTime()) / 86_400_000;
+        if (ageDays > payer.submissionWindowDays) {
+          throw new DomainError(`Invoice ${invoice.id} is outside ${payer.name}'s ${payer.submissionWindowDays}-day submission window.`);
+        }
+      }
+      break;
+    case 'APPROVED': {
+      const approved = Math.round(details.approvedAmount ?? claim.totalClaimed);
+      if (approved <= 0 || approved > claim.totalClaimed) {
+        throw new DomainError(`Approved amount must be between 1 and the claimed ${claim.totalClaimed}.`);
+      }
+      updated.approvedAmount = approved;
+      updated.paidAmount = approved;
+      updated.denialReason = undefined;
+      break;
+    }
+    case 'PARTIALLY_PAID': {
+      const paid = Math.round(details.paidAmount ?? 0);
+      if (paid <= 0 || paid >= claim.totalClaimed) {
+        throw new DomainError(`A partial payment must be more than 0 and less than the claimed ${claim.totalClaimed}.`);
+      }
+      updated.approvedAmount = paid;
+      updated.paidAmount = paid;
+      break;
+    }
+    case 'DENIED':
+      if (!details.denialReason) throw new DomainError('A denial reason is required.');
+      updated.denialReason = details.denialReason;
+      break;
+    case 'APPEALED':
+      if (!details.note) throw new DomainError('An appeal must state its grounds in the note.');
+      break;
+  }
+
+  updated.history = [...claim.history, { from: claim.status, to, at: new Date().toISOString(), note: details.note ?? details.denialReason }];
+  await postClaimLedger(claim, updated, payer);
+  await claims.put(updated.id, updated);
+  return updated;
+};
+
+// --- Reporting ---
+
+export const claimStatusReport = async (filter: { payerId?: string; status?: ClaimStatus } = {}): Promise<GeneratedDocumentData> => {
+  const matching = await listClaims(filter);
+  const content: Record<string, string | number> = {
+    payer: filter.payerId ? getPayer(filter.payerId).name : 'All payers',
+    status_filter: filter.status ?? 'All statuses',
+    claim_count: matching.length,
+    total_claimed: matching.reduce((sum, c) => sum + c.totalClaimed, 0),
+    total_paid: matching.reduce((sum, c) => sum + c.paidAmount, 0)
+  };
+  for (const status of Object.keys(CLAIM_TRANSITIONS) as ClaimStatus[]) {
+    const count = matching.filter(c => c.status === status).length;
+    if (count > 0) content[`status_${status.toLowerCase()}`] = count;
+  }
+  matching.forEach(c => {
+    content[c.id] = `${c.patientMrn} · ${c.payerId} · ${c.status} · claimed ${c.totalClaimed} · paid ${c.paidAmount}`;
+  });
+
+  return {
+    type: 'MEMO',
+    title: 'Insurance Claim Status Report',
+    content,
+    footer: 'Figures computed from the MHO claims register. Retain for audit.'
+  };
+};
+
+// --- Agent Tools ---
+
+const logTransition = (context: ToolContext, claim: Claim) => {
+  const last = claim.history[claim.history.length - 1];
+  context.auditEvents.push({
+    action: `Claim ${claim.id} ${last.from ?? 'NEW'} → ${last.to}`,
+    status: 'SUCCESS',
+    patientMrn: claim.patientMrn
+  });
+};
+
+const createClaimFunction: FunctionDeclaration = {
+  name: 'create_claim',
+  description: 'Drafts an insurance claim (Klaim) for a patient from one or more of their invoices.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      payerId: { type: Type.STRING, enum: PAYERS.map(p => p.id) },
+      patientMrn: { type: Type.STRING },
+      memberId: { type: Type.STRING, description: 'Payer membership number (e.g. 13-digit BPJS card number)' },
+      invoiceIds: { type: Type.ARRAY, items: { type: Type.STRING } },
+      sepNumber: { type: Type.STRING, description: 'BPJS SEP number, if already issued' }
+    },
+    required: ['payerId', 'patientMrn', 'memberId', 'invoiceIds']
+  }
+};
+
+const advanceClaimFunction: FunctionDeclaration = {
+  name: 'advance_claim',
+  description: 'Moves a claim to its next status: DRAFT→SUBMITTED→PENDING→APPROVED/PARTIALLY_PAID/DENIED, DENIED or PARTIALLY_PAID→APPEALED.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      claimId: { type: Type.STRING },
+      status: { type: Type.STRING, enum: Object.keys(CLAIM_TRANSITIONS) },
+      note: { type: Type.STRING, description: 'Reason or grounds for the transition (required for appeals)' },
+      approvedAmount: { type: Type.NUMBER, description: 'For APPROVED: amount approved, defaults to the full claim' },
+      paidAmount: { type: Type.NUMBER, description: 'For PARTIALLY_PAID: amount paid by the payer' },
+      denialReason: { type: Type.STRING, description: 'For DENIED: the payer\'s reason' },
+      sepNumber: { type: Type.STRING, description: 'For SUBMITTED to BPJS: SEP number' }
+    },
+    required: ['claimId', 'status']
+  }
+};
+
+const claimStatusReportFunction: FunctionDeclaration = {
+  name: 'claim_status_report',
+  description: 'Produces a claim status report document, optionally filtered by payer or status.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      payerId: { type: Type.STRING, enum: PAYERS.map(p => p.id) },
+      status: { type: Type.STRING, enum: Object.keys(CLAIM_TRANSITIONS) }
+    }
+  }
+};
+
+export const claimTools: AgentTool[] = [
+  {
+    declaration: createClaimFunction,
+    handler: async (args, context) => {
+      const claim = await createClaim({
+        payerId: args.payerId, patientMrn: args.patientMrn, memberId: args.memberId, invoiceIds: args.invoiceIds, sepNumber: args.sepNumber
+      });
+      logTransition(context, claim);
+      return { claim };
+    }
+  },
+  {
+    declaration: advanceClaimFunction,
+    handler: async (args, context) => {
+      const claim = await advanceClaim(args.claimId, args.status, {
+        note: args.note, approvedAmount: args.approvedAmount, paidAmount: args.paidAmount, denialReason: args.denialReason, sepNumber: args.sepNumber
+      });
+      logTransition(context, claim);
+      return { claim };
+    }
+  },
+  {
+    declaration: claimStatusReportFunction,
+    handler: async (args, context) => {
+      const report = await archiveDocument(await claimStatusReport({ payerId: args.payerId, status: args.status }));
+      context.documents.push(report);
+      return { status: 'generated', documentNumber: report.documentNumber, summary: report.content };
+    }
+  }
+];
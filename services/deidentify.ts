@@ -0,0 +1,155 @@
+// --- PHI De-identification ---
+
+export type PhiKind = 'NAME' | 'NIK' | 'PHONE' | 'DOB' | 'MRN' | 'ADDRESS' | 'MEMBER_ID';
+
+/**
+ * Per-request mapping between PHI and the tokens that replace it.
+ * The same value always gets the same token within one vault, so the model
+ * can refer back to it and tool calls can be re-hydrated.
+ */
+export interface PhiVault {
+  byToken: Map<string, string>;
+  byValue: Map<string, string>;
+  counters: Record<PhiKind, number>;
+  knownNames: string[];
+}
+
+const TOKEN_PATTERN = /\[\[(NAME|NIK|PHONE|DOB|MRN|ADDRESS|MEMBER_ID)_\d+\]\]/g;
+
+const DATE = String.raw`(?:\d{4}-\d{2}-\d{2}|\d{1,2}[\/.-]\d{1,2}[\/.-]\d{4}|\d{1,2}\s+[A-Za-z]+\s+\d{4}|[A-Za-z]+\s+\d{1,2},?\s+\d{4})`;
+
+// Dates only count as PHI when introduced as a birth date; appointment dates must stay readable
+const DOB_PATTERN = new RegExp(String.raw`(\b(?:dob|d\.o\.b\.?|date of birth|born(?: on)?|birth ?date|tanggal lahir|tgl\.? lahir|lahir)\s*[:=\-]?\s*)(${DATE})`, 'gi');
+const MRN_PATTERN = /\bMRN-\d{6}\b/gi;
+const NIK_PATTERN = /\b\d{16}\b/g;
+const PHONE_PATTERN = /(?<![\d\w])(?:\+62|62|0)8\d{1,3}[-\s]?\d{3,4}[-\s]?\d{3,5}\b/g;
+
+// Unregistered people: "Bapak Agus Wijaya", "Ny. Dewi", "patient John Smith"
+const TITLED_NAME_PATTERN = /(\b(?:Mr|Mrs|Ms|Miss|Tn|Ny|Nn|Sdr|Sdri|Bapak|Pak|Ibu|Bu|[Pp]atient|[Pp]asien)\.?\s+)([A-Z][a-z'’-]+(?:\s+[A-Z][a-z'’-]+){0,3})/g;
+
+// Structured fields whose whole value is PHI, regardless of content. Plain
+// "name" is left out because drugs, doctors and accounts use it too.
+const SENSITIVE_KEYS: Record<string, PhiKind> = {
+  fullname: 'NAME',
+  patientname: 'NAME',
+  patient_name: 'NAME',
+  nik: 'NIK',
+  phone: 'PHONE',
+  dateofbirth: 'DOB',
+  date_of_birth: 'DOB',
+  address: 'ADDRESS',
+  memberid: 'MEMBER_ID',
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const rememberName = (vault: PhiVault, name: string) => {
+  const known = new Set(vault.knownNames.map(n => n.toLowerCase()));
+  const candidates = [name, name.split(/\s+/)[0]].filter(n => n.length >= 3 && !known.has(n.toLowerCase()));
+  if (candidates.length === 0) return;
+  vault.knownNames.push(...candidates);
+  vault.knownNames.sort((a, b) => b.length - a.length); // Longest first so full names win over first names
+};
+
+/**
+ * @param knownNames Patient names from the registry. Full names and first names
+ * are matched as whole words in any letter case ("BUDI SANTOSO", "siti").
+ */
+export const createPhiVault = (knownNames: string[] = []): PhiVault => {
+  const vault: PhiVault = {
+    byToken: new Map(),
+    byValue: new Map(),
+    counters: { NAME: 0, NIK: 0, PHONE: 0, DOB: 0, MRN: 0, ADDRESS: 0, MEMBER_ID: 0 },
+    knownNames: []
+  };
+  knownNames.forEach(name => rememberName(vault, name));
+  return vault;
+};
+
+const tokenFor = (vault: PhiVault, kind: PhiKind, value: string): string => {
+  const key = `${kind}:${value}`;
+  const existing = vault.byValue.get(key);
+  if (existing) return existing;
+  vault.counters[kind] += 1;
+  const token = `[[${kind}_${vault.counters[kind]}]]`;
+  vault.byValue.set(key, token);
+  vault.byToken.set(token, value);
+  if (kind === 'NAME') rememberName(vault, value);
+  return token;
+};
+
+/**
+ * Replaces detected PHI in free text with tokens. Existing tokens are left untouched.
+ */
+export const deidentify = (text: string, vault: PhiVault): string => {
+  let result = text
+    .replace(MRN_PATTERN, match => tokenFor(vault, 'MRN', match.toUpperCase()))
+    .replace(NIK_PATTERN, match => tokenFor(vault, 'NIK', match))
+    .replace(PHONE_PATTERN, match => tokenFor(vault, 'PHONE', match))
+    .replace(DOB_PATTERN, (_, prefix: string, date: string) => prefix + tokenFor(vault, 'DOB', date));
+
+  // Each spelling keeps its own token, so re-identification restores the text exactly as typed
+  for (const name of vault.knownNames) {
+    const pattern = new RegExp(`(?<![\\w\\[])${escapeRegExp(name)}(?![\\w\\]])`, 'gi');
+    result = result.replace(pattern, match => tokenFor(vault, 'NAME', match));
+  }
+
+  return result.replace(TITLED_NAME_PATTERN, (_, prefix: string, name: string) => prefix + tokenFor(vault, 'NAME', name));
+};
+
+/**
+ * Restores every token issued by this vault. Unknown tokens are left as-is.
+ */
+export const reidentify = (text: string, vault: PhiVault): string =>
+  text.replace(TOKEN_PATTERN, token => vault.byToken.get(token) ?? token);
+
+// Registers names held in name fields first, so free-text messages in the
+// same payload are caught wherever they appear
+const collectNames = (value: unknown, vault: PhiVault, key?: string) => {
+  if (typeof value === 'string') {
+    if (key && SENSITIVE_KEYS[key.toLowerCase()] === 'NAME' && value.trim() && !value.startsWith('[[')) rememberName(vault, value);
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectNames(item, vault, key));
+  } else if (value && typeof value === 'object') {
+    Object.entries(value as Record<string, unknown>).forEach(([k, v]) => collectNames(v, vault, k));
+  }
+};
+
+const redactValue = <T>(value: T, vault: PhiVault, key?: string): T => {
+  if (typeof value === 'string') {
+    const kind = key ? SENSITIVE_KEYS[key.toLowerCase()] : undefined;
+    if (kind && value.trim()) {
+      return (value.startsWith('[[') ? value : tokenFor(vault, kind, value)) as T;
+    }
+    return deidentify(value, vault) as T;
+  }
+  if (Array.isArray(value)) return value.map(item => redactValue(item, vault, key)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, redactValue(v, vault, k)])
+    ) as T;
+  }
+  return value;
+};
+
+/**
+ * Deep de-identification for structured payloads such as tool results.
+ */
+export const deidentifyValue = <T>(value: T, vault: PhiVault): T => {
+  collectNames(value, vault);
+  return redactValue(value, vault);
+};
+
+/**
+ * Deep re-hydration for structured payloads such as tool arguments and documents.
+ */
+export const reidentifyValue = <T>(value: T, vault: PhiVault): T => {
+  if (typeof value === 'string') return reidentify(value, vault) as T;
+  if (Array.isArray(value)) return value.map(item => reidentifyValue(item, vault)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([k, v]) => [k, reidentifyValue(v, vault)])
+    ) as T;
+  }
+  return value;
+};
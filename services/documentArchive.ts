@@ -0,0 +1,301 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+import { AgentType, ArchivedDocument, DocumentType, GeneratedDocumentData } from "../types";
+import { getCurrentUser } from "./accessControl";
+import { assertValidDocument } from "./documentSchemas";
+import { DomainError } from "./errors";
+import { returnDispensed } from "./inventory";
+import { createCollection } from "./storage";
+import { AgentTool } from "./tools";
+
+const documents = createCollection<ArchivedDocument>('documents');
+
+const NUMBER_PREFIXES: Record<DocumentType, string> = {
+  INVOICE: 'INV',
+  PRESCRIPTION: 'RX',
+  ADMISSION_FORM: 'ADM',
+  MEMO: 'MEMO',
+};
+
+// The sub-agent whose tool grants govern each type in the documents panel
+export const DOCUMENT_OWNERS: Record<DocumentType, AgentType> = {
+  INVOICE: AgentType.BILLING,
+  PRESCRIPTION: AgentType.PHARMACY,
+  ADMISSION_FORM: AgentType.ADMISSION,
+  MEMO: AgentType.BILLING,
+};
+
+// Fields an amendment may not touch: the patient, and anything already acted on
+const LOCKED_FIELDS: Record<DocumentType, string[]> = {
+  INVOICE: [],
+  PRESCRIPTION: ['mrn', 'drug', 'quantity', 'interaction_warning'], // Already dispensed and screened; void and reissue instead
+  ADMISSION_FORM: ['mrn'],
+  MEMO: [],
+};
+
+let issueQueue: Promise<unknown> = Promise.resolve();
+
+const issuer = () => getCurrentUser()?.username ?? 'system';
+
+/**
+ * Next number in the type's monthly series, e.g. INV/2026/10/0001.
+ */
+const nextDocumentNumber = async (type: DocumentType, at: Date): Promise<string> => {
+  const prefix = `${NUMBER_PREFIXES[type]}/${at.getFullYear()}/${String(at.getMonth() + 1).padStart(2, '0')}/`;
+  const all = await documents.getAll();
+  const highest = all
+    .filter(d => d.documentNumber.startsWith(prefix))
+    .reduce((max, d) => Math.max(max, parseInt(d.documentNumber.slice(prefix.length), 10) || 0), 0);
+  return `${prefix}${String(highest + 1).padStart(4, '0')}`;
+};
+
+// --- Archive Operations ---
+
+/**
+ * Files a newly generated document as version 1 under the next number in its
+ * series. Issues are serialized so two documents never get the same number.
+ */
+export const archiveDocument = (doc: GeneratedDocumentData): Promise<ArchivedDocument> => {
+  const issue = issueQueue.then(async () => {
+    const now = new Date();
+    const documentNumber = await nextDocumentNumber(doc.type, now);
+    const archived: ArchivedDocument = {
+      ...doc,
+      id: `${documentNumber}#v1`,
+      documentNumber,
+      version: 1,
+      status: 'CURRENT',
+      patientMrn: typeof doc.content.mrn === 'string' ? doc.content.mrn : undefined,
+      issuedAt: now.toISOString(),
+      issuedBy: issuer()
+    };
+    await documents.put(archived.id, archived);
+    return archived;
+  });
+  // Keep the queue alive even if one issue fails
+  issueQueue = issue.catch(() => undefined);
+  return issue;
+};
+
+export const searchDocuments = async (filter: {
+  patientMrn?: string;
+  type?: DocumentType;
+  from?: string; // YYYY-MM-DD, inclusive
+  to?: string;   // YYYY-MM-DD, inclusive
+  text?: string; // Matches number, title or any field value
+  includeHistory?: boolean; // Also return superseded versions
+} = {}): Promise<ArchivedDocument[]> => {
+  const needle = filter.text?.trim().toLowerCase();
+  const all = await documents.getAll();
+  return all
+    .filter(d => filter.includeHistory || d.status !== 'SUPERSEDED')
+    .filter(d => !filter.patientMrn || d.patientMrn === filter.patientMrn.trim().toUpperCase())
+    .filter(d => !filter.type || d.type === filter.type)
+    .filter(d => !filter.from || d.issuedAt.slice(0, 10) >= filter.from)
+    .filter(d => !filter.to || d.issuedAt.slice(0, 10) <= filter.to)
+    .filter(d => !needle || [d.documentNumber, d.title, ...Object.values(d.content)]
+      .some(value => String(value).toLowerCase().includes(needle)))
+    .sort((a, b) => b.issuedAt.localeCompare(a.issuedAt));
+};
+
+/**
+ * Every version of a document, oldest first.
+ */
+export const getDocumentHistory = async (documentNumber: string): Promise<ArchivedDocument[]> => {
+  const all = await documents.getAll();
+  const versions = all
+    .filter(d => d.documentNumber === documentNumber.trim().toUpperCase())
+    .sort((a, b) => a.version - b.version);
+  if (versions.length === 0) throw new DomainError(`No document found with number ${documentNumber}.`);
+  return versions;
+};
+
+const getLatestVersion = async (documentNumber: string): Promise<ArchivedDocument> => {
+  const versions = await getDocumentHistory(documentNumber);
+  const latest = versions[versions.length - 1];
+  if (latest.status === 'VOID') throw new DomainError(`${latest.documentNumber} has been voided and can no longer change.`);
+  if (latest.type === 'INVOICE') {
+    throw new DomainError("Invoice documents mirror the ledger. Post a correcting entry with 'post_journal_entry' instead.");
+  }
+  return latest;
+};
+
+/**
+ * Writes `next` as the new latest version and marks the previous one SUPERSEDED.
+ */
+const addVersion = async (previous: ArchivedDocument, next: GeneratedDocumentData, status: 'CURRENT' | 'VOID', reason: string) => {
+  const version = previous.version + 1;
+  const archived: ArchivedDocument = {
+    ...previous,
+    ...next,
+    id: `${previous.documentNumber}#v${version}`,
+    documentNumber: previous.documentNumber,
+    version,
+    status,
+    issuedAt: new Date().toISOString(),
+    issuedBy: issuer(),
+    supersedesId: previous.id,
+    changeReason: reason
+  };
+  await documents.put(archived.id, archived);
+  await documents.put(previous.id, { ...previous, status: 'SUPERSEDED' });
+  return archived;
+};
+
+/**
+ * Issues a corrected version. The amended document is validated against its
+ * schema like a new one.
+ */
+export const amendDocument = async (
+  documentNumber: string,
+  changes: Record<string, string | number>,
+  reason: string
+): Promise<ArchivedDocument> => {
+  if (!reason?.trim()) throw new DomainError('An amendment needs a reason.');
+  const previous = await getLatestVersion(documentNumber);
+
+  const locked = Object.keys(changes).filter(key => LOCKED_FIELDS[previous.type].includes(key) && String(changes[key]) !== String(previous.content[key]));
+  if (locked.length > 0) {
+    throw new DomainError(`${locked.join(', ')} cannot be amended on a ${previous.type}; void it and issue a new one instead.`);
+  }
+
+  const amended = assertValidDocument({
+    type: previous.type,
+    title: previous.title,
+    content: { ...previous.content, ...changes },
+    lineItems: previous.lineItems,
+    footer: previous.footer
+  });
+  return addVersion(previous, amended, 'CURRENT', reason.trim());
+};
+
+/**
+ * Voids a document by adding a VOID version; earlier versions stay on file.
+ * A dispensed PRESCRIPTION returns its units to the batches they came from,
+ * and the VOID version's `stockNote` records what was returned.
+ */
+export const voidDocument = async (documentNumber: string, reason: string): Promise<ArchivedDocument> => {
+  if (!reason?.trim()) throw new DomainError('Voiding a document needs a reason.');
+  const previous = await getLatestVersion(documentNumber);
+  if (previous.type !== 'PRESCRIPTION') return addVersion(previous, previous, 'VOID', reason.trim());
+
+  const returned = await returnDispensed(previous.dispensedMovementIds ?? [], previous.documentNumber);
+  const stockNote = returned.length > 0
+    ? `Stock returned: ${returned.map(m => `${m.quantity} units of ${m.drugId} to batch ${m.batchNumber}`).join(', ')}.`
+    : 'No stock returned: nothing was dispensed against this prescription (e.g. imported). Post a stock correction if units were handed out.';
+  const voided: ArchivedDocument = { ...previous, stockNote };
+  return addVersion(previous, voided, 'VOID', reason.trim());
+};
+
+// --- Agent Tools ---
+
+const findDocumentsFunction: FunctionDeclaration = {
+  name: 'find_documents',
+  description: 'Searches the document archive by patient, type, issue date or text. Returns the current version of each document unless includeHistory is set.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      patientMrn: { type: Type.STRING, description: 'Patient MRN' },
+      docType: { type: Type.STRING, enum: ['INVOICE', 'PRESCRIPTION', 'ADMISSION_FORM', 'MEMO'] },
+      from: { type: Type.STRING, description: 'Issued on or after, YYYY-MM-DD' },
+      to: { type: Type.STRING, description: 'Issued on or before, YYYY-MM-DD' },
+      text: { type: Type.STRING, description: 'Document number, title or field text' },
+      includeHistory: { type: Type.BOOLEAN, description: 'Include superseded versions' }
+    }
+  }
+};
+
+const amendDocumentFunction: FunctionDeclaration = {
+  name: 'amend_document',
+  description: 'Issues a corrected version of an archived document. The original stays on file as SUPERSEDED. Prescribed drugs, quantities and the patient cannot be amended; void and reissue instead. Invoices cannot be amended.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      documentNumber: { type: Type.STRING, description: 'e.g. RX/2026/10/0001' },
+      // An array of pairs rather than an open object: Gemini rejects an OBJECT parameter without properties
+      changes: {
+        type: Type.ARRAY,
+        description: 'Fields to change, with their new values',
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            field: { type: Type.STRING, description: 'Field key as shown in the document, e.g. frequency' },
+            value: { type: Type.STRING, description: 'New value; numbers are written as digits' }
+          },
+          required: ['field', 'value']
+        }
+      },
+      reason: { type: Type.STRING, description: 'Why the document is being amended' }
+    },
+    required: ['documentNumber', 'changes', 'reason']
+  }
+};
+
+const voidDocumentFunction: FunctionDeclaration = {
+  name: 'void_document',
+  description: 'Voids an archived document. A VOID version is added and earlier versions are kept.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      documentNumber: { type: Type.STRING, description: 'e.g. ADM/2026/10/0003' },
+      reason: { type: Type.STRING, description: 'Why the document is being voided' }
+    },
+    required: ['documentNumber', 'reason']
+  }
+};
+
+export const documentArchiveTools: AgentTool[] = [
+  {
+    declaration: findDocumentsFunction,
+    handler: async (args) => {
+      const found = await searchDocuments({
+        patientMrn: args.patientMrn,
+        type: args.docType,
+        from: args.from,
+        to: args.to,
+        text: args.text,
+        includeHistory: args.includeHistory
+      });
+      return {
+        count: found.length,
+        documents: found.map(d => ({
+          documentNumber: d.documentNumber,
+          version: d.version,
+          status: d.status,
+          type: d.type,
+          title: d.title,
+          patientMrn: d.patientMrn,
+          issuedAt: d.issuedAt
+        }))
+      };
+    }
+  },
+  {
+    declaration: amendDocumentFunction,
+    handler: async (args, context) => {
+      const changes: Record<string, string> = Object.fromEntries(
+        (Array.isArray(args.changes) ? args.changes : []).map((c: { field: string; value: string }) => [c.field, c.value])
+      );
+      const amended = await amendDocument(args.documentNumber, changes, args.reason);
+      context.documents.push(amended);
+      context.auditEvents.push({
+        action: `Document ${amended.documentNumber} amended to v${amended.version}: ${amended.changeReason}`,
+        status: 'SUCCESS',
+        patientMrn: amended.patientMrn
+      });
+      return { documentNumber: amended.documentNumber, version: amended.version, status: amended.status };
+    }
+  },
+  {
+    declaration: voidDocumentFunction,
+    handler: async (args, context) => {
+      const voided = await voidDocument(args.documentNumber, args.reason);
+      context.documents.push(voided);
+      context.auditEvents.push({
+        action: `Document ${voided.documentNumber} voided: ${voided.changeReason}${voided.stockNote ? ` ${voided.stockNote}` : ''}`,
+        status: 'SUCCESS',
+        patientMrn: voided.patientMrn
+      });
+      return { documentNumber: voided.documentNumber, version: voided.version, status: voided.status, stockNote: voided.stockNote };
+    }
+  }
+];
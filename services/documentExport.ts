@@ -0,0 +1,313 @@
+import { ArchivedDocument, DocumentFieldSpec, GeneratedDocumentData } from "../types";
+import { DOCUMENT_SCHEMAS } from "./documentSchemas";
+import { documentStatusLabel, documentTypeLabel, formatDate, formatRupiah, t, tryTranslate } from "./i18n";
+
+// --- Letterhead & Signatures ---
+
+export const HOSPITAL_LETTERHEAD = {
+  name: 'RUMAH SAKIT MHO',
+  tagline: 'Manage Hospital Operations',
+  address: 'Jl. Jend. Sudirman No. 1, Jakarta Pusat 10220',
+  contact: 'Tel. (021) 555-0100 · rekammedis@rs-mho.example'
+};
+
+/**
+ * Who signs the document: the prescriber named on a prescription, otherwise
+ * the staff member who issued it.
+ */
+export const signatureFor = (doc: GeneratedDocumentData | ArchivedDocument) => ({
+  role: t(`signatory.${doc.type}`),
+  name: String(doc.content.prescriber ?? doc.content.attending_doctor ?? ('issuedBy' in doc ? doc.issuedBy : '')),
+  date: formatDate('issuedAt' in doc ? doc.issuedAt : new Date())
+});
+
+/** A field's label in the interface language; the schema label covers fields the catalog lacks. */
+export const fieldLabel = (spec: DocumentFieldSpec) => tryTranslate(`field.${spec.key}`) ?? spec.label;
+
+// Amounts and dates are stored raw and only formatted for display
+const formatValue = (spec: DocumentFieldSpec, value: string | number) => {
+  if (spec.type === 'currency' && typeof value === 'number') return formatRupiah(value);
+  if (spec.type === 'date') return formatDate(String(value));
+  return String(value);
+};
+
+/**
+ * Label/value rows in schema order, then any free-form memo fields.
+ */
+export const documentRows = (doc: GeneratedDocumentData): [string, string][] => {
+  const specs = DOCUMENT_SCHEMAS[doc.type]?.fields ?? [];
+  return [
+    ...specs.filter(spec => doc.content[spec.key] !== undefined).map((spec): [string, string] => [fieldLabel(spec), formatValue(spec, doc.content[spec.key])]),
+    ...Object.keys(doc.content)
+      .filter(key => !specs.some(spec => spec.key === key))
+      .map((key): [string, string] => [key.replace(/_/g, ' ').replace(/\b\w/g, c => c.toUpperCase()), String(doc.content[key])])
+  ];
+};
+
+// --- Minimal PDF Writer ---
+// Enough of PDF 1.4 for text documents: A4 pages, the two standard Helvetica
+// faces (no font embedding), lines and colour. Keeps export fully offline.
+
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 56;
+const FOOTER_HEIGHT = 48;
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126, from the standard AFM
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+type Font = 'regular' | 'bold';
+
+const FONT_RESOURCES: Record<Font, string> = { regular: 'F1', bold: 'F2' };
+
+// Characters outside WinAnsi that the model or our own labels commonly use
+const CHAR_FALLBACKS: Record<string, string> = {
+  '‘': "'", '’': "'", '“': '"', '”': '"', '–': '-', '—': '-', '→': '->', '•': '-', '…': '...', '×': 'x'
+};
+
+const toWinAnsi = (text: string) =>
+  Array.from(text)
+    .map(ch => CHAR_FALLBACKS[ch] ?? (ch.charCodeAt(0) < 256 ? ch : '?'))
+    .join('');
+
+const escapePdfText = (text: string) => toWinAnsi(text).replace(/[\\()]/g, c => `\\${c}`);
+
+const textWidth = (text: string, size: number, font: Font) => {
+  const units = Array.from(toWinAnsi(text)).reduce((sum, ch) => {
+    const code = ch.charCodeAt(0);
+    return sum + (code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : 556);
+  }, 0);
+  return (units * size / 1000) * (font === 'bold' ? 1.05 : 1); // Bold runs slightly wider
+};
+
+const wrapText = (text: string, size: number, font: Font, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && textWidth(candidate, size, font) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+interface PdfPage {
+  ops: string[];
+}
+
+/**
+ * Accumulates drawing operations page by page, tracking a top-down cursor.
+ */
+class PdfBuilder {
+  pages: PdfPage[] = [];
+  pageIndex = 0; // Page that drawing calls write to
+  y = 0;
+
+  constructor() {
+    this.addPage();
+  }
+
+  private get page() {
+    return this.pages[this.pageIndex];
+  }
+
+  addPage() {
+    this.pages.push({ ops: [] });
+    this.pageIndex = this.pages.length - 1;
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  /** Starts a new page if fewer than `height` points remain above the footer. */
+  ensureSpace(height: number) {
+    if (this.y - height < MARGIN + FOOTER_HEIGHT) this.addPage();
+  }
+
+  text(text: string, x: number, y: number, size: number, font: Font = 'regular', color: [number, number, number] = [0.1, 0.1, 0.1]) {
+    this.page.ops.push(
+      `${color.join(' ')} rg BT /${FONT_RESOURCES[font]} ${size} Tf 1 0 0 1 ${x.toFixed(2)} ${y.toFixed(2)} Tm (${escapePdfText(text)}) Tj ET`
+    );
+  }
+
+  textRight(text: string, right: number, y: number, size: number, font: Font = 'regular') {
+    this.text(text, right - textWidth(text, size, font), y, size, font);
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, width = 0.5) {
+    this.page.ops.push(`0.6 0.6 0.6 RG ${width} w ${x1.toFixed(2)} ${y1.toFixed(2)} m ${x2.toFixed(2)} ${y2.toFixed(2)} l S`);
+  }
+
+  /** Large diagonal text behind the content, e.g. VOID. */
+  watermark(text: string) {
+    const size = 110;
+    const c = Math.SQRT1_2;
+    const offset = textWidth(text, size, 'bold') / 2;
+    const x = PAGE_WIDTH / 2 - offset * c;
+    const y = PAGE_HEIGHT / 2 - offset * c;
+    this.page.ops.unshift(`0.95 0.8 0.8 rg BT /F2 ${size} Tf ${c} ${c} ${-c} ${c} ${x.toFixed(2)} ${y.toFixed(2)} Tm (${escapePdfText(text)}) Tj ET`);
+  }
+
+  /** Serializes to PDF bytes. Every string here is single-byte, so length equals byte count. */
+  build(title: string): Uint8Array {
+    const objects: string[] = [];
+    const pageIds = this.pages.map((_, i) => 5 + i * 2);
+    objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+    objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${this.pages.length} >>`;
+    objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+    objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+    this.pages.forEach((page, i) => {
+      const stream = page.ops.join('\n');
+      objects[pageIds[i]] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+        + `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`;
+      objects[pageIds[i] + 1] = `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`;
+    });
+    const infoId = objects.length;
+    objects[infoId] = `<< /Title (${escapePdfText(title)}) /Producer (MHO Hospital Operations) >>`;
+
+    let pdf = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+      offsets[id] = pdf.length;
+      pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+    const xrefOffset = pdf.length;
+    pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+      pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+    }
+    pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R /Info ${infoId} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+    return Uint8Array.from(pdf, ch => ch.charCodeAt(0));
+  }
+}
+
+// --- Document Layout ---
+
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const drawLetterhead = (pdf: PdfBuilder, doc: GeneratedDocumentData) => {
+  pdf.text(HOSPITAL_LETTERHEAD.name, MARGIN, pdf.y - 16, 18, 'bold', [0.19, 0.18, 0.51]);
+  pdf.textRight(documentTypeLabel(doc.type).toUpperCase(), PAGE_WIDTH - MARGIN, pdf.y - 14, 11, 'bold');
+  pdf.text(HOSPITAL_LETTERHEAD.tagline, MARGIN, pdf.y - 30, 9);
+  pdf.textRight(t('doc.number', { number: doc.documentNumber ?? t('doc.notFiled') }), PAGE_WIDTH - MARGIN, pdf.y - 28, 9);
+  pdf.text(HOSPITAL_LETTERHEAD.address, MARGIN, pdf.y - 42, 8);
+  if (doc.version && doc.version > 1) pdf.textRight(t('doc.version', { version: doc.version }), PAGE_WIDTH - MARGIN, pdf.y - 40, 8);
+  pdf.text(HOSPITAL_LETTERHEAD.contact, MARGIN, pdf.y - 53, 8);
+  pdf.line(MARGIN, pdf.y - 62, PAGE_WIDTH - MARGIN, pdf.y - 62, 1.2);
+  pdf.y -= 90;
+};
+
+const drawFields = (pdf: PdfBuilder, doc: GeneratedDocumentData) => {
+  const labelWidth = 140;
+  for (const [label, value] of documentRows(doc)) {
+    const lines = wrapText(value, 10, 'regular', CONTENT_WIDTH - labelWidth);
+    pdf.ensureSpace(lines.length * 14 + 6);
+    pdf.text(label, MARGIN, pdf.y, 10, 'bold');
+    lines.forEach((line, i) => pdf.text(line, MARGIN + labelWidth, pdf.y - i * 14, 10));
+    pdf.y -= lines.length * 14 + 6;
+  }
+};
+
+const drawLineItems = (pdf: PdfBuilder, doc: GeneratedDocumentData) => {
+  if (!doc.lineItems?.length) return;
+  const right = PAGE_WIDTH - MARGIN;
+  const columns = { qty: right - 200, price: right - 100, amount: right };
+
+  const header = () => {
+    pdf.ensureSpace(40);
+    pdf.y -= 8;
+    pdf.text(t('doc.item'), MARGIN, pdf.y, 9, 'bold');
+    pdf.textRight(t('doc.qty'), columns.qty, pdf.y, 9, 'bold');
+    pdf.textRight(t('doc.unitPrice'), columns.price, pdf.y, 9, 'bold');
+    pdf.textRight(t('doc.amount'), columns.amount, pdf.y, 9, 'bold');
+    pdf.line(MARGIN, pdf.y - 5, right, pdf.y - 5);
+    pdf.y -= 18;
+  };
+
+  header();
+  for (const item of doc.lineItems) {
+    const lines = wrapText(item.description, 9, 'regular', columns.qty - MARGIN - 50);
+    if (pdf.y - lines.length * 12 < MARGIN + FOOTER_HEIGHT) {
+      pdf.addPage();
+      header();
+    }
+    lines.forEach((line, i) => pdf.text(line, MARGIN, pdf.y - i * 12, 9));
+    pdf.textRight(String(item.quantity), columns.qty, pdf.y, 9);
+    pdf.textRight(formatRupiah(item.unitPrice), columns.price, pdf.y, 9);
+    pdf.textRight(formatRupiah(item.amount), columns.amount, pdf.y, 9);
+    pdf.y -= lines.length * 12 + 4;
+  }
+  pdf.line(MARGIN, pdf.y + 6, right, pdf.y + 6);
+  pdf.y -= 12;
+};
+
+const drawSignature = (pdf: PdfBuilder, doc: GeneratedDocumentData | ArchivedDocument) => {
+  const signature = signatureFor(doc);
+  const x = PAGE_WIDTH - MARGIN - 180;
+  pdf.ensureSpace(110);
+  pdf.y -= 20;
+  pdf.text(t('doc.signedAt', { date: signature.date }), x, pdf.y, 9);
+  pdf.text(signature.role, x, pdf.y - 14, 9, 'bold');
+  pdf.line(x, pdf.y - 70, x + 180, pdf.y - 70);
+  pdf.text(signature.name || t('doc.nameAndStamp'), x, pdf.y - 84, 9);
+  pdf.y -= 100;
+};
+
+const drawFooters = (pdf: PdfBuilder, doc: GeneratedDocumentData) => {
+  const total = pdf.pages.length;
+  pdf.pages.forEach((_, i) => {
+    pdf.pageIndex = i;
+    const noteLines = wrapText(doc.footer, 7, 'regular', CONTENT_WIDTH - 90).slice(0, 2);
+    pdf.line(MARGIN, MARGIN + 26, PAGE_WIDTH - MARGIN, MARGIN + 26);
+    noteLines.forEach((line, j) => pdf.text(line, MARGIN, MARGIN + 14 - j * 9, 7, 'regular', [0.4, 0.4, 0.4]));
+    pdf.textRight(t('doc.page', { page: i + 1, pages: total }), PAGE_WIDTH - MARGIN, MARGIN + 14, 7);
+    if (doc.status === 'VOID') pdf.watermark(documentStatusLabel('VOID'));
+  });
+};
+
+/**
+ * Lays out a document as a PDF entirely in the browser: letterhead, document
+ * number, fields, line items, signature block and compliance footer.
+ */
+export const renderDocumentPdf = (doc: GeneratedDocumentData | ArchivedDocument): Blob => {
+  const pdf = new PdfBuilder();
+  drawLetterhead(pdf, doc);
+
+  for (const line of wrapText(doc.title, 14, 'bold', CONTENT_WIDTH)) {
+    pdf.text(line, MARGIN, pdf.y, 14, 'bold');
+    pdf.y -= 20;
+  }
+  pdf.y -= 6;
+
+  drawFields(pdf, doc);
+  drawLineItems(pdf, doc);
+  drawSignature(pdf, doc);
+  drawFooters(pdf, doc);
+
+  return new Blob([pdf.build(doc.title)], { type: 'application/pdf' });
+};
+
+export const documentFileName = (doc: GeneratedDocumentData) =>
+  `${(doc.documentNumber ?? doc.title).replace(/[^\w-]+/g, '_')}${doc.version && doc.version > 1 ? `_v${doc.version}` : ''}.pdf`;
+
+export const downloadDocumentPdf = (doc: GeneratedDocumentData | ArchivedDocument) => {
+  const url = URL.createObjectURL(renderDocumentPdf(doc));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = documentFileName(doc);
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -0,0 +1,189 @@
+import { DocumentFieldSpec, DocumentFieldType, DocumentLineItem, DocumentSchema, DocumentType, GeneratedDocumentData } from "../types";
+import { DocumentValidationError } from "./errors";
+
+// Rounding slack when checking amounts, in Rupiah
+const AMOUNT_TOLERANCE = 1;
+
+const field = (
+  key: string,
+  label: string,
+  type: DocumentFieldType,
+  required: boolean,
+  description: string
+): DocumentFieldSpec => ({ key, label, type, required, description });
+
+// --- Schemas ---
+
+export const DOCUMENT_SCHEMAS: Record<DocumentType, DocumentSchema> = {
+  INVOICE: {
+    type: 'INVOICE',
+    fields: [
+      field('invoice_no', 'Invoice No.', 'string', true, 'Ledger invoice number, e.g. INV-000001'),
+      field('mrn', 'MRN', 'string', true, 'Patient medical record number'),
+      field('patient_name', 'Patient', 'string', true, 'Patient full name'),
+      field('date', 'Date', 'date', true, 'Invoice date (YYYY-MM-DD)'),
+      field('subtotal', 'Subtotal', 'currency', true, 'Sum of line item amounts'),
+      field('tax_ppn', 'PPN', 'currency', true, 'VAT on taxable lines'),
+      field('total', 'Total', 'currency', true, 'Subtotal plus PPN'),
+      field('amount_paid', 'Amount Paid', 'currency', true, 'Payments received so far'),
+      field('status', 'Status', 'string', true, 'ISSUED, PARTIALLY_PAID or PAID')
+    ],
+    requiresLineItems: true,
+    allowExtraFields: false
+  },
+  PRESCRIPTION: {
+    type: 'PRESCRIPTION',
+    fields: [
+      field('mrn', 'MRN', 'string', true, 'Patient medical record number'),
+      field('patient_name', 'Patient', 'string', true, 'Patient full name'),
+      field('drug', 'Drug', 'string', true, 'Drug name and strength; separate several drugs with commas'),
+      field('dose', 'Dose', 'string', true, 'Amount per administration, e.g. 1 tablet'),
+      field('frequency', 'Frequency', 'string', true, 'How often, e.g. 3x daily'),
+      field('quantity', 'Quantity', 'number', true, 'Units to dispense per drug'),
+      field('prescriber', 'Prescriber', 'string', true, 'Prescribing doctor'),
+      field('instructions', 'Instructions', 'string', false, 'Extra directions, e.g. after meals'),
+      { ...field('interaction_warning', 'Interaction Warning', 'string', false, 'Findings of the interaction check'), setByCode: true }
+    ],
+    requiresLineItems: false,
+    allowExtraFields: false
+  },
+  ADMISSION_FORM: {
+    type: 'ADMISSION_FORM',
+    fields: [
+      field('mrn', 'MRN', 'string', true, 'Patient medical record number'),
+      field('patient_name', 'Patient', 'string', true, 'Patient full name'),
+      field('ward', 'Ward', 'string', true, 'Admitting ward or room'),
+      field('diagnosis', 'Diagnosis', 'string', true, 'Admitting diagnosis'),
+      field('admission_date', 'Admission Date', 'date', false, 'Date of admission (YYYY-MM-DD)'),
+      field('attending_doctor', 'Attending Doctor', 'string', false, 'Responsible doctor')
+    ],
+    requiresLineItems: false,
+    allowExtraFields: false
+  },
+  MEMO: {
+    type: 'MEMO',
+    fields: [
+      field('recipient', 'To', 'string', false, 'Recipient of the memo'),
+      field('subject', 'Subject', 'string', false, 'Memo subject'),
+      field('body', 'Body', 'string', false, 'Memo text')
+    ],
+    requiresLineItems: false,
+    allowExtraFields: true
+  }
+};
+
+/**
+ * One-line summary of a type's fields, used in repair prompts and tool errors.
+ */
+export const describeSchema = (type: DocumentType): string => {
+  const schema = DOCUMENT_SCHEMAS[type];
+  if (!schema) return `document type must be one of ${Object.keys(DOCUMENT_SCHEMAS).join(', ')}.`;
+  const fields = schema.fields
+    .map(f => `${f.key} (${f.type}${f.required ? ', required' : ''})`)
+    .join(', ');
+  return `${type} fields: ${fields}${schema.requiresLineItems ? '; plus at least one line item' : ''}.`;
+};
+
+// --- Validation ---
+
+const isBlank = (value: unknown) => value === undefined || value === null || String(value).trim() === '';
+
+/**
+ * Checks one value against its spec. Unambiguous mismatches (e.g. "15" for a
+ * number) are coerced rather than reported.
+ */
+const checkField = (spec: DocumentFieldSpec, value: unknown): { value?: string | number; issue?: string } => {
+  switch (spec.type) {
+    case 'number':
+    case 'currency': {
+      const parsed = typeof value === 'number' ? value : Number(String(value).replace(/[\s,]/g, ''));
+      return Number.isFinite(parsed)
+        ? { value: parsed }
+        : { issue: `Field "${spec.key}" must be a number, got ${JSON.stringify(value)}.` };
+    }
+    case 'date':
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value))
+        ? { value }
+        : { issue: `Field "${spec.key}" must be a date (YYYY-MM-DD), got ${JSON.stringify(value)}.` };
+    default:
+      return typeof value === 'string' || typeof value === 'number'
+        ? { value: String(value) }
+        : { issue: `Field "${spec.key}" must be text, got ${JSON.stringify(value)}.` };
+  }
+};
+
+const checkLineItems = (doc: GeneratedDocumentData, content: Record<string, string | number>): string[] => {
+  const items: DocumentLineItem[] = doc.lineItems ?? [];
+  if (items.length === 0) return ['At least one line item is required.'];
+
+  const issues: string[] = [];
+  items.forEach((item, i) => {
+    if (isBlank(item.description)) issues.push(`Line item ${i + 1} needs a description.`);
+    if (![item.quantity, item.unitPrice, item.amount].every(Number.isFinite)) {
+      issues.push(`Line item ${i + 1} needs numeric quantity, unitPrice and amount.`);
+    } else if (Math.abs(item.quantity * item.unitPrice - item.amount) > AMOUNT_TOLERANCE) {
+      issues.push(`Line item ${i + 1} amount ${item.amount} does not equal quantity x unitPrice.`);
+    }
+  });
+
+  const { subtotal, tax_ppn, total } = content;
+  if (typeof subtotal === 'number' && Math.abs(items.reduce((sum, item) => sum + item.amount, 0) - subtotal) > AMOUNT_TOLERANCE) {
+    issues.push('Subtotal does not equal the sum of the line items.');
+  }
+  if (typeof subtotal === 'number' && typeof tax_ppn === 'number' && typeof total === 'number'
+    && Math.abs(subtotal + tax_ppn - total) > AMOUNT_TOLERANCE) {
+    issues.push('Total does not equal subtotal plus PPN.');
+  }
+  return issues;
+};
+
+/**
+ * Validates a document against its type's schema and returns it with values
+ * coerced to their declared types, plus every issue found.
+ */
+export const validateDocument = (doc: GeneratedDocumentData): { document: GeneratedDocumentData; issues: string[] } => {
+  const schema = DOCUMENT_SCHEMAS[doc.type];
+  if (!schema) {
+    return { document: doc, issues: [`Unknown document type ${JSON.stringify(doc.type)}.`] };
+  }
+
+  const issues: string[] = [];
+  if (isBlank(doc.title)) issues.push('A document title is required.');
+
+  const raw = (doc.content ?? {}) as Record<string, unknown>;
+  const content: Record<string, string | number> = {};
+
+  for (const spec of schema.fields) {
+    const value = raw[spec.key];
+    if (isBlank(value)) {
+      if (spec.required) issues.push(`Missing required field "${spec.key}" (${spec.description}).`);
+      continue;
+    }
+    const result = checkField(spec, value);
+    if (result.issue) issues.push(result.issue);
+    else content[spec.key] = result.value!;
+  }
+
+  const extraKeys = Object.keys(raw).filter(key => !schema.fields.some(f => f.key === key));
+  if (schema.allowExtraFields) {
+    extraKeys.forEach(key => { if (!isBlank(raw[key])) content[key] = raw[key] as string | number; });
+  } else if (extraKeys.length > 0) {
+    issues.push(`Unexpected field(s) ${extraKeys.map(k => `"${k}"`).join(', ')} for ${doc.type}.`);
+  }
+
+  if (schema.requiresLineItems) issues.push(...checkLineItems(doc, content));
+
+  return { document: { ...doc, content }, issues };
+};
+
+/**
+ * Throws a DocumentValidationError listing every issue, so the model can fix
+ * all of them in one retry.
+ */
+export const assertValidDocument = (doc: GeneratedDocumentData): GeneratedDocumentData => {
+  const { document, issues } = validateDocument(doc);
+  if (issues.length > 0) {
+    throw new DocumentValidationError([...issues, `Expected ${describeSchema(doc.type)}`]);
+  }
+  return document;
+};
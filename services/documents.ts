@@ -0,0 +1,203 @@
+import { FunctionDeclaration, Schema, Type } from "@google/genai";
+import { ApprovalRequest, GeneratedDocumentData, InvoiceLineInput } from "../types";
+import { invoiceToDocument, issueInvoice } from "./accounting";
+import { approvalReasonsFor, assertCanDecide, closeApproval, getApproval, holdForApproval } from "./approvals";
+import { archiveDocument } from "./documentArchive";
+import { DOCUMENT_SCHEMAS, assertValidDocument } from "./documentSchemas";
+import { DocumentValidationError, DomainError } from "./errors";
+import { checkInteractionsForPatient } from "./formulary";
+import { alertToMemo, dispenseMedication, getStockLevel } from "./inventory";
+import { AgentTool, ToolContext } from "./tools";
+
+// --- Field Helpers ---
+
+/**
+ * Splits the drugs named in a PRESCRIPTION's comma-separated drug field.
+ */
+const prescribedDrugs = (fields: Record<string, unknown>): string[] =>
+  String(fields.drug ?? '')
+    .split(/[,;\n]/)
+    .map(drug => drug.trim())
+    .filter(Boolean);
+
+/**
+ * Code-side interaction screening for prescriptions. Blocked prescriptions are
+ * rejected; flagged ones are issued with the warning written into the document.
+ */
+const screenPrescription = async (doc: GeneratedDocumentData): Promise<GeneratedDocumentData> => {
+  const drugs = prescribedDrugs(doc.content);
+  if (drugs.length === 0) throw new DomainError('A PRESCRIPTION requires at least one drug in fields.drug.');
+
+  const check = await checkInteractionsForPatient(String(doc.content.mrn), drugs);
+  const summary = check.findings.map(f => `[${f.severity}] ${f.description}`).join(' ');
+  if (check.blocked) {
+    throw new DomainError(`Prescription blocked by interaction check: ${summary}`);
+  }
+  if (check.flagged) {
+    return { ...doc, content: { ...doc.content, interaction_warning: summary } };
+  }
+  return doc;
+};
+
+/**
+ * Side effects of a document becoming final. A PRESCRIPTION decrements pharmacy
+ * stock for every drug it lists; stock is checked for all drugs before any is taken.
+ * Returns the document to file, carrying the movements so a void can return them.
+ */
+const finalizeDocument = async (doc: GeneratedDocumentData, context: ToolContext): Promise<GeneratedDocumentData> => {
+  if (doc.type !== 'PRESCRIPTION') return doc;
+
+  const quantity = Number(doc.content.quantity);
+  if (!Number.isInteger(quantity) || quantity <= 0) {
+    throw new DomainError('A PRESCRIPTION requires a whole-number quantity to dispense in fields.quantity.');
+  }
+
+  const drugs = prescribedDrugs(doc.content);
+  for (const drug of drugs) {
+    const stock = await getStockLevel(drug);
+    if (stock.quantityOnHand < quantity) {
+      throw new DomainError(`Insufficient stock: ${quantity} units of ${stock.drug} requested, ${stock.quantityOnHand} available.`);
+    }
+  }
+  const movementIds: string[] = [];
+  for (const drug of drugs) {
+    const { movements, alerts } = await dispenseMedication({
+      drug,
+      quantity,
+      patientMrn: String(doc.content.mrn),
+      reference: doc.title
+    });
+    movementIds.push(...movements.map(m => m.id));
+    context.alerts.push(...alerts.map(alertToMemo));
+  }
+  return { ...doc, dispensedMovementIds: movementIds };
+};
+
+// --- Approval Decisions ---
+
+/**
+ * Approves or rejects a held document. Approving issues it as the tool call
+ * would have: a prescription is re-screened, dispensed and filed, an invoice is
+ * posted to the ledger and filed. If issuing fails the request stays pending.
+ */
+export const decideApproval = async (id: string, decision: {
+  approve: boolean;
+  note?: string;
+  // PRESCRIPTION field edits
+  changes?: Record<string, string | number>;
+  // INVOICE line edits, replacing the requested lines
+  invoiceLines?: InvoiceLineInput[];
+}): Promise<{ request: ApprovalRequest; alerts: GeneratedDocumentData[] }> => {
+  const request = await getApproval(id);
+  assertCanDecide(request);
+
+  if (!decision.approve) {
+    if (!decision.note?.trim()) throw new DomainError('Give a reason when rejecting.');
+    return { request: await closeApproval(request, { status: 'REJECTED', note: decision.note }), alerts: [] };
+  }
+
+  const context: ToolContext = { agent: request.agent, documents: [], alerts: [], auditEvents: [], documentIssues: [], approvals: [] };
+  let issued: GeneratedDocumentData;
+  let editedFields: string[];
+
+  if (request.type === 'INVOICE') {
+    const lines = decision.invoiceLines ?? request.invoiceLines ?? [];
+    editedFields = JSON.stringify(lines) === JSON.stringify(request.invoiceLines) ? [] : ['line items'];
+    const { invoice } = await issueInvoice({ patientMrn: String(request.document.content.mrn), lineItems: lines });
+    issued = await archiveDocument(invoiceToDocument(invoice));
+  } else {
+    const changes = decision.changes ?? {};
+    editedFields = Object.keys(changes).filter(key => String(changes[key]) !== String(request.document.content[key] ?? ''));
+    // The warning is recomputed from the edited drugs
+    const { interaction_warning, ...content } = { ...request.document.content, ...changes };
+    let doc = assertValidDocument({ ...request.document, content });
+    doc = await screenPrescription(doc);
+    issued = await archiveDocument(await finalizeDocument(doc, context));
+  }
+
+  const closed = await closeApproval(request, { status: 'APPROVED', note: decision.note, editedFields, document: issued });
+  return { request: closed, alerts: context.alerts };
+};
+
+// --- Agent Tools ---
+
+// Every field the model may fill, described with the document types that use it.
+// INVOICE is left out because invoices come from issue_invoice.
+const documentFieldProperties = (): Record<string, Schema> => {
+  const properties: Record<string, Schema> = {};
+  for (const schema of Object.values(DOCUMENT_SCHEMAS).filter(s => s.type !== 'INVOICE')) {
+    for (const spec of schema.fields.filter(f => !f.setByCode)) {
+      const usedBy = properties[spec.key]?.description?.match(/\[(.*)\]$/)?.[1];
+      properties[spec.key] = {
+        type: spec.type === 'number' || spec.type === 'currency' ? Type.NUMBER : Type.STRING,
+        description: `${spec.description} [${usedBy ? `${usedBy}, ` : ''}${schema.type}${spec.required ? ' required' : ''}]`
+      };
+    }
+  }
+  return properties;
+};
+
+// Tool 1: Generate Document (Used by Admission, Pharmacy, Billing)
+const generateDocumentFunction: FunctionDeclaration = {
+  name: 'generate_document',
+  description: 'Generates an official hospital document (Prescription, Admission Form, Memo). REQUIRED for any formal request. Invoices are issued with issue_invoice instead. Fields are validated against the schema for the document type; only the fields listed are accepted. A PRESCRIPTION is screened for interactions and dispensed from stock; one above the quantity threshold or with an interaction warning is held (status pending_approval) until a pharmacist or doctor approves it.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      docType: {
+        type: Type.STRING,
+        description: 'Type of document: INVOICE, PRESCRIPTION, ADMISSION_FORM, MEMO',
+        enum: ['INVOICE', 'PRESCRIPTION', 'ADMISSION_FORM', 'MEMO']
+      },
+      title: { type: Type.STRING, description: 'Title of the document' },
+      // No `additionalProperties`: Gemini's OpenAPI-subset Schema has no such key (it fails the type-check),
+      // and every accepted field is declared here and validated per document type anyway
+      fields: {
+        type: Type.OBJECT,
+        description: 'Document content. The bracket after each field names the document types that use it and whether it is required.',
+        properties: documentFieldProperties()
+      },
+      complianceNote: { type: Type.STRING, description: 'HIPAA or Audit compliance footer note' }
+    },
+    required: ['docType', 'title', 'fields', 'complianceNote']
+  }
+};
+
+export const generateDocumentTool: AgentTool = {
+  declaration: generateDocumentFunction,
+  handler: async (args, context) => {
+    // A field only the checks may fill is dropped if the model writes it anyway
+    const codeFields = DOCUMENT_SCHEMAS[args.docType]?.fields.filter(f => f.setByCode).map(f => f.key) ?? [];
+    let doc: GeneratedDocumentData = {
+      type: args.docType,
+      title: args.title,
+      content: Object.fromEntries(Object.entries<string | number>(args.fields ?? {}).filter(([key]) => !codeFields.includes(key))),
+      footer: args.complianceNote
+    };
+    if (doc.type === 'INVOICE') {
+      // Invoice totals must come from the ledger, not from model arithmetic
+      throw new DomainError("Invoices are issued with 'issue_invoice', which computes totals and posts them to the ledger.");
+    }
+    try {
+      doc = assertValidDocument(doc);
+      context.documentIssues = [];
+    } catch (error) {
+      if (error instanceof DocumentValidationError) context.documentIssues = error.issues;
+      throw error;
+    }
+    if (doc.type === 'PRESCRIPTION') {
+      doc = await screenPrescription(doc);
+      const reasons = await approvalReasonsFor(doc);
+      if (reasons.length > 0) return holdForApproval(context, { document: doc, reasons });
+    }
+    const archived = await archiveDocument(await finalizeDocument(doc, context));
+    context.documents.push(archived);
+    return {
+      status: 'generated',
+      documentNumber: archived.documentNumber,
+      docType: doc.type,
+      title: doc.title,
+      warning: doc.content.interaction_warning
+    };
+  }
+};
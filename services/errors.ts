@@ -0,0 +1,136 @@
+/**
+ * An expected business-rule violation (unknown record, invalid transition, bad input).
+ * The message is safe to show to staff and to return to the model as a tool error.
+ */
+export class DomainError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DomainError';
+  }
+}
+
+/**
+ * A generated document that does not match its type's schema. `issues` lists
+ * every problem so the model can repair the document in a single retry.
+ */
+export class DocumentValidationError extends DomainError {
+  readonly issues: string[];
+
+  constructor(issues: string[]) {
+    super(`Document failed validation: ${issues.join(' ')}`);
+    this.name = 'DocumentValidationError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Thrown when staff cancel an in-flight request. Tool calls that completed
+ * before the cancellation stay in effect.
+ */
+export class RequestCancelledError extends Error {
+  constructor() {
+    super('Request cancelled.');
+    this.name = 'RequestCancelledError';
+  }
+}
+
+/**
+ * Throws RequestCancelledError once `signal` has been aborted.
+ */
+export const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new RequestCancelledError();
+};
+
+// --- Model Call Errors ---
+
+export type LlmErrorCategory = 'AUTH' | 'RATE_LIMIT' | 'TIMEOUT' | 'MALFORMED_RESPONSE' | 'SAFETY_BLOCK' | 'UNAVAILABLE' | 'UNKNOWN';
+
+/**
+ * A failed model call. `category` picks the message staff see and the audit
+ * entry; `retryable` failures are retried with backoff before they surface.
+ */
+export class LlmError extends Error {
+  readonly category: LlmErrorCategory;
+  readonly retryable: boolean;
+
+  constructor(category: LlmErrorCategory, message: string, retryable = false) {
+    super(message);
+    this.name = 'LlmError';
+    this.category = category;
+    this.retryable = retryable;
+  }
+}
+
+/** The API key is missing, invalid or not allowed to use the model. */
+export class LlmAuthError extends LlmError {
+  constructor(message = 'The model API rejected the credentials.') {
+    super('AUTH', message);
+    this.name = 'LlmAuthError';
+  }
+}
+
+/** Quota exhausted or too many requests; `retryAfterMs` is the server's hint, when it gave one. */
+export class LlmRateLimitError extends LlmError {
+  readonly retryAfterMs?: number;
+
+  constructor(message = 'The model API quota or rate limit was exceeded.', retryAfterMs?: number) {
+    super('RATE_LIMIT', message, true);
+    this.name = 'LlmRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class LlmTimeoutError extends LlmError {
+  constructor(timeoutMs?: number) {
+    super('TIMEOUT', timeoutMs ? `The model did not answer within ${Math.round(timeoutMs / 1000)} s.` : 'The model call timed out.', true);
+    this.name = 'LlmTimeoutError';
+  }
+}
+
+/** The model answered, but not in the shape asked for (e.g. routing output that is not JSON). */
+export class LlmMalformedResponseError extends LlmError {
+  constructor(message: string) {
+    super('MALFORMED_RESPONSE', message, true);
+    this.name = 'LlmMalformedResponseError';
+  }
+}
+
+/** The prompt or the answer was blocked by the model's safety filters. Retrying gives the same result. */
+export class LlmSafetyBlockError extends LlmError {
+  readonly reason: string;
+
+  constructor(reason: string) {
+    super('SAFETY_BLOCK', `The model blocked the request (${reason}).`);
+    this.name = 'LlmSafetyBlockError';
+    this.reason = reason;
+  }
+}
+
+/** The network failed or the service is overloaded or down (5xx). */
+export class LlmUnavailableError extends LlmError {
+  constructor(message = 'The model service could not be reached.') {
+    super('UNAVAILABLE', message, true);
+    this.name = 'LlmUnavailableError';
+  }
+}
+
+/**
+ * Classifies anything a provider threw. HTTP status codes (as carried by the
+ * Gemini SDK's ApiError) decide first, then well-known messages.
+ */
+export const toLlmError = (error: unknown): LlmError => {
+  if (error instanceof LlmError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : undefined;
+
+  if (status === 401 || status === 403 || /api key|permission denied|unauthenticated/i.test(message)) return new LlmAuthError(message);
+  if (status === 429 || /quota|rate limit|resource.?exhausted/i.test(message)) {
+    const seconds = message.match(/retry in ([\d.]+)\s*s/i);
+    return new LlmRateLimitError(message, seconds ? Math.ceil(Number(seconds[1]) * 1000) : undefined);
+  }
+  if (status === 408 || status === 504 || /deadline exceeded|timed? ?out/i.test(message)) return new LlmTimeoutError();
+  if ((status !== undefined && status >= 500) || (error instanceof TypeError && /fetch|network|load failed/i.test(message))) {
+    return new LlmUnavailableError(message);
+  }
+  return new LlmError('UNKNOWN', message);
+};
@@ -0,0 +1,552 @@
+import {
+  Appointment, ArchivedDocument, Claim, FhirAllergyIntolerance, FhirAppointment, FhirBundle, FhirClaim, FhirEncounter, FhirIdentifier,
+  FhirImportOutcome, FhirInvoice, FhirMedicationRequest, FhirPatient, FhirReference, FhirResource, Invoice, Patient, SupportedFhirResource
+} from "../types";
+import { getInvoice, listInvoices } from "./accounting";
+import { getClaim, getPayer, listClaims } from "./claims";
+import { archiveDocument, searchDocuments } from "./documentArchive";
+import { assertValidDocument } from "./documentSchemas";
+import { DomainError } from "./errors";
+import { HOSPITAL_LETTERHEAD } from "./documentExport";
+import { addAllergies, admitPatient, listPatients, registerPatient } from "./patientRegistry";
+import { DOCTORS, bookAppointment, getDoctor, listAppointments } from "./scheduling";
+
+// --- Identifier Systems ---
+
+// Namespaced to this hospital, so another system's numbers that look the same
+// (its own MRN-000001) are never read as ours
+const LOCAL_SYSTEM = 'https://fhir.rs-mho.example';
+
+export const FHIR_SYSTEMS = {
+  mrn: `${LOCAL_SYSTEM}/sid/mrn`,
+  nik: 'https://fhir.kemkes.go.id/id/nik', // SATUSEHAT national ID system
+  doctor: `${LOCAL_SYSTEM}/sid/doctor`,
+  appointment: `${LOCAL_SYSTEM}/sid/appointment`,
+  document: `${LOCAL_SYSTEM}/sid/document-number`,
+  invoice: `${LOCAL_SYSTEM}/sid/invoice`,
+  claim: `${LOCAL_SYSTEM}/sid/claim`,
+  claimStatus: `${LOCAL_SYSTEM}/StructureDefinition/claim-status`,
+};
+
+// Appointment times are stored as WIB local time without an offset
+const WIB_OFFSET = '+07:00';
+const WIB_OFFSET_MS = 7 * 60 * 60 * 1000;
+
+const toInstant = (local: string) => `${local}:00${WIB_OFFSET}`;
+const fromInstant = (instant: string) => new Date(new Date(instant).getTime() + WIB_OFFSET_MS).toISOString().slice(0, 16);
+
+const money = (value: number) => ({ value, currency: 'IDR' });
+const patientRef = (mrn: string) => ({ reference: `Patient/${mrn}` });
+const identifierOf = (resource: { identifier?: FhirIdentifier[] }, system: string): string | undefined =>
+  (resource.identifier ?? []).find(i => i.system === system)?.value;
+
+// --- Export Mapping ---
+
+export const patientToFhir = (patient: Patient): FhirPatient => ({
+  resourceType: 'Patient',
+  id: patient.mrn,
+  identifier: [
+    { use: 'usual', system: FHIR_SYSTEMS.mrn, value: patient.mrn },
+    ...(patient.nik ? [{ use: 'official', system: FHIR_SYSTEMS.nik, value: patient.nik }] : [])
+  ],
+  active: true,
+  name: [{ use: 'official', text: patient.fullName }],
+  gender: patient.sex === 'M' ? 'male' : 'female',
+  birthDate: patient.dateOfBirth,
+  ...(patient.phone ? { telecom: [{ system: 'phone', value: patient.phone, use: 'mobile' }] } : {}),
+  ...(patient.address ? { address: [{ use: 'home', text: patient.address }] } : {})
+});
+
+const allergiesToFhir = (patient: Patient): FhirAllergyIntolerance[] =>
+  patient.allergies.map((allergy, i) => ({
+    resourceType: 'AllergyIntolerance',
+    id: `${patient.mrn}-allergy-${i + 1}`,
+    clinicalStatus: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/allergyintolerance-clinical', code: 'active' }] },
+    code: { text: allergy },
+    patient: patientRef(patient.mrn)
+  }));
+
+/**
+ * The inpatient stay of an admitted or discharged patient. Registered-only
+ * patients have no encounter.
+ */
+export const encounterToFhir = (patient: Patient): FhirEncounter | null => {
+  if (patient.status === 'REGISTERED' || !patient.admittedAt) return null;
+  return {
+    resourceType: 'Encounter',
+    id: `${patient.mrn}-stay`,
+    status: patient.status === 'ADMITTED' ? 'in-progress' : 'finished',
+    class: { system: 'http://terminology.hl7.org/CodeSystem/v3-ActCode', code: 'IMP', display: 'inpatient encounter' },
+    subject: patientRef(patient.mrn),
+    period: { start: patient.admittedAt, ...(patient.dischargedAt ? { end: patient.dischargedAt } : {}) },
+    ...(patient.diagnosis ? { reasonCode: [{ text: patient.diagnosis }] } : {}),
+    ...(patient.ward ? { location: [{ location: { display: patient.ward } }] } : {})
+  };
+};
+
+export const appointmentToFhir = (appointment: Appointment): FhirAppointment => {
+  const doctor = getDoctor(appointment.doctorId);
+  return {
+    resourceType: 'Appointment',
+    id: appointment.id,
+    identifier: [{ system: FHIR_SYSTEMS.appointment, value: appointment.id }],
+    status: appointment.status === 'BOOKED' ? 'booked' : 'cancelled',
+    serviceType: [{ text: doctor.department }],
+    ...(appointment.reason ? { description: appointment.reason } : {}),
+    start: toInstant(appointment.start),
+    end: toInstant(appointment.end),
+    participant: [
+      { actor: { ...patientRef(appointment.patientMrn) }, status: 'accepted' },
+      {
+        actor: { reference: `Practitioner/${doctor.id}`, identifier: { system: FHIR_SYSTEMS.doctor, value: doctor.id }, display: doctor.name },
+        status: 'accepted'
+      }
+    ]
+  };
+};
+
+/**
+ * One MedicationRequest per drug on an archived PRESCRIPTION.
+ */
+export const prescriptionToFhir = (doc: ArchivedDocument): FhirMedicationRequest[] =>
+  String(doc.content.drug ?? '').split(/[,;\n]/).map(d => d.trim()).filter(Boolean).map((drug, i) => ({
+    resourceType: 'MedicationRequest',
+    id: `${doc.documentNumber.replace(/\//g, '-')}-${i + 1}`,
+    identifier: [{ system: FHIR_SYSTEMS.document, value: doc.documentNumber }],
+    status: doc.status === 'VOID' ? 'cancelled' : 'active',
+    intent: 'order',
+    medicationCodeableConcept: { text: drug },
+    subject: patientRef(String(doc.content.mrn)),
+    authoredOn: doc.issuedAt,
+    requester: { display: String(doc.content.prescriber ?? '') },
+    dosageInstruction: [{
+      text: [doc.content.dose, doc.content.frequency, doc.content.instructions].filter(Boolean).join(', '),
+      doseAndRate: [{ doseQuantity: { unit: String(doc.content.dose ?? '') } }],
+      timing: { code: { text: String(doc.content.frequency ?? '') } }
+    }],
+    dispenseRequest: { quantity: { value: Number(doc.content.quantity) } }
+  }));
+
+export const invoiceToFhir = (invoice: Invoice): FhirInvoice => ({
+  resourceType: 'Invoice',
+  id: invoice.id,
+  identifier: [{ system: FHIR_SYSTEMS.invoice, value: invoice.id }],
+  status: invoice.status === 'PAID' ? 'balanced' : 'issued',
+  subject: { ...patientRef(invoice.patientMrn), display: invoice.patientName },
+  date: invoice.date,
+  issuer: { display: HOSPITAL_LETTERHEAD.name },
+  lineItem: invoice.lineItems.map((line, i) => ({
+    sequence: i + 1,
+    chargeItemCodeableConcept: { text: line.description },
+    priceComponent: [{ type: 'base', factor: line.quantity, amount: money(line.amount) }]
+  })),
+  totalPriceComponent: [{ type: 'tax', code: { text: 'PPN' }, amount: money(invoice.tax) }],
+  totalNet: money(invoice.subtotal),
+  totalGross: money(invoice.total),
+  paymentTerms: `Paid ${invoice.amountPaid} of ${invoice.total}`
+});
+
+export const claimToFhir = (claim: Claim): FhirClaim => {
+  const payer = getPayer(claim.payerId);
+  return {
+    resourceType: 'Claim',
+    id: claim.id,
+    identifier: [
+      { system: FHIR_SYSTEMS.claim, value: claim.id },
+      ...(claim.sepNumber ? [{ system: 'urn:bpjs:sep', value: claim.sepNumber }] : [])
+    ],
+    // FHIR Claim.status is administrative only; the workflow status travels as an extension
+    status: claim.status === 'DRAFT' ? 'draft' : 'active',
+    extension: [{ url: FHIR_SYSTEMS.claimStatus, valueCode: claim.status }],
+    type: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/claim-type', code: 'institutional' }] },
+    use: 'claim',
+    patient: patientRef(claim.patientMrn),
+    created: claim.history[0]?.at ?? new Date().toISOString(),
+    insurer: { identifier: { value: payer.id }, display: payer.name },
+    provider: { display: HOSPITAL_LETTERHEAD.name },
+    priority: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/processpriority', code: 'normal' }] },
+    insurance: [{ sequence: 1, focal: true, coverage: { display: `${payer.memberIdLabel} ${claim.memberId}` } }],
+    item: claim.lineItems.map((line, i) => ({
+      sequence: i + 1,
+      productOrService: { text: line.description },
+      net: money(line.amount),
+      extension: [{ url: FHIR_SYSTEMS.invoice, valueString: line.invoiceId }]
+    })),
+    total: money(claim.totalClaimed)
+  };
+};
+
+/**
+ * Exports the registry and related records as a FHIR R4 collection Bundle,
+ * optionally limited to one patient.
+ */
+export const exportFhirBundle = async (filter: { patientMrn?: string } = {}): Promise<FhirBundle> => {
+  const mrn = filter.patientMrn?.trim().toUpperCase();
+  const [patients, appointments, prescriptions, invoices, claims] = await Promise.all([
+    listPatients(),
+    listAppointments({ patientMrn: mrn }),
+    searchDocuments({ type: 'PRESCRIPTION', patientMrn: mrn }),
+    listInvoices({ patientMrn: mrn }),
+    listClaims({ patientMrn: mrn })
+  ]);
+  const selected = patients.filter(p => !mrn || p.mrn === mrn);
+  if (mrn && selected.length === 0) throw new DomainError(`No patient found with MRN ${mrn}.`);
+
+  const resources: FhirResource[] = [
+    ...selected.flatMap(p => [patientToFhir(p), ...allergiesToFhir(p)]),
+    ...selected.map(encounterToFhir).filter((r): r is FhirEncounter => r !== null),
+    ...appointments.map(appointmentToFhir),
+    ...prescriptions.flatMap(prescriptionToFhir),
+    ...invoices.map(invoiceToFhir),
+    ...claims.map(claimToFhir)
+  ];
+
+  return {
+    resourceType: 'Bundle',
+    id: `mho-export-${Date.now()}`,
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry: resources.map(resource => ({ fullUrl: `${resource.resourceType}/${resource.id}`, resource }))
+  };
+};
+
+
+// --- Import Mapping ---
+
+/**
+ * Resolves a bundle's Patient reference to a local MRN via the patients
+ * created or matched earlier in the same import. A patient held back as a
+ * conflict maps to null, so nothing that refers to it lands on someone else.
+ */
+type PatientMap = Map<string, string | null>;
+
+const localMrn = (reference: FhirReference | undefined, patientMap: PatientMap): string => {
+  const ref = reference?.reference ?? '';
+  const mrn = [ref, ref.replace(/^Patient\//, '')].map(key => patientMap.get(key)).find(value => value !== undefined);
+  if (mrn === null) throw new DomainError(`Refers to ${ref}, which was not imported because it conflicts with a registered patient.`);
+  if (!mrn) throw new DomainError(`Refers to ${ref || 'no patient'}, which is not in the bundle or the registry.`);
+  return mrn;
+};
+
+const normalizeName = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Why an incoming patient is not the registered one it was matched to, or null
+ * when they agree. The NIK decides when both have one; otherwise the name and
+ * birth date must both agree. Values are left out, as the detail is shown in chat.
+ */
+const identityConflict = (patient: Patient, incoming: { fullName: string; birthDate?: string; nik?: string }): string | null => {
+  if (patient.nik && incoming.nik) return patient.nik === incoming.nik ? null : 'the NIK differs';
+  if (normalizeName(patient.fullName) !== normalizeName(incoming.fullName)) return 'the name differs';
+  if (patient.dateOfBirth !== incoming.birthDate) return 'the birth date differs';
+  return null;
+};
+
+const importPatient = async (
+  resource: FhirPatient,
+  fullUrl: string | undefined,
+  allergies: string[],
+  patientMap: PatientMap
+): Promise<FhirImportOutcome> => {
+  const existing = await listPatients();
+  const mrn = identifierOf(resource, FHIR_SYSTEMS.mrn);
+  const nik = identifierOf(resource, FHIR_SYSTEMS.nik);
+  const name = resource.name?.[0];
+  const fullName = name?.text ?? [...(name?.given ?? []), name?.family].filter(Boolean).join(' ');
+  const keys = [resource.id && `Patient/${resource.id}`, fullUrl].filter((key): key is string => Boolean(key));
+
+  const match = existing.find(p => mrn && p.mrn === mrn) ?? existing.find(p => nik && p.nik === nik);
+  if (match) {
+    const conflict = identityConflict(match, { fullName, birthDate: resource.birthDate, nik });
+    if (conflict) {
+      keys.forEach(key => patientMap.set(key, null));
+      return {
+        resourceType: 'Patient',
+        id: resource.id,
+        status: 'CONFLICT',
+        detail: `Identifies as ${match.mrn}, but ${conflict}. Not merged; check the source record before importing it again.`
+      };
+    }
+    keys.forEach(key => patientMap.set(key, match.mrn));
+    const added = await addAllergies(match.mrn, allergies);
+    const allergyNote = added.length > 0 ? ` Added allergies: ${added.join(', ')}.` : '';
+    return { resourceType: 'Patient', id: resource.id, status: 'MATCHED', detail: `Matched existing patient ${match.mrn}.${allergyNote}` };
+  }
+
+  if (resource.gender !== 'male' && resource.gender !== 'female') {
+    throw new DomainError(`Gender "${resource.gender ?? 'missing'}" cannot be registered; the registry records male or female.`);
+  }
+  const created = await registerPatient({
+    fullName,
+    dateOfBirth: resource.birthDate ?? '',
+    sex: resource.gender === 'male' ? 'M' : 'F',
+    nik,
+    phone: resource.telecom?.find(t => t.system === 'phone')?.value,
+    address: resource.address?.[0]?.text,
+    allergies
+  });
+  keys.forEach(key => patientMap.set(key, created.mrn));
+  return { resourceType: 'Patient', id: resource.id, status: 'CREATED', detail: `Registered as ${created.mrn}.` };
+};
+
+const importEncounter = async (resource: FhirEncounter, patientMap: PatientMap): Promise<FhirImportOutcome> => {
+  const mrn = localMrn(resource.subject, patientMap);
+  if (resource.status !== 'in-progress') {
+    return { resourceType: 'Encounter', id: resource.id, status: 'SKIPPED', detail: `Only in-progress stays are imported; this one is ${resource.status}.` };
+  }
+  const patient = (await listPatients()).find(p => p.mrn === mrn);
+  if (patient?.status === 'ADMITTED') {
+    return { resourceType: 'Encounter', id: resource.id, status: 'MATCHED', detail: `${mrn} is already admitted to ${patient.ward}.` };
+  }
+  await admitPatient(mrn, {
+    ward: resource.location?.[0]?.location?.display ?? 'Unassigned',
+    diagnosis: resource.reasonCode?.[0]?.text ?? 'Not stated'
+  });
+  return { resourceType: 'Encounter', id: resource.id, status: 'CREATED', detail: `Admitted ${mrn}.` };
+};
+
+const importAppointment = async (resource: FhirAppointment, patientMap: PatientMap): Promise<FhirImportOutcome> => {
+  if (resource.status !== 'booked') {
+    return { resourceType: 'Appointment', id: resource.id, status: 'SKIPPED', detail: `Only booked appointments are imported; this one is ${resource.status}.` };
+  }
+  // The patient may be referenced by id or by its entry's fullUrl (urn:uuid:…)
+  const patientActor = resource.participant?.map(p => p.actor)
+    .find(actor => actor?.reference && (actor.reference.startsWith('Patient/') || patientMap.has(actor.reference)));
+  const mrn = localMrn(patientActor, patientMap);
+  const doctorActor = resource.participant?.find(p => String(p.actor?.reference ?? '').startsWith('Practitioner/'))?.actor;
+  const doctorId = doctorActor?.identifier?.value ?? String(doctorActor?.reference ?? '').replace(/^Practitioner\//, '');
+  if (!DOCTORS.some(d => d.id === doctorId)) {
+    throw new DomainError(`Practitioner ${doctorId || '(none)'} is not on this hospital's roster.`);
+  }
+  if (!resource.start) throw new DomainError('The appointment has no start time.');
+  const start = fromInstant(resource.start);
+
+  const existing = await listAppointments({ patientMrn: mrn, doctorId });
+  const same = existing.find(a => a.start === start && a.status === 'BOOKED');
+  if (same) return { resourceType: 'Appointment', id: resource.id, status: 'MATCHED', detail: `Matched existing appointment ${same.id}.` };
+
+  const booked = await bookAppointment({ doctorId, patientMrn: mrn, start, reason: resource.description });
+  return { resourceType: 'Appointment', id: resource.id, status: 'CREATED', detail: `Booked as ${booked.id}.` };
+};
+
+/**
+ * Identifies the source of a filed document: resource type, id and first
+ * identifier. Stored on the document so a bundle imported twice is not filed twice.
+ */
+const sourceKeyOf = (resource: FhirMedicationRequest | FhirInvoice | FhirClaim): string => {
+  const identifier = resource.identifier?.[0];
+  return [resource.resourceType, resource.id, identifier && `${identifier.system ?? ''}|${identifier.value ?? ''}`].filter(Boolean).join(' ');
+};
+
+/**
+ * The outcome for an entry filed by an earlier import, or null when it has not been filed.
+ */
+const previouslyFiled = async (resource: FhirMedicationRequest | FhirInvoice | FhirClaim, mrn: string): Promise<FhirImportOutcome | null> => {
+  const sourceKey = sourceKeyOf(resource);
+  const filed = (await searchDocuments({ includeHistory: true })).find(d => d.importedFrom === sourceKey);
+  if (!filed) return null;
+  return filed.patientMrn === mrn
+    ? { resourceType: resource.resourceType, id: resource.id, status: 'MATCHED', detail: `Already filed as ${filed.documentNumber} by an earlier import.` }
+    : { resourceType: resource.resourceType, id: resource.id, status: 'CONFLICT', detail: `Filed earlier as ${filed.documentNumber} for another patient. Not filed again.` };
+};
+
+/**
+ * Imported prescriptions are filed in the archive for reference. They are not
+ * screened or dispensed again.
+ */
+const importMedicationRequest = async (resource: FhirMedicationRequest, patientMap: PatientMap): Promise<FhirImportOutcome> => {
+  const mrn = localMrn(resource.subject, patientMap);
+  const sourceNumber = identifierOf(resource, FHIR_SYSTEMS.document);
+  const onFile = sourceNumber ? (await searchDocuments({ includeHistory: true })).find(d => d.documentNumber === sourceNumber) : undefined;
+  if (onFile) {
+    return onFile.type === 'PRESCRIPTION' && onFile.patientMrn === mrn
+      ? { resourceType: 'MedicationRequest', id: resource.id, status: 'MATCHED', detail: `Already on file as ${sourceNumber}.` }
+      : { resourceType: 'MedicationRequest', id: resource.id, status: 'CONFLICT', detail: `${sourceNumber} on file is not this patient's prescription. Not filed.` };
+  }
+  const earlier = await previouslyFiled(resource, mrn);
+  if (earlier) return earlier;
+
+  const patient = (await listPatients()).find(p => p.mrn === mrn)!;
+  const dosage = resource.dosageInstruction?.[0];
+  const doc = assertValidDocument({
+    type: 'PRESCRIPTION',
+    title: 'Imported Prescription',
+    content: {
+      mrn,
+      patient_name: patient.fullName,
+      drug: resource.medicationCodeableConcept?.text ?? '',
+      dose: dosage?.doseAndRate?.[0]?.doseQuantity?.unit ?? dosage?.text ?? '',
+      frequency: dosage?.timing?.code?.text ?? dosage?.text ?? '',
+      quantity: resource.dispenseRequest?.quantity?.value ?? '',
+      prescriber: resource.requester?.display ?? ''
+    },
+    footer: `Imported from FHIR MedicationRequest ${resource.id ?? ''}. Not dispensed by this pharmacy.`.trim()
+  });
+  const archived = await archiveDocument({ ...doc, importedFrom: sourceKeyOf(resource) });
+  return { resourceType: 'MedicationRequest', id: resource.id, status: 'CREATED', detail: `Filed as ${archived.documentNumber}.` };
+};
+
+/**
+ * Invoices from other systems are filed as reference documents; they are not
+ * posted to this hospital's ledger.
+ */
+const importInvoice = async (resource: FhirInvoice, patientMap: PatientMap): Promise<FhirImportOutcome> => {
+  const mrn = localMrn(resource.subject, patientMap);
+  // Only identifiers in this hospital's own system can refer to our ledger
+  const localId = identifierOf(resource, FHIR_SYSTEMS.invoice);
+  const sourceId = localId ?? resource.id;
+  const onLedger = localId ? await getInvoice(localId).catch(() => null) : null;
+  if (onLedger) {
+    return onLedger.patientMrn === mrn
+      ? { resourceType: 'Invoice', id: resource.id, status: 'MATCHED', detail: `Invoice ${localId} is already on the ledger.` }
+      : { resourceType: 'Invoice', id: resource.id, status: 'CONFLICT', detail: `Invoice ${localId} on the ledger belongs to another patient. Not filed.` };
+  }
+  const earlier = await previouslyFiled(resource, mrn);
+  if (earlier) return earlier;
+
+  const patient = (await listPatients()).find(p => p.mrn === mrn)!;
+  const lineItems = (resource.lineItem ?? []).map(line => {
+    const base = line.priceComponent?.find(c => c.type === 'base');
+    const quantity = Number(base?.factor ?? 1);
+    const amount = Number(base?.amount?.value ?? 0);
+    return { description: line.chargeItemCodeableConcept?.text ?? 'Charge', quantity, unitPrice: quantity ? amount / quantity : amount, amount };
+  });
+  const tax = Number(resource.totalPriceComponent?.find(c => c.type === 'tax')?.amount?.value ?? 0);
+  const doc = assertValidDocument({
+    type: 'INVOICE',
+    title: `Imported Invoice ${sourceId ?? ''}`.trim(),
+    content: {
+      invoice_no: sourceId ?? 'unknown',
+      mrn,
+      patient_name: patient.fullName,
+      date: String(resource.date ?? '').slice(0, 10),
+      subtotal: Number(resource.totalNet?.value ?? 0),
+      tax_ppn: tax,
+      total: Number(resource.totalGross?.value ?? 0),
+      amount_paid: resource.status === 'balanced' ? Number(resource.totalGross?.value ?? 0) : 0,
+      status: resource.status === 'balanced' ? 'PAID' : 'ISSUED'
+    },
+    lineItems,
+    footer: 'Imported from a FHIR Invoice for reference. Not posted to the general ledger.'
+  });
+  const archived = await archiveDocument({ ...doc, importedFrom: sourceKeyOf(resource) });
+  return { resourceType: 'Invoice', id: resource.id, status: 'CREATED', detail: `Filed as ${archived.documentNumber}.` };
+};
+
+/**
+ * Claims from other systems are filed as reference memos; the claims register
+ * only tracks claims this hospital submits.
+ */
+const importClaim = async (resource: FhirClaim, patientMap: PatientMap): Promise<FhirImportOutcome> => {
+  const mrn = localMrn(resource.patient, patientMap);
+  const localId = identifierOf(resource, FHIR_SYSTEMS.claim);
+  const sourceId = localId ?? resource.id;
+  const registered = localId ? await getClaim(localId).catch(() => null) : null;
+  if (registered) {
+    return registered.patientMrn === mrn
+      ? { resourceType: 'Claim', id: resource.id, status: 'MATCHED', detail: `Claim ${localId} is already in the claims register.` }
+      : { resourceType: 'Claim', id: resource.id, status: 'CONFLICT', detail: `Claim ${localId} in the register belongs to another patient. Not filed.` };
+  }
+  const earlier = await previouslyFiled(resource, mrn);
+  if (earlier) return earlier;
+
+  const workflowStatus = (resource.extension ?? []).find(e => e.url === FHIR_SYSTEMS.claimStatus)?.valueCode;
+  const content: Record<string, string | number> = {
+    subject: `Imported claim ${sourceId ?? ''}`.trim(),
+    mrn,
+    insurer: resource.insurer?.display ?? resource.insurer?.identifier?.value ?? 'Unknown',
+    coverage: resource.insurance?.[0]?.coverage?.display ?? '',
+    status: workflowStatus ?? resource.status ?? '',
+    total_claimed: Number(resource.total?.value ?? 0)
+  };
+  (resource.item ?? []).forEach((item, i) => {
+    content[`item_${i + 1}`] = `${item.productOrService?.text ?? 'Item'}: ${item.net?.value ?? 0}`;
+  });
+  const archived = await archiveDocument({
+    ...assertValidDocument({
+      type: 'MEMO',
+      title: `Imported Insurance Claim ${sourceId ?? ''}`.trim(),
+      content,
+      footer: 'Imported from a FHIR Claim for reference. Not tracked in the claims register.'
+    }),
+    importedFrom: sourceKeyOf(resource)
+  });
+  return { resourceType: 'Claim', id: resource.id, status: 'CREATED', detail: `Filed as ${archived.documentNumber}.` };
+};
+
+// Patients first so every other resource can resolve its patient reference
+const IMPORT_ORDER = ['Patient', 'AllergyIntolerance', 'Encounter', 'Appointment', 'MedicationRequest', 'Invoice', 'Claim'];
+
+/**
+ * Imports a FHIR R4 Bundle. Each entry is applied on its own, so one bad
+ * resource does not stop the rest; the outcome of every entry is returned.
+ * Records that already exist (same MRN, NIK, appointment, document or
+ * invoice number, or a document filed from the same source entry) are matched
+ * rather than duplicated, but only when they belong to the same patient;
+ * otherwise the entry is reported as a CONFLICT.
+ */
+export const importFhirBundle = async (bundle: FhirBundle): Promise<FhirImportOutcome[]> => {
+  if (bundle?.resourceType !== 'Bundle' || !Array.isArray(bundle.entry)) {
+    throw new DomainError('Not a FHIR Bundle: expected resourceType "Bundle" with an entry array.');
+  }
+
+  const entries = bundle.entry.map(e => ({ fullUrl: e.fullUrl, resource: e.resource ?? { resourceType: '(none)' } }));
+  const allergiesByPatient = new Map<string, string[]>();
+  for (const { resource } of entries.filter(e => e.resource.resourceType === 'AllergyIntolerance')) {
+    const allergy = resource as FhirAllergyIntolerance;
+    const ref = allergy.patient?.reference ?? '';
+    allergiesByPatient.set(ref, [...(allergiesByPatient.get(ref) ?? []), allergy.code?.text ?? ''].filter(Boolean));
+  }
+
+  const patientMap: PatientMap = new Map();
+  const outcomes: FhirImportOutcome[] = [];
+  const ordered = [...entries].sort((a, b) => IMPORT_ORDER.indexOf(a.resource.resourceType) - IMPORT_ORDER.indexOf(b.resource.resourceType));
+
+  for (const { fullUrl, resource } of ordered) {
+    // Narrowed by resourceType; each importer checks the elements it reads
+    const supported = resource as SupportedFhirResource;
+    try {
+      switch (supported.resourceType) {
+        case 'Patient': {
+          const allergies = allergiesByPatient.get(`Patient/${supported.id}`) ?? allergiesByPatient.get(fullUrl ?? '') ?? [];
+          outcomes.push(await importPatient(supported, fullUrl, allergies, patientMap));
+          break;
+        }
+        case 'AllergyIntolerance':
+          outcomes.push({
+            resourceType: 'AllergyIntolerance',
+            id: supported.id,
+            status: 'SKIPPED',
+            detail: `Recorded on ${localMrn(supported.patient, patientMap)} with its patient.`
+          });
+          break;
+        case 'Encounter':
+          outcomes.push(await importEncounter(supported, patientMap));
+          break;
+        case 'Appointment':
+          outcomes.push(await importAppointment(supported, patientMap));
+          break;
+        case 'MedicationRequest':
+          outcomes.push(await importMedicationRequest(supported, patientMap));
+          break;
+        case 'Invoice':
+          outcomes.push(await importInvoice(supported, patientMap));
+          break;
+        case 'Claim':
+          outcomes.push(await importClaim(supported, patientMap));
+          break;
+        default:
+          outcomes.push({ resourceType: resource.resourceType, id: resource.id, status: 'SKIPPED', detail: 'Resource type is not supported.' });
+      }
+    } catch (error) {
+      if (!(error instanceof DomainError)) console.error('FHIR import failed:', error);
+      outcomes.push({
+        resourceType: resource.resourceType,
+        id: resource.id,
+        status: 'FAILED',
+        detail: error instanceof Error ? error.message : String(error)
+      });
+    }
+  }
+  return outcomes;
+};
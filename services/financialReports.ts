@@ -0,0 +1,193 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+import { AgingBucket, Claim, DepartmentRevenue, FinancialReport, OutstandingInvoice, PayerDenialRate } from "../types";
+import { listInvoices } from "./accounting";
+import { PAYERS, listClaims } from "./claims";
+import { AgentTool } from "./tools";
+
+export const AGING_BUCKETS: AgingBucket[] = ['0-30', '31-60', '61-90', '90+'];
+
+// Days of revenue averaged for days in A/R
+export const DAYS_IN_AR_WINDOW = 90;
+
+const DAY_MS = 86_400_000;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const daysBetween = (from: string, to: string) =>
+  Math.max(0, Math.floor((Date.parse(to) - Date.parse(from)) / DAY_MS));
+
+const bucketFor = (ageDays: number): AgingBucket =>
+  ageDays <= 30 ? '0-30' : ageDays <= 60 ? '31-60' : ageDays <= 90 ? '61-90' : '90+';
+
+// The last `count` months up to and including the month of `asOf`, oldest first
+const monthsEnding = (asOf: string, count: number): string[] => {
+  const [year, month] = asOf.split('-').map(Number);
+  return Array.from({ length: count }, (_, i) => {
+    const date = new Date(Date.UTC(year, month - 1 - (count - 1 - i), 1));
+    return date.toISOString().slice(0, 7);
+  });
+};
+
+/**
+ * Insurer payments per invoice. A claim's payment is spread over the invoices
+ * it covers in proportion to the amount claimed for each.
+ */
+const insurerPaymentsByInvoice = (claims: Claim[]): Map<string, number> => {
+  const paid = new Map<string, number>();
+  for (const claim of claims.filter(c => c.paidAmount > 0 && c.totalClaimed > 0)) {
+    for (const line of claim.lineItems) {
+      const share = Math.round(claim.paidAmount * line.amount / claim.totalClaimed);
+      paid.set(line.invoiceId, (paid.get(line.invoiceId) ?? 0) + share);
+    }
+  }
+  return paid;
+};
+
+const PAYER_DECISIONS = ['APPROVED', 'PARTIALLY_PAID', 'DENIED'];
+
+const denialRates = (claims: Claim[]): PayerDenialRate[] =>
+  PAYERS
+    .map(payer => {
+      const decided = claims.filter(c => c.payerId === payer.id && c.history.some(h => PAYER_DECISIONS.includes(h.to)));
+      const denied = decided.filter(c => c.history.some(h => h.to === 'DENIED')).length;
+      return {
+        payerId: payer.id,
+        payerName: payer.name,
+        decided: decided.length,
+        denied,
+        denialRate: decided.length > 0 ? denied / decided.length : 0
+      };
+    })
+    .filter(rate => claims.some(c => c.payerId === rate.payerId));
+
+// --- Report ---
+
+/**
+ * Computes A/R aging, days in A/R, denial rates by payer, revenue by
+ * department and month, and the outstanding invoice list. Revenue covers the
+ * last `months` months; receivables reflect payments recorded so far.
+ */
+export const buildFinancialReport = async (options: { months?: number } = {}): Promise<FinancialReport> => {
+  const asOf = today();
+  const months = monthsEnding(asOf, Math.max(1, Math.min(24, Math.round(options.months ?? 6))));
+  const invoices = (await listInvoices()).filter(i => i.date <= asOf);
+  const claims = await listClaims();
+  const insurerPaid = insurerPaymentsByInvoice(claims);
+
+  const outstandingInvoices: OutstandingInvoice[] = invoices
+    .map(invoice => {
+      const paid = Math.min(invoice.total, invoice.amountPaid + (insurerPaid.get(invoice.id) ?? 0));
+      const ageDays = daysBetween(invoice.date, asOf);
+      return {
+        invoiceId: invoice.id,
+        patientMrn: invoice.patientMrn,
+        patientName: invoice.patientName,
+        date: invoice.date,
+        total: invoice.total,
+        paid,
+        outstanding: invoice.total - paid,
+        ageDays,
+        bucket: bucketFor(ageDays)
+      };
+    })
+    .filter(i => i.outstanding > 0)
+    .sort((a, b) => b.ageDays - a.ageDays || a.invoiceId.localeCompare(b.invoiceId));
+
+  const aging = AGING_BUCKETS.map(bucket => {
+    const inBucket = outstandingInvoices.filter(i => i.bucket === bucket);
+    return { bucket, invoiceCount: inBucket.length, amount: inBucket.reduce((sum, i) => sum + i.outstanding, 0) };
+  });
+  const totalOutstanding = aging.reduce((sum, row) => sum + row.amount, 0);
+
+  const windowRevenue = invoices
+    .filter(i => daysBetween(i.date, asOf) < DAYS_IN_AR_WINDOW)
+    .reduce((sum, i) => sum + i.subtotal, 0);
+  const averageDailyRevenue = Math.round(windowRevenue / DAYS_IN_AR_WINDOW);
+
+  const revenueByKey = new Map<string, DepartmentRevenue>();
+  for (const invoice of invoices.filter(i => months.includes(i.date.slice(0, 7)))) {
+    for (const line of invoice.lineItems) {
+      const key = `${invoice.date.slice(0, 7)}|${line.category}`;
+      const row = revenueByKey.get(key) ?? { month: invoice.date.slice(0, 7), department: line.category, amount: 0 };
+      row.amount += line.amount;
+      revenueByKey.set(key, row);
+    }
+  }
+
+  return {
+    asOf,
+    aging,
+    totalOutstanding,
+    averageDailyRevenue,
+    daysInAR: windowRevenue > 0 ? Math.round(totalOutstanding / (windowRevenue / DAYS_IN_AR_WINDOW) * 10) / 10 : null,
+    denialRates: denialRates(claims),
+    revenue: Array.from(revenueByKey.values())
+      .sort((a, b) => a.month.localeCompare(b.month) || a.department.localeCompare(b.department)),
+    outstandingInvoices
+  };
+};
+
+// --- CSV Export ---
+
+// Text starting with one of these is run as a formula by spreadsheets; amounts are numbers and stay as they are
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value: string | number | null) => {
+  const raw = value === null ? '' : String(value);
+  const text = typeof value === 'string' && FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const csvBlock = (title: string, header: string[], rows: (string | number | null)[][]) =>
+  [title, header.join(','), ...rows.map(row => row.map(csvCell).join(','))].join('\n');
+
+/**
+ * The report as one CSV file with a block per section, separated by blank
+ * lines. Headers stay in English and amounts are whole Rupiah, so the file
+ * loads the same in any spreadsheet locale.
+ */
+export const financialReportToCsv = (report: FinancialReport): string => [
+  csvBlock('Summary', ['Metric', 'Value'], [
+    ['As of', report.asOf],
+    ['Total outstanding', report.totalOutstanding],
+    [`Average daily revenue (${DAYS_IN_AR_WINDOW} days)`, report.averageDailyRevenue],
+    ['Days in A/R', report.daysInAR]
+  ]),
+  csvBlock('A/R Aging', ['Bucket (days)', 'Invoices', 'Amount'], report.aging.map(row => [row.bucket, row.invoiceCount, row.amount])),
+  csvBlock('Denial Rate by Payer', ['Payer', 'Decided', 'Denied', 'Denial rate (%)'],
+    report.denialRates.map(rate => [rate.payerName, rate.decided, rate.denied, Math.round(rate.denialRate * 1000) / 10])),
+  csvBlock('Revenue by Department', ['Month', 'Department', 'Amount'], report.revenue.map(row => [row.month, row.department, row.amount])),
+  csvBlock('Outstanding Invoices', ['Invoice', 'MRN', 'Patient', 'Date', 'Total', 'Paid', 'Outstanding', 'Age (days)', 'Bucket'],
+    report.outstandingInvoices.map(i => [i.invoiceId, i.patientMrn, i.patientName, i.date, i.total, i.paid, i.outstanding, i.ageDays, i.bucket]))
+].join('\n\n') + '\n';
+
+// --- Agent Tools ---
+
+const financialReportFunction: FunctionDeclaration = {
+  name: 'financial_report',
+  description: 'Computes revenue cycle figures from the ledger invoices and claims: A/R aging, days in A/R, claim denial rate by payer, revenue by department and month, and the oldest outstanding invoices. Quote these figures instead of estimating.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      months: { type: Type.NUMBER, description: 'Months of revenue to include, ending this month (default 6)' }
+    }
+  }
+};
+
+// Enough for the model to name the worst offenders without flooding the context
+const OUTSTANDING_LIMIT = 10;
+
+export const financialReportTools: AgentTool[] = [
+  {
+    declaration: financialReportFunction,
+    handler: async (args) => {
+      const report = await buildFinancialReport({ months: args.months });
+      return {
+        ...report,
+        denialRates: report.denialRates.map(rate => ({ ...rate, denialRatePercent: Math.round(rate.denialRate * 1000) / 10 })),
+        outstandingInvoices: report.outstandingInvoices.slice(0, OUTSTANDING_LIMIT),
+        outstandingInvoiceCount: report.outstandingInvoices.length
+      };
+    }
+  }
+];
@@ -0,0 +1,178 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+import { Drug, DrugInteraction, InteractionCheckResult, InteractionFinding, InteractionSeverity, Patient } from "../types";
+import { getPatient } from "./patientRegistry";
+import { AgentTool } from "./tools";
+
+// --- Hospital Formulary ---
+
+export const FORMULARY: Drug[] = [
+  { id: 'amoxicillin', name: 'Amoxicillin', brandNames: ['Amoxsan', 'Kalmoxillin'], strengths: ['250 mg', '500 mg'], form: 'capsule', drugClass: 'penicillin', allergyClasses: ['penicillin', 'beta-lactam'] },
+  { id: 'ampicillin', name: 'Ampicillin', brandNames: ['Binotal'], strengths: ['500 mg', '1 g'], form: 'injection', drugClass: 'penicillin', allergyClasses: ['penicillin', 'beta-lactam'] },
+  { id: 'cefadroxil', name: 'Cefadroxil', brandNames: ['Lapicef'], strengths: ['500 mg'], form: 'capsule', drugClass: 'cephalosporin', allergyClasses: ['cephalosporin'] },
+  { id: 'ciprofloxacin', name: 'Ciprofloxacin', brandNames: ['Baquinor'], strengths: ['250 mg', '500 mg'], form: 'tablet', drugClass: 'fluoroquinolone', allergyClasses: ['fluoroquinolone'] },
+  { id: 'clarithromycin', name: 'Clarithromycin', brandNames: ['Abbotic'], strengths: ['250 mg', '500 mg'], form: 'tablet', drugClass: 'macrolide', allergyClasses: ['macrolide'] },
+  { id: 'paracetamol', name: 'Paracetamol', brandNames: ['Panadol', 'Sanmol', 'Acetaminophen'], strengths: ['500 mg', '650 mg'], form: 'tablet', drugClass: 'analgesic', allergyClasses: [] },
+  { id: 'ibuprofen', name: 'Ibuprofen', brandNames: ['Proris'], strengths: ['200 mg', '400 mg'], form: 'tablet', drugClass: 'nsaid', allergyClasses: ['nsaid'] },
+  { id: 'aspirin', name: 'Aspirin', brandNames: ['Aspilets', 'Acetylsalicylic acid'], strengths: ['80 mg', '100 mg'], form: 'tablet', drugClass: 'nsaid', allergyClasses: ['nsaid', 'salicylate'] },
+  { id: 'warfarin', name: 'Warfarin', brandNames: ['Simarc'], strengths: ['2 mg', '5 mg'], form: 'tablet', drugClass: 'anticoagulant', allergyClasses: [] },
+  { id: 'clopidogrel', name: 'Clopidogrel', brandNames: ['Plavix'], strengths: ['75 mg'], form: 'tablet', drugClass: 'antiplatelet', allergyClasses: [] },
+  { id: 'omeprazole', name: 'Omeprazole', brandNames: ['Losec'], strengths: ['20 mg'], form: 'capsule', drugClass: 'proton pump inhibitor', allergyClasses: [] },
+  { id: 'metformin', name: 'Metformin', brandNames: ['Glucophage'], strengths: ['500 mg', '850 mg'], form: 'tablet', drugClass: 'biguanide', allergyClasses: [] },
+  { id: 'amlodipine', name: 'Amlodipine', brandNames: ['Norvask'], strengths: ['5 mg', '10 mg'], form: 'tablet', drugClass: 'calcium channel blocker', allergyClasses: [] },
+  { id: 'simvastatin', name: 'Simvastatin', brandNames: ['Zocor'], strengths: ['10 mg', '20 mg'], form: 'tablet', drugClass: 'statin', allergyClasses: [] },
+  { id: 'lisinopril', name: 'Lisinopril', brandNames: ['Noperten'], strengths: ['5 mg', '10 mg'], form: 'tablet', drugClass: 'ace inhibitor', allergyClasses: ['ace inhibitor'] },
+  { id: 'spironolactone', name: 'Spironolactone', brandNames: ['Letonal'], strengths: ['25 mg'], form: 'tablet', drugClass: 'potassium-sparing diuretic', allergyClasses: [] },
+];
+
+export const INTERACTIONS: DrugInteraction[] = [
+  { drugs: ['simvastatin', 'clarithromycin'], severity: 'CONTRAINDICATED', description: 'Strong CYP3A4 inhibition raises simvastatin levels; risk of rhabdomyolysis.' },
+  { drugs: ['warfarin', 'aspirin'], severity: 'MAJOR', description: 'Additive bleeding risk.' },
+  { drugs: ['warfarin', 'ibuprofen'], severity: 'MAJOR', description: 'NSAIDs increase bleeding risk and may raise INR.' },
+  { drugs: ['warfarin', 'ciprofloxacin'], severity: 'MAJOR', description: 'Ciprofloxacin potentiates warfarin; monitor INR closely.' },
+  { drugs: ['warfarin', 'clarithromycin'], severity: 'MAJOR', description: 'Clarithromycin potentiates warfarin; monitor INR closely.' },
+  { drugs: ['lisinopril', 'spironolactone'], severity: 'MAJOR', description: 'Risk of severe hyperkalaemia.' },
+  { drugs: ['clopidogrel', 'omeprazole'], severity: 'MODERATE', description: 'Omeprazole reduces activation of clopidogrel.' },
+  { drugs: ['aspirin', 'ibuprofen'], severity: 'MODERATE', description: 'Ibuprofen may blunt the antiplatelet effect of aspirin; additive GI risk.' },
+  { drugs: ['ibuprofen', 'lisinopril'], severity: 'MODERATE', description: 'NSAIDs reduce antihypertensive effect and may impair renal function.' },
+  { drugs: ['amlodipine', 'simvastatin'], severity: 'MODERATE', description: 'Limit simvastatin to 20 mg daily with amlodipine.' },
+  { drugs: ['metformin', 'ciprofloxacin'], severity: 'MINOR', description: 'Possible dysglycaemia; monitor blood glucose.' },
+];
+
+// Allergy classes with partial cross-sensitivity to another drug class
+const CROSS_REACTIVITY: Array<{ allergy: string; drugClass: string; severity: InteractionSeverity }> = [
+  { allergy: 'penicillin', drugClass: 'cephalosporin', severity: 'MODERATE' },
+];
+
+/**
+ * Drugs whose generic name, brand name or class contains the query.
+ */
+export const searchFormulary = (query: string): Drug[] => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  return FORMULARY.filter(drug =>
+    [drug.name, drug.drugClass, ...drug.brandNames].some(name => name.toLowerCase().includes(needle))
+  );
+};
+
+// --- Interaction Checker ---
+
+/**
+ * Resolves free text such as "Amoxicillin 500 mg" or a brand name to a formulary entry.
+ */
+export const resolveDrug = (text: string): Drug | undefined => {
+  const needle = text.toLowerCase();
+  return FORMULARY.find(drug =>
+    [drug.name, ...drug.brandNames].some(name => needle.includes(name.toLowerCase()))
+  );
+};
+
+const findAllergyConflict = (drug: Drug, allergies: string[]): InteractionFinding | undefined => {
+  for (const allergy of allergies.map(a => a.toLowerCase())) {
+    if (drug.allergyClasses.some(cls => allergy.includes(cls)) || allergy.includes(drug.name.toLowerCase())) {
+      return {
+        kind: 'ALLERGY',
+        severity: 'CONTRAINDICATED',
+        drugs: [drug.name],
+        description: `Patient is allergic to ${allergy}; ${drug.name} belongs to the ${drug.drugClass} class.`
+      };
+    }
+    const cross = CROSS_REACTIVITY.find(c => allergy.includes(c.allergy) && c.drugClass === drug.drugClass);
+    if (cross) {
+      return {
+        kind: 'ALLERGY',
+        severity: cross.severity,
+        drugs: [drug.name],
+        description: `Possible cross-sensitivity: ${allergy} allergy and ${drug.drugClass} ${drug.name}.`
+      };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Deterministically screens proposed drugs against each other, the patient's
+ * current medications and allergies. Allergy and contraindicated findings block
+ * the prescription; major and moderate findings flag it.
+ */
+export const checkInteractions = (
+  proposed: string[],
+  patient?: Pick<Patient, 'allergies' | 'currentMedications'>
+): InteractionCheckResult => {
+  const findings: InteractionFinding[] = [];
+  const proposedDrugs: Drug[] = [];
+
+  for (const text of proposed) {
+    const drug = resolveDrug(text);
+    if (drug) {
+      proposedDrugs.push(drug);
+    } else {
+      findings.push({ kind: 'NOT_IN_FORMULARY', severity: 'CONTRAINDICATED', drugs: [text], description: `${text} is not in the hospital formulary.` });
+    }
+  }
+
+  const currentDrugs = (patient?.currentMedications ?? [])
+    .map(resolveDrug)
+    .filter((drug): drug is Drug => !!drug);
+
+  for (const drug of proposedDrugs) {
+    const allergyConflict = findAllergyConflict(drug, patient?.allergies ?? []);
+    if (allergyConflict) findings.push(allergyConflict);
+  }
+
+  // Every proposed drug against every other proposed drug and every current medication
+  const pairs = new Set<string>();
+  proposedDrugs.forEach((drug, i) => {
+    const others = [...proposedDrugs.slice(i + 1), ...currentDrugs];
+    for (const other of others) {
+      const key = [drug.id, other.id].sort().join('|');
+      if (drug.id === other.id || pairs.has(key)) continue;
+      pairs.add(key);
+      const interaction = INTERACTIONS.find(x => x.drugs.includes(drug.id) && x.drugs.includes(other.id));
+      if (interaction) {
+        findings.push({
+          kind: 'DRUG_DRUG',
+          severity: interaction.severity,
+          drugs: [drug.name, other.name],
+          description: interaction.description
+        });
+      }
+    }
+  });
+
+  const blocked = findings.some(f => f.severity === 'CONTRAINDICATED');
+  const flagged = !blocked && findings.some(f => f.severity === 'MAJOR' || f.severity === 'MODERATE');
+  return { findings, blocked, flagged };
+};
+
+export const checkInteractionsForPatient = async (mrn: string, proposed: string[]): Promise<InteractionCheckResult> => {
+  const patient = await getPatient(mrn);
+  return checkInteractions(proposed, patient);
+};
+
+// --- Agent Tools ---
+
+const checkInteractionsFunction: FunctionDeclaration = {
+  name: 'check_interactions',
+  description: 'Screens proposed drugs against the hospital formulary, the patient\'s current medications and allergies. Call before issuing any PRESCRIPTION.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      mrn: { type: Type.STRING, description: 'Medical Record Number of the patient' },
+      drugs: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Proposed drugs, e.g. "Amoxicillin 500 mg"' }
+    },
+    required: ['mrn', 'drugs']
+  }
+};
+
+export const formularyTools: AgentTool[] = [
+  {
+    declaration: checkInteractionsFunction,
+    handler: async (args) => {
+      const patient = await getPatient(args.mrn);
+      return {
+        patient: { mrn: patient.mrn, allergies: patient.allergies, currentMedications: patient.currentMedications ?? [] },
+        ...checkInteractions(args.drugs ?? [], patient)
+      };
+    }
+  }
+];
@@ -0,0 +1,118 @@
+import { FunctionCall, GenerateContentResponse, GoogleGenAI, Part } from "@google/genai";
+import { GroundingSource } from "../types";
+import { LlmAuthError, LlmMalformedResponseError, LlmSafetyBlockError } from "./errors";
+import { GenerationRequest, GenerationResult, LlmProvider, RoutingRequest, SummaryRequest } from "./llmProvider";
+
+const MODEL = "gemini-2.5-flash";
+
+/**
+ * Helper to get the AI client safely.
+ * Initializes lazily to prevent "process is not defined" crashes during initial page load.
+ */
+const getAiClient = () => {
+  // NOTE: apiKey must be provided via process.env.API_KEY
+  // If the app crashes here, check your .env file or Netlify Environment Variables.
+  if (!process.env.API_KEY) throw new LlmAuthError('No Gemini API key is configured (API_KEY).');
+  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return ai;
+}
+
+// Finish reasons meaning the answer was withheld by a filter rather than completed
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII'];
+
+/**
+ * Throws LlmSafetyBlockError when the prompt or the candidate was blocked.
+ * Streams report this per chunk, so it is checked on every one.
+ */
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new LlmSafetyBlockError(String(blockReason));
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (finishReason && BLOCKED_FINISH_REASONS.includes(String(finishReason))) throw new LlmSafetyBlockError(String(finishReason));
+};
+
+/**
+ * Gemini-backed provider. This is the production path.
+ */
+export const createGeminiProvider = (): LlmProvider => ({
+  id: 'gemini',
+
+  async route({ systemInstruction, userQuery, signal }: RoutingRequest): Promise<string> {
+    const ai = getAiClient();
+    const response = await ai.models.generateContent({
+      model: MODEL,
+      contents: userQuery,
+      config: {
+        systemInstruction,
+        responseMimeType: "application/json",
+        temperature: 0.1, // Low temperature for deterministic routing
+        abortSignal: signal
+      }
+    });
+
+    assertNotBlocked(response);
+    const text = response.text;
+    if (!text) throw new LlmMalformedResponseError("No response from Orchestrator");
+    return text;
+  },
+
+  async summarize({ systemInstruction, text, signal }: SummaryRequest): Promise<string> {
+    const ai = getAiClient();
+    const response = await ai.models.generateContent({
+      model: MODEL,
+      contents: text,
+      config: { systemInstruction, temperature: 0.2, abortSignal: signal }
+    });
+    assertNotBlocked(response);
+    return response.text?.trim() ?? '';
+  },
+
+  async generate({ systemInstruction, contents, tools, temperature, signal, onTextDelta }: GenerationRequest): Promise<GenerationResult> {
+    const ai = getAiClient();
+    const stream = await ai.models.generateContentStream({
+      model: MODEL,
+      contents,
+      config: {
+        systemInstruction,
+        tools,
+        temperature: temperature ?? 0.3,
+        abortSignal: signal
+      }
+    });
+
+    // Chunks are merged back into a single model turn
+    const parts: Part[] = [];
+    const functionCalls: FunctionCall[] = [];
+    const groundingSources: GroundingSource[] = [];
+    let text = '';
+
+    for await (const chunk of stream) {
+      assertNotBlocked(chunk);
+      const candidate = chunk.candidates?.[0];
+      for (const part of candidate?.content?.parts ?? []) {
+        parts.push(part);
+        if (part.functionCall) functionCalls.push(part.functionCall);
+        // Read text from the parts: chunk.text logs an SDK warning on function-call chunks
+        if (typeof part.text === 'string' && !part.thought) {
+          text += part.text;
+          onTextDelta?.(part.text);
+        }
+      }
+
+      // Check for Grounding (Search Results)
+      for (const chunkRef of candidate?.groundingMetadata?.groundingChunks ?? []) {
+        const web = chunkRef.web;
+        if (web?.uri && !groundingSources.some(source => source.uri === web.uri)) {
+          groundingSources.push({ uri: web.uri, title: web.title ?? web.uri });
+        }
+      }
+    }
+
+    return {
+      content: { role: 'model', parts },
+      text: functionCalls.length > 0 ? '' : text,
+      functionCalls,
+      groundingSources
+    };
+  }
+});
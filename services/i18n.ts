@@ -0,0 +1,671 @@
+import { ApprovalReason, ApprovalStatus, DocumentStatus, DocumentType, RevenueCategory, StaffRole, WardClass } from "../types";
+import { LlmErrorCategory } from "./errors";
+
+// --- Languages ---
+
+export type Language = 'id' | 'en';
+
+export const LANGUAGES: { code: Language; label: string }[] = [
+  { code: 'id', label: 'Bahasa Indonesia' },
+  { code: 'en', label: 'English' }
+];
+
+// What agents are told to reply in
+const LANGUAGE_NAMES: Record<Language, string> = { id: 'Bahasa Indonesia', en: 'English' };
+
+// Intl locales; en-GB keeps day-month-year dates, which staff read more easily than US order
+const LOCALES: Record<Language, string> = { id: 'id-ID', en: 'en-GB' };
+
+const STORAGE_KEY = 'mho-language';
+
+// --- Catalogs ---
+// English is the reference catalog: every key must exist in it, and the
+// Indonesian catalog is typed against it so a missing translation fails the build.
+
+const en = {
+  // App shell
+  'app.welcome': "Welcome to MHO (Manage Hospital Operations). I am the Central Manager. How can I assist you today? (e.g., 'Check my insurance claim', 'Schedule a cardiology appointment')",
+  'app.you': 'You',
+  'app.step': 'Step {index} of {total}',
+  'app.planIntro': "I've split this request into {count} steps:",
+  'app.routeUnsure': "I'm only {confidence} sure this is the right route ({reasoning}). Please confirm or pick an agent.",
+  'app.routeFailed': "I couldn't route this request automatically. Which agent should handle it?",
+  'app.routeUnavailable': "I couldn't route this request, and none of the agents that could handle it are available to your role.",
+  'app.runPlan': 'Run this plan',
+  'app.cancelledAfter': 'Request cancelled. {count} action(s) completed before the cancellation remain in effect; see the steps above.',
+  'app.cancelledNothing': 'Request cancelled. No actions were taken.',
+  'app.requestFailed': 'I apologize, but this request failed unexpectedly. Please try again.',
+  'app.pinnedBanner': 'Pinned to {agent}; automatic routing is off.',
+  'app.unpin': 'Unpin',
+  'app.placeholder': "Type request (e.g., 'Generate invoice for surgery')",
+  'app.wait': 'Please wait...',
+  'app.send': 'Send',
+  'app.cancel': 'Cancel',
+  'app.complianceNote': 'MHO System ensures all data handling complies with HIPAA standards. Identities are role-masked.',
+  'app.sources': 'Sources',
+  'app.summaryNote': 'Earlier turns are sent to the agents as a summary',
+  'app.panel.calendar': 'Calendar',
+  'app.panel.documents': 'Documents',
+  'app.panel.approvals': 'Approvals',
+  'app.panel.finance': 'Finance',
+  'app.panel.beds': 'Beds',
+  'app.panel.lookup': 'Lookup',
+
+  // FHIR exchange
+  'fhir.export': 'Export bundle',
+  'fhir.import': 'Import bundle',
+  'fhir.exported': 'Exported {count} resources.',
+  'fhir.importing': 'Importing…',
+  'fhir.summary': '{created} created, {matched} matched, {conflicts} conflicts, {skipped} skipped, {failed} failed',
+  'fhir.importResult': 'FHIR import of {file}: {summary}.',
+  'fhir.importFailed': 'Import failed: {message}',
+
+  // Sign-in
+  'login.intro': 'Staff sign-in. Access is limited by role and every action is audited.',
+  'login.username': 'Username',
+  'login.password': 'Password',
+  'login.signIn': 'Sign in',
+  'login.signingIn': 'Signing in...',
+  'login.failed': 'Sign-in failed.',
+  'login.demo': 'Demo accounts: {accounts} (password: demo123)',
+
+  // Sidebar
+  'sidebar.tagline': 'Hospital Operations Agent',
+  'sidebar.signOut': 'Sign out',
+  'sidebar.language': 'Language',
+  'sidebar.agents': 'Active Sub-Agents',
+  'sidebar.pinned': 'Pinned',
+  'sidebar.autoRouting': 'Auto-routing',
+  'sidebar.notAvailable': 'Not available to {role}',
+  'sidebar.routeAutomatically': 'Route requests automatically',
+  'sidebar.unpinAgent': 'Unpin and route automatically',
+  'sidebar.pinAgent': 'Pin: send every request to this agent',
+  'sidebar.liveActivity': 'Live Activity',
+  'sidebar.lastRequest': 'Last Request',
+  'sidebar.auditLog': 'Audit Log (Immutable)',
+  'sidebar.chainCheck': 'SHA-256 hash chain verification',
+  'sidebar.chainVerified': '⛓ CHAIN VERIFIED',
+  'sidebar.chainBroken': '⚠ TAMPERING DETECTED',
+  'sidebar.exportAudit': 'Export for auditors',
+  'sidebar.idle': 'System idle. Waiting for requests...',
+  'sidebar.footer': 'Powered by Gemini 2.5 Flash | Compliance Mode Active',
+
+  'agent.orchestrator': 'Central Manager',
+  'agent.admission': 'Patient Admission',
+  'agent.scheduling': 'Scheduling',
+  'agent.pharmacy': 'Pharmacy',
+  'agent.billing': 'Billing & RCM',
+
+  'role.FRONT_DESK': 'Front Desk',
+  'role.NURSE': 'Nurse',
+  'role.PHARMACIST': 'Pharmacist',
+  'role.DOCTOR': 'Doctor',
+  'role.BILLING_CLERK': 'Billing Clerk',
+  'role.AUDITOR': 'Auditor',
+  'role.FINANCE_SUPERVISOR': 'Finance Supervisor',
+
+  // Progress
+  'progress.routingFailed': 'Routing failed; choose an agent',
+  'progress.routed': 'Routed to {agent}',
+  'progress.planned': 'Planned {count} steps: {agents}',
+  'progress.confidence': '{route} ({confidence}% confident)',
+  'progress.stepStarted': 'Step {index}/{total}: {agent}',
+  'progress.stepFinished': 'Step {id} {status}',
+  'progress.toolStarted': 'Running {tool}',
+  'progress.toolFinished': '{tool} finished',
+  'progress.toolFailed': '{tool} failed',
+
+  'status.COMPLETED': 'completed',
+  'status.FAILED': 'failed',
+  'status.SKIPPED': 'skipped',
+
+  // Sessions
+  'session.label': 'Session',
+  'session.new': 'New',
+  'session.open': 'Open',
+  'session.delete': 'Delete',
+  'session.confirmDelete': 'Delete the session "{title}"? This cannot be undone.',
+  'session.encrypted': 'Sessions are encrypted with AES-GCM under a key derived from your password',
+  'session.mrnPlaceholder': "Patient MRN (optional, ties the session to the patient's encounter)",
+  'session.general': 'General',
+  'session.admitted': 'admitted {date}',
+
+  // Calendar
+  'calendar.title': 'Appointment Calendar',
+  'calendar.allDepartments': 'All departments',
+  'calendar.free': 'Free',
+  'calendar.noDoctors': 'No doctors on duty for this date.',
+
+  // Document archive
+  'archive.title': 'Document Archive',
+  'archive.mrn': 'Patient MRN',
+  'archive.allTypes': 'All types',
+  'archive.empty': 'No documents found.',
+  'archive.reason': 'Reason for change',
+  'archive.amend': 'Amend',
+  'archive.saveAmendment': 'Save amendment',
+  'archive.void': 'Void',
+
+  // Approvals
+  'approval.title': 'Approval Queue',
+  'approval.pending': 'Pending',
+  'approval.decided': 'Decided',
+  'approval.empty': 'No requests.',
+  'approval.awaiting': 'AWAITING APPROVAL · {id}',
+  'approval.requestedBy': 'Requested by {user} · {time}',
+  'approval.decidedBy': '{status} by {user} · {time}',
+  'approval.status.PENDING': 'Pending',
+  'approval.status.APPROVED': 'Approved',
+  'approval.status.REJECTED': 'Rejected',
+  'approval.reason.INVOICE_TOTAL': 'Total {value} is at or above the {threshold} threshold',
+  'approval.reason.PRESCRIPTION_QUANTITY': 'Quantity {value} is above the {threshold} unit threshold',
+  'approval.reason.INTERACTION_WARNING': 'Interaction warning: {warning}',
+  'approval.note': 'Note (required to reject)',
+  'approval.edit': 'Edit',
+  'approval.approve': 'Approve',
+  'approval.reject': 'Reject',
+  'approval.ownRequest': 'You requested this; another approver must decide it.',
+  'approval.issued': 'Issued as {number}',
+  'approval.edited': 'Edited: {fields}',
+  'approval.lineDescription': 'Description',
+  'approval.thresholds': 'Thresholds',
+  'approval.threshold.invoiceTotal': 'Invoice total (Rp)',
+  'approval.threshold.prescriptionQuantity': 'Prescription quantity',
+  'approval.threshold.holdFlaggedPrescriptions': 'Hold prescriptions with interaction warnings',
+  'approval.saveThresholds': 'Save thresholds',
+
+  // Financial dashboard
+  'finance.title': 'Revenue Cycle',
+  'finance.exportCsv': 'Export CSV',
+  'finance.asOf': 'As of {date}',
+  'finance.months': 'Last {count} months',
+  'finance.outstanding': 'Outstanding A/R',
+  'finance.daysInAr': 'Days in A/R',
+  'finance.daysInArHint': 'Outstanding A/R divided by average daily revenue over {days} days ({amount} per day)',
+  'finance.aging': 'A/R Aging',
+  'finance.bucket': '{bucket} days',
+  'finance.denials': 'Denial Rate by Payer',
+  'finance.noClaims': 'No claims yet.',
+  'finance.revenue': 'Revenue by Department',
+  'finance.noRevenue': 'No revenue in this period.',
+  'finance.outstandingInvoices': 'Outstanding Invoices',
+  'finance.noOutstanding': 'No outstanding invoices.',
+  'finance.ageDays': '{days} days',
+  'finance.dept.OUTPATIENT': 'Outpatient',
+  'finance.dept.INPATIENT': 'Inpatient',
+  'finance.dept.PHARMACY': 'Pharmacy',
+  'finance.dept.LABORATORY': 'Laboratory',
+  'finance.dept.PROCEDURE': 'Procedures',
+
+  // Bed occupancy
+  'beds.title': 'Bed Occupancy',
+  'beds.summary': '{occupied}/{capacity} occupied',
+  'beds.full': 'FULL',
+  'beds.free': 'Free',
+  'beds.since': 'since {time}',
+  'ward.class.VIP': 'VIP',
+  'ward.class.KELAS_1': 'Class 1',
+  'ward.class.KELAS_2': 'Class 2',
+  'ward.class.KELAS_3': 'Class 3',
+  'ward.class.ICU': 'ICU',
+
+  // Outbox and offline lookup
+  'outbox.queued': 'queued, sends when online',
+  'outbox.sending': 'sending…',
+  'outbox.sent': 'sent from outbox',
+  'outbox.queue': 'Queue',
+  'outbox.placeholder': 'Offline: requests are queued and sent when the connection returns',
+  'outbox.offlineBanner': 'Offline. Patient lookup, the calendar, documents and beds still work from local data; {count} request(s) queued.',
+  'outbox.replaying': 'Back online: sending {count} queued request(s)…',
+  'outbox.retrying': 'The model service could not be reached; {count} queued request(s) will be retried shortly.',
+  'lookup.patients': 'Patients',
+  'lookup.formulary': 'Formulary',
+  'lookup.patientPlaceholder': 'Name, MRN or NIK',
+  'lookup.drugPlaceholder': 'Generic or brand name',
+  'lookup.search': 'Search',
+  'lookup.noPatients': 'No matching patients.',
+  'lookup.noDrugs': 'No matching drugs.',
+  'lookup.born': 'born {date}',
+  'lookup.admitted': 'Admitted · {ward} {bed}',
+  'lookup.discharged': 'Discharged {date}',
+  'lookup.registered': 'Outpatient',
+  'lookup.allergies': 'Allergies: {list}',
+  'lookup.localNote': 'Searches the records stored on this device; works offline.',
+
+  // Documents
+  'doc.type.INVOICE': 'Invoice',
+  'doc.type.PRESCRIPTION': 'Prescription',
+  'doc.type.ADMISSION_FORM': 'Admission Form',
+  'doc.type.MEMO': 'Memo',
+  'doc.status.CURRENT': 'CURRENT',
+  'doc.status.SUPERSEDED': 'SUPERSEDED',
+  'doc.status.VOID': 'VOID',
+  'doc.number': 'No. {number}',
+  'doc.notFiled': 'Not filed',
+  'doc.version': 'Version {version}',
+  'doc.item': 'Item',
+  'doc.qty': 'Qty',
+  'doc.unitPrice': 'Unit Price',
+  'doc.amount': 'Amount',
+  'doc.signedAt': 'Jakarta, {date}',
+  'doc.nameAndStamp': '(name and stamp)',
+  'doc.complianceNote': 'COMPLIANCE NOTE:',
+  'doc.downloadPdf': 'Download PDF',
+  'doc.print': 'Print',
+  'doc.page': 'Page {page} of {pages}',
+
+  'signatory.INVOICE': 'Billing Officer',
+  'signatory.PRESCRIPTION': 'Prescriber',
+  'signatory.ADMISSION_FORM': 'Admitting Officer',
+  'signatory.MEMO': 'Issued by',
+
+  'field.invoice_no': 'Invoice No.',
+  'field.mrn': 'MRN',
+  'field.patient_name': 'Patient',
+  'field.date': 'Date',
+  'field.subtotal': 'Subtotal',
+  'field.tax_ppn': 'PPN',
+  'field.total': 'Total',
+  'field.amount_paid': 'Amount Paid',
+  'field.status': 'Status',
+  'field.drug': 'Drug',
+  'field.dose': 'Dose',
+  'field.frequency': 'Frequency',
+  'field.quantity': 'Quantity',
+  'field.prescriber': 'Prescriber',
+  'field.instructions': 'Instructions',
+  'field.interaction_warning': 'Interaction Warning',
+  'field.ward': 'Ward',
+  'field.diagnosis': 'Diagnosis',
+  'field.admission_date': 'Admission Date',
+  'field.attending_doctor': 'Attending Doctor',
+  'field.recipient': 'To',
+  'field.subject': 'Subject',
+  'field.body': 'Body',
+
+  // Fixed agent replies
+  'reply.accessDenied': 'Access denied: your role ({role}) is not authorised to use {agent}. The request has been logged.',
+  'reply.notSignedIn': 'not signed in',
+  'reply.documentReady': 'I have generated the {type} document for you. Please verify the details below.',
+  'reply.documentPending': 'The {type} needs approval and has been queued as {id}. It takes effect once an authorised approver signs it off in the Approvals panel.',
+  'reply.stepLimit': 'I stopped after reaching the maximum number of steps for this request. Please review the actions taken and refine your request.',
+  'reply.processed': 'Processed request.',
+  'error.llm.AUTH': "The AI service rejected this system's credentials, so the request was not processed. Please ask an administrator to check the API key configuration.",
+  'error.llm.RATE_LIMIT': 'The AI service is over its usage quota or receiving too many requests. Please wait a minute and try again.',
+  'error.llm.TIMEOUT': 'The AI service took too long to answer. Please try again; a shorter request may help.',
+  'error.llm.MALFORMED_RESPONSE': 'The AI service returned an answer that could not be read. Please try again or rephrase the request.',
+  'error.llm.SAFETY_BLOCK': "The AI service's safety filters blocked this request. Please rephrase it.",
+  'error.llm.UNAVAILABLE': 'The AI service cannot be reached right now. Please check the connection and try again.',
+  'error.llm.UNKNOWN': 'I encountered a system error processing your request. Please try again.',
+  'reply.stepSkipped': 'Skipped because step {id} ({agent}) did not complete.'
+} as const;
+
+export type MessageKey = keyof typeof en;
+
+const id: Record<MessageKey, string> = {
+  'app.welcome': "Selamat datang di MHO (Manage Hospital Operations). Saya Manajer Pusat. Ada yang bisa saya bantu hari ini? (mis. 'Cek klaim asuransi saya', 'Jadwalkan janji temu kardiologi')",
+  'app.you': 'Anda',
+  'app.step': 'Langkah {index} dari {total}',
+  'app.planIntro': 'Permintaan ini saya bagi menjadi {count} langkah:',
+  'app.routeUnsure': 'Saya hanya {confidence} yakin rute ini tepat ({reasoning}). Silakan konfirmasi atau pilih agen.',
+  'app.routeFailed': 'Saya tidak dapat merutekan permintaan ini secara otomatis. Agen mana yang harus menanganinya?',
+  'app.routeUnavailable': 'Saya tidak dapat merutekan permintaan ini, dan tidak ada agen yang dapat menanganinya yang tersedia untuk peran Anda.',
+  'app.runPlan': 'Jalankan rencana ini',
+  'app.cancelledAfter': 'Permintaan dibatalkan. {count} tindakan yang selesai sebelum pembatalan tetap berlaku; lihat langkah-langkah di atas.',
+  'app.cancelledNothing': 'Permintaan dibatalkan. Tidak ada tindakan yang dilakukan.',
+  'app.requestFailed': 'Mohon maaf, permintaan ini gagal secara tak terduga. Silakan coba lagi.',
+  'app.pinnedBanner': 'Disematkan ke {agent}; perutean otomatis nonaktif.',
+  'app.unpin': 'Lepas sematan',
+  'app.placeholder': "Ketik permintaan (mis. 'Buat faktur untuk operasi')",
+  'app.wait': 'Mohon tunggu...',
+  'app.send': 'Kirim',
+  'app.cancel': 'Batal',
+  'app.complianceNote': 'Sistem MHO memastikan seluruh penanganan data mematuhi standar HIPAA. Identitas disamarkan sesuai peran.',
+  'app.sources': 'Sumber',
+  'app.summaryNote': 'Percakapan sebelumnya dikirim ke agen sebagai ringkasan',
+  'app.panel.calendar': 'Kalender',
+  'app.panel.documents': 'Dokumen',
+  'app.panel.approvals': 'Persetujuan',
+  'app.panel.finance': 'Keuangan',
+  'app.panel.beds': 'Tempat Tidur',
+  'app.panel.lookup': 'Cari',
+
+  'fhir.export': 'Ekspor bundle',
+  'fhir.import': 'Impor bundle',
+  'fhir.exported': '{count} resource diekspor.',
+  'fhir.importing': 'Mengimpor…',
+  'fhir.summary': '{created} dibuat, {matched} cocok, {conflicts} konflik, {skipped} dilewati, {failed} gagal',
+  'fhir.importResult': 'Impor FHIR {file}: {summary}.',
+  'fhir.importFailed': 'Impor gagal: {message}',
+
+  'login.intro': 'Masuk staf. Akses dibatasi sesuai peran dan setiap tindakan diaudit.',
+  'login.username': 'Nama pengguna',
+  'login.password': 'Kata sandi',
+  'login.signIn': 'Masuk',
+  'login.signingIn': 'Sedang masuk...',
+  'login.failed': 'Gagal masuk.',
+  'login.demo': 'Akun demo: {accounts} (kata sandi: demo123)',
+
+  'sidebar.tagline': 'Agen Operasional Rumah Sakit',
+  'sidebar.signOut': 'Keluar',
+  'sidebar.language': 'Bahasa',
+  'sidebar.agents': 'Sub-Agen Aktif',
+  'sidebar.pinned': 'Disematkan',
+  'sidebar.autoRouting': 'Rute otomatis',
+  'sidebar.notAvailable': 'Tidak tersedia untuk {role}',
+  'sidebar.routeAutomatically': 'Rutekan permintaan secara otomatis',
+  'sidebar.unpinAgent': 'Lepas sematan dan rutekan otomatis',
+  'sidebar.pinAgent': 'Sematkan: kirim setiap permintaan ke agen ini',
+  'sidebar.liveActivity': 'Aktivitas Langsung',
+  'sidebar.lastRequest': 'Permintaan Terakhir',
+  'sidebar.auditLog': 'Log Audit (Tidak Dapat Diubah)',
+  'sidebar.chainCheck': 'Verifikasi rantai hash SHA-256',
+  'sidebar.chainVerified': '⛓ RANTAI TERVERIFIKASI',
+  'sidebar.chainBroken': '⚠ TERDETEKSI MANIPULASI',
+  'sidebar.exportAudit': 'Ekspor untuk auditor',
+  'sidebar.idle': 'Sistem siaga. Menunggu permintaan...',
+  'sidebar.footer': 'Didukung Gemini 2.5 Flash | Mode Kepatuhan Aktif',
+
+  'agent.orchestrator': 'Manajer Pusat',
+  'agent.admission': 'Pendaftaran Pasien',
+  'agent.scheduling': 'Penjadwalan',
+  'agent.pharmacy': 'Farmasi',
+  'agent.billing': 'Penagihan & RCM',
+
+  'role.FRONT_DESK': 'Front Desk',
+  'role.NURSE': 'Perawat',
+  'role.PHARMACIST': 'Apoteker',
+  'role.DOCTOR': 'Dokter',
+  'role.BILLING_CLERK': 'Staf Penagihan',
+  'role.AUDITOR': 'Auditor',
+  'role.FINANCE_SUPERVISOR': 'Supervisor Keuangan',
+
+  'progress.routingFailed': 'Perutean gagal; pilih agen',
+  'progress.routed': 'Dirutekan ke {agent}',
+  'progress.planned': 'Rencana {count} langkah: {agents}',
+  'progress.confidence': '{route} (keyakinan {confidence}%)',
+  'progress.stepStarted': 'Langkah {index}/{total}: {agent}',
+  'progress.stepFinished': 'Langkah {id} {status}',
+  'progress.toolStarted': 'Menjalankan {tool}',
+  'progress.toolFinished': '{tool} selesai',
+  'progress.toolFailed': '{tool} gagal',
+
+  'status.COMPLETED': 'selesai',
+  'status.FAILED': 'gagal',
+  'status.SKIPPED': 'dilewati',
+
+  'session.label': 'Sesi',
+  'session.new': 'Baru',
+  'session.open': 'Buka',
+  'session.delete': 'Hapus',
+  'session.confirmDelete': 'Hapus sesi "{title}"? Tindakan ini tidak dapat dibatalkan.',
+  'session.encrypted': 'Sesi dienkripsi dengan AES-GCM menggunakan kunci yang diturunkan dari kata sandi Anda',
+  'session.mrnPlaceholder': 'No. RM pasien (opsional, mengaitkan sesi dengan kunjungan pasien)',
+  'session.general': 'Umum',
+  'session.admitted': 'dirawat {date}',
+
+  'calendar.title': 'Kalender Janji Temu',
+  'calendar.allDepartments': 'Semua poli',
+  'calendar.free': 'Kosong',
+  'calendar.noDoctors': 'Tidak ada dokter bertugas pada tanggal ini.',
+
+  'archive.title': 'Arsip Dokumen',
+  'archive.mrn': 'No. RM pasien',
+  'archive.allTypes': 'Semua jenis',
+  'archive.empty': 'Tidak ada dokumen.',
+  'archive.reason': 'Alasan perubahan',
+  'archive.amend': 'Ubah',
+  'archive.saveAmendment': 'Simpan perubahan',
+  'archive.void': 'Batalkan',
+
+  'approval.title': 'Antrean Persetujuan',
+  'approval.pending': 'Menunggu',
+  'approval.decided': 'Diputuskan',
+  'approval.empty': 'Tidak ada permintaan.',
+  'approval.awaiting': 'MENUNGGU PERSETUJUAN · {id}',
+  'approval.requestedBy': 'Diajukan oleh {user} · {time}',
+  'approval.decidedBy': '{status} oleh {user} · {time}',
+  'approval.status.PENDING': 'Menunggu',
+  'approval.status.APPROVED': 'Disetujui',
+  'approval.status.REJECTED': 'Ditolak',
+  'approval.reason.INVOICE_TOTAL': 'Total {value} mencapai atau melebihi batas {threshold}',
+  'approval.reason.PRESCRIPTION_QUANTITY': 'Jumlah {value} melebihi batas {threshold} unit',
+  'approval.reason.INTERACTION_WARNING': 'Peringatan interaksi: {warning}',
+  'approval.note': 'Catatan (wajib bila menolak)',
+  'approval.edit': 'Ubah',
+  'approval.approve': 'Setujui',
+  'approval.reject': 'Tolak',
+  'approval.ownRequest': 'Anda yang mengajukan ini; penyetuju lain harus memutuskannya.',
+  'approval.issued': 'Diterbitkan sebagai {number}',
+  'approval.edited': 'Diubah: {fields}',
+  'approval.lineDescription': 'Uraian',
+  'approval.thresholds': 'Batas Persetujuan',
+  'approval.threshold.invoiceTotal': 'Total faktur (Rp)',
+  'approval.threshold.prescriptionQuantity': 'Jumlah resep',
+  'approval.threshold.holdFlaggedPrescriptions': 'Tahan resep dengan peringatan interaksi',
+  'approval.saveThresholds': 'Simpan batas',
+
+  'finance.title': 'Siklus Pendapatan',
+  'finance.exportCsv': 'Ekspor CSV',
+  'finance.asOf': 'Per {date}',
+  'finance.months': '{count} bulan terakhir',
+  'finance.outstanding': 'Piutang Belum Tertagih',
+  'finance.daysInAr': 'Hari Piutang',
+  'finance.daysInArHint': 'Piutang dibagi rata-rata pendapatan harian selama {days} hari ({amount} per hari)',
+  'finance.aging': 'Umur Piutang',
+  'finance.bucket': '{bucket} hari',
+  'finance.denials': 'Tingkat Penolakan per Penjamin',
+  'finance.noClaims': 'Belum ada klaim.',
+  'finance.revenue': 'Pendapatan per Unit',
+  'finance.noRevenue': 'Tidak ada pendapatan pada periode ini.',
+  'finance.outstandingInvoices': 'Faktur Belum Lunas',
+  'finance.noOutstanding': 'Tidak ada faktur yang belum lunas.',
+  'finance.ageDays': '{days} hari',
+  'finance.dept.OUTPATIENT': 'Rawat Jalan',
+  'finance.dept.INPATIENT': 'Rawat Inap',
+  'finance.dept.PHARMACY': 'Farmasi',
+  'finance.dept.LABORATORY': 'Laboratorium',
+  'finance.dept.PROCEDURE': 'Tindakan',
+
+  'beds.title': 'Okupansi Tempat Tidur',
+  'beds.summary': '{occupied}/{capacity} terisi',
+  'beds.full': 'PENUH',
+  'beds.free': 'Kosong',
+  'beds.since': 'sejak {time}',
+  'ward.class.VIP': 'VIP',
+  'ward.class.KELAS_1': 'Kelas 1',
+  'ward.class.KELAS_2': 'Kelas 2',
+  'ward.class.KELAS_3': 'Kelas 3',
+  'ward.class.ICU': 'ICU',
+
+  // Outbox and offline lookup
+  'outbox.queued': 'antre, dikirim saat online',
+  'outbox.sending': 'mengirim…',
+  'outbox.sent': 'terkirim dari antrean',
+  'outbox.queue': 'Antrekan',
+  'outbox.placeholder': 'Offline: permintaan diantrekan dan dikirim saat koneksi kembali',
+  'outbox.offlineBanner': 'Offline. Pencarian pasien, kalender, dokumen dan tempat tidur tetap berjalan dari data lokal; {count} permintaan dalam antrean.',
+  'outbox.replaying': 'Kembali online: mengirim {count} permintaan dalam antrean…',
+  'outbox.retrying': 'Layanan model tidak dapat dihubungi; {count} permintaan dalam antrean akan dicoba lagi sebentar lagi.',
+  'lookup.patients': 'Pasien',
+  'lookup.formulary': 'Formularium',
+  'lookup.patientPlaceholder': 'Nama, No. RM atau NIK',
+  'lookup.drugPlaceholder': 'Nama generik atau merek',
+  'lookup.search': 'Cari',
+  'lookup.noPatients': 'Tidak ada pasien yang cocok.',
+  'lookup.noDrugs': 'Tidak ada obat yang cocok.',
+  'lookup.born': 'lahir {date}',
+  'lookup.admitted': 'Dirawat · {ward} {bed}',
+  'lookup.discharged': 'Pulang {date}',
+  'lookup.registered': 'Rawat jalan',
+  'lookup.allergies': 'Alergi: {list}',
+  'lookup.localNote': 'Mencari data yang tersimpan di perangkat ini; tetap berjalan saat offline.',
+
+  'doc.type.INVOICE': 'Faktur',
+  'doc.type.PRESCRIPTION': 'Resep',
+  'doc.type.ADMISSION_FORM': 'Formulir Rawat Inap',
+  'doc.type.MEMO': 'Memo',
+  'doc.status.CURRENT': 'BERLAKU',
+  'doc.status.SUPERSEDED': 'DIGANTIKAN',
+  'doc.status.VOID': 'BATAL',
+  'doc.number': 'No. {number}',
+  'doc.notFiled': 'Belum diarsipkan',
+  'doc.version': 'Versi {version}',
+  'doc.item': 'Uraian',
+  'doc.qty': 'Jml',
+  'doc.unitPrice': 'Harga Satuan',
+  'doc.amount': 'Jumlah',
+  'doc.signedAt': 'Jakarta, {date}',
+  'doc.nameAndStamp': '(nama dan cap)',
+  'doc.complianceNote': 'CATATAN KEPATUHAN:',
+  'doc.downloadPdf': 'Unduh PDF',
+  'doc.print': 'Cetak',
+  'doc.page': 'Halaman {page} dari {pages}',
+
+  'signatory.INVOICE': 'Petugas Penagihan',
+  'signatory.PRESCRIPTION': 'Dokter Penulis Resep',
+  'signatory.ADMISSION_FORM': 'Petugas Pendaftaran',
+  'signatory.MEMO': 'Diterbitkan oleh',
+
+  'field.invoice_no': 'No. Faktur',
+  'field.mrn': 'No. RM',
+  'field.patient_name': 'Pasien',
+  'field.date': 'Tanggal',
+  'field.subtotal': 'Subtotal',
+  'field.tax_ppn': 'PPN',
+  'field.total': 'Total',
+  'field.amount_paid': 'Jumlah Dibayar',
+  'field.status': 'Status',
+  'field.drug': 'Obat',
+  'field.dose': 'Dosis',
+  'field.frequency': 'Frekuensi',
+  'field.quantity': 'Jumlah',
+  'field.prescriber': 'Dokter',
+  'field.instructions': 'Aturan Pakai',
+  'field.interaction_warning': 'Peringatan Interaksi',
+  'field.ward': 'Bangsal',
+  'field.diagnosis': 'Diagnosis',
+  'field.admission_date': 'Tanggal Masuk',
+  'field.attending_doctor': 'Dokter Penanggung Jawab',
+  'field.recipient': 'Kepada',
+  'field.subject': 'Perihal',
+  'field.body': 'Isi',
+
+  'reply.accessDenied': 'Akses ditolak: peran Anda ({role}) tidak berwenang menggunakan {agent}. Permintaan ini telah dicatat.',
+  'reply.notSignedIn': 'belum masuk',
+  'reply.documentReady': 'Dokumen {type} telah saya buat. Mohon periksa detail di bawah ini.',
+  'reply.documentPending': '{type} ini memerlukan persetujuan dan telah dimasukkan ke antrean sebagai {id}. Dokumen berlaku setelah disetujui oleh pihak berwenang di panel Persetujuan.',
+  'reply.stepLimit': 'Saya berhenti karena batas jumlah langkah untuk permintaan ini tercapai. Mohon tinjau tindakan yang telah dilakukan dan perjelas permintaan Anda.',
+  'reply.processed': 'Permintaan telah diproses.',
+  'error.llm.AUTH': 'Layanan AI menolak kredensial sistem ini, sehingga permintaan tidak diproses. Mohon minta administrator memeriksa konfigurasi API key.',
+  'error.llm.RATE_LIMIT': 'Kuota layanan AI habis atau permintaan terlalu banyak. Mohon tunggu sebentar lalu coba lagi.',
+  'error.llm.TIMEOUT': 'Layanan AI terlalu lama menjawab. Silakan coba lagi; permintaan yang lebih singkat mungkin membantu.',
+  'error.llm.MALFORMED_RESPONSE': 'Layanan AI memberikan jawaban yang tidak dapat dibaca. Silakan coba lagi atau ubah kalimat permintaan.',
+  'error.llm.SAFETY_BLOCK': 'Filter keamanan layanan AI memblokir permintaan ini. Mohon ubah kalimat permintaan.',
+  'error.llm.UNAVAILABLE': 'Layanan AI tidak dapat dihubungi saat ini. Mohon periksa koneksi lalu coba lagi.',
+  'error.llm.UNKNOWN': 'Terjadi kesalahan sistem saat memproses permintaan Anda. Silakan coba lagi.',
+  'reply.stepSkipped': 'Dilewati karena langkah {id} ({agent}) tidak selesai.'
+};
+
+const CATALOGS: Record<Language, Record<MessageKey, string>> = { en, id };
+
+// --- Current Language ---
+
+const readStoredLanguage = (): Language => {
+  try {
+    const stored = globalThis.localStorage?.getItem(STORAGE_KEY);
+    if (stored === 'id' || stored === 'en') return stored;
+  } catch {
+    // Storage can be blocked (private mode); fall back to the default
+  }
+  return 'id';
+};
+
+let current: Language = readStoredLanguage();
+const listeners = new Set<(language: Language) => void>();
+
+export const getLanguage = (): Language => current;
+
+export const setLanguage = (language: Language) => {
+  if (language === current) return;
+  current = language;
+  try {
+    globalThis.localStorage?.setItem(STORAGE_KEY, language);
+  } catch {
+    // Not persisted; the choice still holds until reload
+  }
+  listeners.forEach(listener => listener(language));
+};
+
+/**
+ * Calls the listener whenever the language changes. Returns an unsubscribe
+ * function, so it can be returned straight from a React effect.
+ */
+export const subscribeLanguage = (listener: (language: Language) => void) => {
+  listeners.add(listener);
+  return () => { listeners.delete(listener); };
+};
+
+/**
+ * Looks up a message in the current language and fills `{name}` placeholders.
+ */
+export const t = (key: MessageKey, params: Record<string, string | number> = {}): string =>
+  CATALOGS[current][key].replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+
+/** Like `t`, for keys built at runtime (e.g. `field.${key}`); undefined when the catalog has no entry. */
+export const tryTranslate = (key: string, params?: Record<string, string | number>): string | undefined =>
+  key in en ? t(key as MessageKey, params) : undefined;
+
+export const languageName = (): string => LANGUAGE_NAMES[current];
+
+export const roleLabel = (role: StaffRole) => t(`role.${role}`);
+export const documentTypeLabel = (type: DocumentType) => t(`doc.type.${type}`);
+export const documentStatusLabel = (status: DocumentStatus) => t(`doc.status.${status}`);
+export const approvalStatusLabel = (status: ApprovalStatus) => t(`approval.status.${status}`);
+export const revenueCategoryLabel = (category: RevenueCategory) => t(`finance.dept.${category}`);
+export const wardClassLabel = (wardClass: WardClass) => t(`ward.class.${wardClass}`);
+export const llmErrorMessage = (category: LlmErrorCategory) => t(`error.llm.${category}`);
+
+export const approvalReasonLabel = (reason: ApprovalReason): string => {
+  switch (reason.code) {
+    case 'INVOICE_TOTAL': return t('approval.reason.INVOICE_TOTAL', { value: formatRupiah(reason.value), threshold: formatRupiah(reason.threshold) });
+    case 'PRESCRIPTION_QUANTITY': return t('approval.reason.PRESCRIPTION_QUANTITY', { value: reason.value, threshold: reason.threshold });
+    case 'INTERACTION_WARNING': return t('approval.reason.INTERACTION_WARNING', { warning: reason.warning });
+  }
+};
+
+/**
+ * The instruction appended to every system prompt, so agents answer staff in
+ * the interface language.
+ */
+export const languageInstruction = (): string => `
+      Language: Write every reply to staff in ${languageName()}. Keep drug names, ICD codes, MRNs, document numbers and tokens such as [[NAME_1]] exactly as written.`;
+
+// --- Formatting ---
+
+// Intl separates "Rp" from the amount with a no-break space, which the PDF fonts cannot show
+const plainSpaces = (text: string) => text.replace(/[\u00a0\u202f]/g, ' ');
+
+// A bare YYYY-MM-DD is a calendar date; parsing it as UTC would shift it a day west of Greenwich
+const toDate = (value: string | Date) =>
+  value instanceof Date ? value : new Date(/^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00` : value);
+
+/** Rupiah without decimals: "Rp 1.250.000" in Indonesian, "IDR 1,250,000" in English. */
+export const formatRupiah = (amount: number): string =>
+  plainSpaces(new Intl.NumberFormat(LOCALES[current], { style: 'currency', currency: 'IDR', maximumFractionDigits: 0 }).format(amount));
+
+/** "17 Agustus 2025" / "17 August 2025"; unparseable input is returned as is. */
+export const formatDate = (value: string | Date): string => {
+  const date = toDate(value);
+  if (Number.isNaN(date.getTime())) return String(value);
+  return plainSpaces(date.toLocaleDateString(LOCALES[current], { day: 'numeric', month: 'long', year: 'numeric' }));
+};
+
+export const formatDateTime = (value: string | Date): string => {
+  const date = toDate(value);
+  if (Number.isNaN(date.getTime())) return String(value);
+  return plainSpaces(date.toLocaleString(LOCALES[current], { day: 'numeric', month: 'short', year: 'numeric', hour: '2-digit', minute: '2-digit' }));
+};
+
+export const formatTime = (value: string | Date): string =>
+  plainSpaces(toDate(value).toLocaleTimeString(LOCALES[current], { hour: '2-digit', minute: '2-digit' }));
@@ -0,0 +1,312 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+import { Drug, GeneratedDocumentData, InventoryItem, StockAlert, StockMovement } from "../types";
+import { DomainError } from "./errors";
+import { FORMULARY, resolveDrug } from "./formulary";
+import { createCollection } from "./storage";
+import { AgentTool } from "./tools";
+
+const inventory = createCollection<InventoryItem>('inventory');
+const ledger = createCollection<StockMovement>('stock_ledger');
+
+// Batches expiring within this window raise a near-expiry alert
+const NEAR_EXPIRY_DAYS = 30;
+const DEFAULT_REORDER_THRESHOLD = 50;
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+const addDays = (days: number) => {
+  const d = new Date();
+  d.setDate(d.getDate() + days);
+  return d.toISOString().slice(0, 10);
+};
+
+let seeded: Promise<void> | null = null;
+
+/**
+ * Opening stock for a fresh install. Expiry dates are relative to the
+ * seeding day; one Paracetamol batch is deliberately close to expiry.
+ */
+const ensureSeeded = () => {
+  if (!seeded) {
+    seeded = (async () => {
+      const existing = await inventory.getAll();
+      if (existing.length > 0) return;
+      const receivedAt = new Date().toISOString();
+      await Promise.all(FORMULARY.map((drug, i) => inventory.put(drug.id, {
+        drugId: drug.id,
+        reorderThreshold: DEFAULT_REORDER_THRESHOLD,
+        batches: [
+          { batchNumber: `${drug.id.slice(0, 3).toUpperCase()}-OPEN-01`, expiryDate: addDays(drug.id === 'paracetamol' ? 20 : 365 + i * 10), quantityOnHand: 200, receivedAt },
+        ]
+      })));
+    })();
+  }
+  return seeded;
+};
+
+const requireDrug = (text: string): Drug => {
+  const drug = resolveDrug(text ?? '');
+  if (!drug) throw new DomainError(`${text} is not in the hospital formulary.`);
+  return drug;
+};
+
+const usableBatches = (item: InventoryItem) =>
+  item.batches.filter(b => b.quantityOnHand > 0 && b.expiryDate >= today());
+
+const quantityOnHand = (item: InventoryItem) =>
+  usableBatches(item).reduce((sum, b) => sum + b.quantityOnHand, 0);
+
+const getItem = async (drug: Drug): Promise<InventoryItem> => {
+  await ensureSeeded();
+  return (await inventory.get(drug.id)) ?? { drugId: drug.id, reorderThreshold: DEFAULT_REORDER_THRESHOLD, batches: [] };
+};
+
+const recordMovement = async (movement: Omit<StockMovement, 'id' | 'timestamp'>) => {
+  const entry: StockMovement = {
+    ...movement,
+    id: `MOV-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+    timestamp: new Date().toISOString()
+  };
+  await ledger.put(entry.id, entry);
+  return entry;
+};
+
+// --- Alerts ---
+
+const alertsFor = (drug: Drug, item: InventoryItem): StockAlert[] => {
+  const alerts: StockAlert[] = [];
+  const onHand = quantityOnHand(item);
+  if (onHand <= item.reorderThreshold) {
+    alerts.push({
+      kind: 'LOW_STOCK',
+      drugId: drug.id,
+      drugName: drug.name,
+      message: `${drug.name} stock is ${onHand} units, at or below the reorder threshold of ${item.reorderThreshold}.`
+    });
+  }
+  const horizon = addDays(NEAR_EXPIRY_DAYS);
+  for (const batch of usableBatches(item).filter(b => b.expiryDate <= horizon)) {
+    alerts.push({
+      kind: 'NEAR_EXPIRY',
+      drugId: drug.id,
+      drugName: drug.name,
+      message: `${drug.name} batch ${batch.batchNumber} (${batch.quantityOnHand} units) expires on ${batch.expiryDate}.`
+    });
+  }
+  return alerts;
+};
+
+export const getStockAlerts = async (): Promise<StockAlert[]> => {
+  await ensureSeeded();
+  const items = await inventory.getAll();
+  return items.flatMap(item => {
+    const drug = FORMULARY.find(d => d.id === item.drugId);
+    return drug ? alertsFor(drug, item) : [];
+  });
+};
+
+export const alertToMemo = (alert: StockAlert): GeneratedDocumentData => ({
+  type: 'MEMO',
+  title: alert.kind === 'LOW_STOCK' ? `Low Stock Alert: ${alert.drugName}` : `Near-Expiry Alert: ${alert.drugName}`,
+  content: {
+    alert: alert.kind,
+    drug: alert.drugName,
+    detail: alert.message,
+    action: alert.kind === 'LOW_STOCK' ? 'Raise a purchase order with the supplier.' : 'Prioritise dispensing or arrange return/destruction.'
+  },
+  footer: 'Generated automatically by the pharmacy inventory ledger.'
+});
+
+// --- Stock Operations ---
+
+export const getStockLevel = async (drugText: string) => {
+  const drug = requireDrug(drugText);
+  const item = await getItem(drug);
+  return {
+    drug: drug.name,
+    quantityOnHand: quantityOnHand(item),
+    reorderThreshold: item.reorderThreshold,
+    batches: item.batches,
+    alerts: alertsFor(drug, item)
+  };
+};
+
+export const receiveStock = async (input: {
+  drug: string;
+  batchNumber: string;
+  expiryDate: string;
+  quantity: number;
+  reference?: string;
+}): Promise<{ item: InventoryItem; alerts: StockAlert[] }> => {
+  const drug = requireDrug(input.drug);
+  const quantity = Number(input.quantity);
+  if (!Number.isInteger(quantity) || quantity <= 0) throw new DomainError('Received quantity must be a positive whole number.');
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.expiryDate ?? '')) throw new DomainError('Expiry date must be in YYYY-MM-DD format.');
+  if (input.expiryDate < today()) throw new DomainError(`Batch ${input.batchNumber} is already expired and cannot be received.`);
+
+  const item = await getItem(drug);
+  const existing = item.batches.find(b => b.batchNumber === input.batchNumber);
+  if (existing && existing.expiryDate !== input.expiryDate) {
+    throw new DomainError(`Batch ${input.batchNumber} is already on file with expiry ${existing.expiryDate}.`);
+  }
+
+  const updated: InventoryItem = {
+    ...item,
+    batches: existing
+      ? item.batches.map(b => b === existing ? { ...b, quantityOnHand: b.quantityOnHand + quantity } : b)
+      : [...item.batches, { batchNumber: input.batchNumber, expiryDate: input.expiryDate, quantityOnHand: quantity, receivedAt: new Date().toISOString() }]
+  };
+  await inventory.put(drug.id, updated);
+  await recordMovement({ kind: 'RECEIVE', drugId: drug.id, batchNumber: input.batchNumber, quantity, reference: input.reference });
+  return { item: updated, alerts: alertsFor(drug, updated) };
+};
+
+/**
+ * Dispenses first-expiry-first-out across non-expired batches.
+ * Fails without touching stock if the full quantity is not available.
+ */
+export const dispenseMedication = async (input: {
+  drug: string;
+  quantity: number;
+  patientMrn?: string;
+  reference?: string;
+}): Promise<{ movements: StockMovement[]; alerts: StockAlert[] }> => {
+  const drug = requireDrug(input.drug);
+  const quantity = Number(input.quantity);
+  if (!Number.isInteger(quantity) || quantity <= 0) throw new DomainError('Dispensed quantity must be a positive whole number.');
+
+  const item = await getItem(drug);
+  const available = quantityOnHand(item);
+  if (available < quantity) {
+    throw new DomainError(`Insufficient stock: ${quantity} units of ${drug.name} requested, ${available} available.`);
+  }
+
+  let remaining = quantity;
+  const taken = new Map<string, number>();
+  for (const batch of usableBatches(item).sort((a, b) => a.expiryDate.localeCompare(b.expiryDate))) {
+    if (remaining === 0) break;
+    const take = Math.min(batch.quantityOnHand, remaining);
+    taken.set(batch.batchNumber, take);
+    remaining -= take;
+  }
+
+  const updated: InventoryItem = {
+    ...item,
+    batches: item.batches.map(b => taken.has(b.batchNumber) ? { ...b, quantityOnHand: b.quantityOnHand - taken.get(b.batchNumber)! } : b)
+  };
+  await inventory.put(drug.id, updated);
+
+  const movements: StockMovement[] = [];
+  for (const [batchNumber, qty] of taken) {
+    movements.push(await recordMovement({
+      kind: 'DISPENSE', drugId: drug.id, batchNumber, quantity: qty, patientMrn: input.patientMrn, reference: input.reference
+    }));
+  }
+  return { movements, alerts: alertsFor(drug, updated) };
+};
+
+/**
+ * Puts dispensed units back into the batches they were taken from, e.g. when
+ * the prescription is voided. A movement already returned is skipped.
+ */
+export const returnDispensed = async (movementIds: string[], reference?: string): Promise<StockMovement[]> => {
+  const all = await ledger.getAll();
+  const alreadyReturned = new Set(all.filter(m => m.kind === 'RETURN').map(m => m.reverses));
+  const returned: StockMovement[] = [];
+
+  for (const dispensed of all.filter(m => m.kind === 'DISPENSE' && movementIds.includes(m.id) && !alreadyReturned.has(m.id))) {
+    const item = await inventory.get(dispensed.drugId);
+    if (!item) continue;
+    await inventory.put(item.drugId, {
+      ...item,
+      batches: item.batches.map(b => b.batchNumber === dispensed.batchNumber ? { ...b, quantityOnHand: b.quantityOnHand + dispensed.quantity } : b)
+    });
+    returned.push(await recordMovement({
+      kind: 'RETURN',
+      drugId: dispensed.drugId,
+      batchNumber: dispensed.batchNumber,
+      quantity: dispensed.quantity,
+      patientMrn: dispensed.patientMrn,
+      reference,
+      reverses: dispensed.id
+    }));
+  }
+  return returned;
+};
+
+export const listStockMovements = async (drugId?: string): Promise<StockMovement[]> => {
+  const all = await ledger.getAll();
+  return all
+    .filter(m => !drugId || m.drugId === drugId)
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+};
+
+// --- Agent Tools ---
+
+const checkStockFunction: FunctionDeclaration = {
+  name: 'check_stock',
+  description: 'Returns quantity on hand, batches with expiry dates and active alerts for a formulary drug.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      drug: { type: Type.STRING, description: 'Drug name, e.g. Amoxicillin' }
+    },
+    required: ['drug']
+  }
+};
+
+const dispenseMedicationFunction: FunctionDeclaration = {
+  name: 'dispense_medication',
+  description: 'Dispenses stock outside a prescription flow (e.g. ward top-up). Prescriptions decrement stock automatically; do not dispense them twice.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      drug: { type: Type.STRING },
+      quantity: { type: Type.INTEGER, description: 'Units to dispense' },
+      patientMrn: { type: Type.STRING, description: 'Optional MRN of the receiving patient' },
+      reference: { type: Type.STRING, description: 'Ward request or order reference' }
+    },
+    required: ['drug', 'quantity']
+  }
+};
+
+const receiveStockFunction: FunctionDeclaration = {
+  name: 'receive_stock',
+  description: 'Records a supplier delivery of a batch into pharmacy stock.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      drug: { type: Type.STRING },
+      batchNumber: { type: Type.STRING },
+      expiryDate: { type: Type.STRING, description: 'YYYY-MM-DD' },
+      quantity: { type: Type.INTEGER },
+      reference: { type: Type.STRING, description: 'Delivery note number' }
+    },
+    required: ['drug', 'batchNumber', 'expiryDate', 'quantity']
+  }
+};
+
+export const inventoryTools: AgentTool[] = [
+  {
+    declaration: checkStockFunction,
+    handler: async (args) => getStockLevel(args.drug)
+  },
+  {
+    declaration: dispenseMedicationFunction,
+    handler: async (args, context) => {
+      const result = await dispenseMedication({ drug: args.drug, quantity: args.quantity, patientMrn: args.patientMrn, reference: args.reference });
+      context.alerts.push(...result.alerts.map(alertToMemo));
+      return result;
+    }
+  },
+  {
+    declaration: receiveStockFunction,
+    handler: async (args, context) => {
+      const result = await receiveStock({
+        drug: args.drug, batchNumber: args.batchNumber, expiryDate: args.expiryDate, quantity: args.quantity, reference: args.reference
+      });
+      context.alerts.push(...result.alerts.map(alertToMemo));
+      return result;
+    }
+  }
+];
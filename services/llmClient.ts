@@ -0,0 +1,28 @@
+import { createGeminiProvider } from "./geminiProvider";
+import { LlmProvider, LlmProviderId } from "./llmProvider";
+import { createMockProvider } from "./mockProvider";
+import { RetryPolicy, withResilience } from "./resilientProvider";
+
+let activeProvider: LlmProvider | null = null;
+
+/**
+ * Resolves the configured provider (LLM_PROVIDER env, defaults to Gemini),
+ * wrapped with timeouts and retries. Created lazily so a missing API key does
+ * not break page load.
+ */
+export const getLlmProvider = (): LlmProvider => {
+  if (!activeProvider) {
+    const configured = (process.env.LLM_PROVIDER || 'gemini') as LlmProviderId;
+    activeProvider = withResilience(configured === 'mock' ? createMockProvider() : createGeminiProvider());
+  }
+  return activeProvider;
+};
+
+/**
+ * Overrides the active provider, e.g. a mock with custom fixtures in automated
+ * tests. Calls still go through timeouts and retries, on the default policy
+ * unless a test passes one without backoff.
+ */
+export const setLlmProvider = (provider: LlmProvider, policy?: RetryPolicy) => {
+  activeProvider = withResilience(provider, policy);
+};
@@ -0,0 +1,57 @@
+import { Content, FunctionCall, Tool } from "@google/genai";
+import { GroundingSource } from "../types";
+
+// --- Provider Contract ---
+
+export type LlmProviderId = 'gemini' | 'mock';
+
+/**
+ * Routing call made by the Orchestrator.
+ * Providers return the raw JSON text; parsing stays in agentService.
+ */
+export interface RoutingRequest {
+  systemInstruction: string;
+  userQuery: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Tool-calling generation made by a Sub-Agent.
+ */
+export interface GenerationRequest {
+  systemInstruction: string;
+  contents: Content[];
+  tools: Tool[];
+  temperature?: number;
+  signal?: AbortSignal;
+  // Called with each text fragment as it streams in; the result still carries the full text
+  onTextDelta?: (delta: string) => void;
+}
+
+/**
+ * Plain-text summary of earlier conversation turns, used to bound history.
+ */
+export interface SummaryRequest {
+  systemInstruction: string;
+  text: string;
+  signal?: AbortSignal;
+}
+
+export interface GenerationResult {
+  // The model turn as returned, appended verbatim to the conversation on the next step
+  content: Content;
+  text: string;
+  functionCalls: FunctionCall[];
+  groundingSources: GroundingSource[];
+}
+
+/**
+ * Providers may throw anything; the client wraps them (`services/resilientProvider.ts`)
+ * so callers only ever see typed LlmErrors or RequestCancelledError.
+ */
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  route(request: RoutingRequest): Promise<string>;
+  generate(request: GenerationRequest): Promise<GenerationResult>;
+  summarize(request: SummaryRequest): Promise<string>;
+}
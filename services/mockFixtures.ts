@@ -0,0 +1,113 @@
+import { FunctionCall } from "@google/genai";
+import { AgentType, GroundingSource } from "../types";
+
+/**
+ * One scripted model reply. A turn either answers with text,
+ * requests tool calls, or both.
+ */
+export interface MockTurn {
+  text?: string;
+  functionCalls?: FunctionCall[];
+  groundingSources?: GroundingSource[];
+}
+
+/**
+ * A scripted conversation for the offline provider.
+ * The first fixture whose keyword appears in the user request wins;
+ * each tool round-trip advances to the next turn.
+ */
+export interface MockFixture {
+  id: string;
+  keywords: string[];
+  agent: AgentType;
+  reasoning: string;
+  turns: MockTurn[];
+}
+
+export const DEFAULT_MOCK_FIXTURES: MockFixture[] = [
+  {
+    id: 'admission-form',
+    keywords: ['admit', 'admission', 'register', 'rawat inap'],
+    agent: AgentType.ADMISSION,
+    reasoning: 'Request concerns patient registration or admission.',
+    turns: [
+      { functionCalls: [{ name: 'find_patient', args: { query: 'Budi Santoso' } }] },
+      { functionCalls: [{ name: 'admit_patient', args: { mrn: 'MRN-000001', ward: 'KELAS_1', diagnosis: 'Observation' } }] },
+      {
+        functionCalls: [{
+          name: 'generate_document',
+          args: {
+            docType: 'ADMISSION_FORM',
+            title: 'Inpatient Admission Form',
+            fields: { mrn: 'MRN-000001', patient_name: 'Budi Santoso', ward: 'Bangsal Melati, bed K1-201-A', diagnosis: 'Observation' },
+            complianceNote: 'PHI handled under HIPAA minimum-necessary standard.'
+          }
+        }]
+      },
+      { text: 'Admission form drafted for Budi Santoso. Please verify the details below.' }
+    ]
+  },
+  {
+    id: 'appointment',
+    keywords: ['appointment', 'schedule', 'reschedule', 'jadwal', 'doctor'],
+    agent: AgentType.SCHEDULING,
+    reasoning: 'Request concerns appointments or doctor availability.',
+    turns: [
+      { functionCalls: [{ name: 'list_available_slots', args: { date: '2027-01-04', department: 'Cardiology' } }] },
+      { text: 'Cardiology has free slots on Monday 4 January 2027 from 08:00 with dr. Andi Pratama, Sp.JP. Shall I book one?' }
+    ]
+  },
+  {
+    id: 'prescription',
+    keywords: ['prescription', 'resep', 'medication', 'drug', 'obat'],
+    agent: AgentType.PHARMACY,
+    reasoning: 'Request concerns medication or prescriptions.',
+    turns: [
+      { functionCalls: [{ name: 'check_interactions', args: { mrn: 'MRN-000001', drugs: ['Paracetamol 500 mg'] } }] },
+      {
+        functionCalls: [{
+          name: 'generate_document',
+          args: {
+            docType: 'PRESCRIPTION',
+            title: 'Outpatient Prescription',
+            fields: { mrn: 'MRN-000001', patient_name: 'Budi Santoso', drug: 'Paracetamol 500 mg', dose: '1 tablet', frequency: '3x daily', quantity: 15, prescriber: 'dr. Rudi Hartono, Sp.PD' },
+            complianceNote: 'Dispense only against a signed prescriber order.'
+          }
+        }]
+      },
+      { text: 'Prescription issued for Budi Santoso and 15 tablets dispensed from stock. No interactions found.' }
+    ]
+  },
+  {
+    id: 'invoice',
+    keywords: ['invoice', 'faktur', 'bill', 'claim', 'klaim', 'payment'],
+    agent: AgentType.BILLING,
+    reasoning: 'Request concerns invoices, claims or payments.',
+    turns: [
+      {
+        functionCalls: [{
+          name: 'issue_invoice',
+          args: {
+            patientMrn: 'MRN-000001',
+            lineItems: [
+              { description: 'Outpatient consultation', category: 'OUTPATIENT', quantity: 1, unitPrice: 350000 },
+              { description: 'Paracetamol 500 mg', category: 'PHARMACY', quantity: 15, unitPrice: 1000 }
+            ]
+          }
+        }]
+      },
+      { text: 'Invoice issued and posted to the ledger. Please verify the line items below.' }
+    ]
+  },
+];
+
+/** Used when no fixture keyword matches the request. */
+export const FALLBACK_MOCK_FIXTURE: MockFixture = {
+  id: 'fallback',
+  keywords: [],
+  agent: AgentType.ADMISSION,
+  reasoning: 'No specific intent detected; defaulting to front desk.',
+  turns: [
+    { text: 'This is the offline mock provider. No scripted fixture matched your request.' }
+  ]
+};
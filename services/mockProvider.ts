@@ -0,0 +1,122 @@
+import { Content } from "@google/genai";
+import { GenerationRequest, GenerationResult, LlmProvider, RoutingRequest, SummaryRequest } from "./llmProvider";
+import { throwIfCancelled } from "./errors";
+import { DEFAULT_MOCK_FIXTURES, FALLBACK_MOCK_FIXTURE, MockFixture } from "./mockFixtures";
+
+/**
+ * Locates the latest user-authored text. Tool results are also sent with
+ * role 'user' but carry no text part, so they are skipped.
+ */
+const findLastUserTextIndex = (contents: Content[]): number => {
+  for (let i = contents.length - 1; i >= 0; i--) {
+    const content = contents[i];
+    if (content.role === 'user' && content.parts?.some(part => typeof part.text === 'string')) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+const lastTextPart = (content: Content | undefined): string => {
+  const texts = (content?.parts ?? [])
+    .map(part => part.text)
+    .filter((text): text is string => typeof text === 'string');
+  return texts[texts.length - 1] ?? '';
+};
+
+const MOCK_SUMMARY_LINES = 12;
+
+// Clause boundaries in compound requests ("admit Budi, then issue his invoice")
+const CLAUSE_SEPARATOR = /,|;|\bthen\b|\band\b|\bdan\b|\blalu\b/i;
+
+/**
+ * Deterministic offline provider driven by scripted fixtures.
+ * Lets the full orchestrator -> sub-agent flow run without a Gemini key.
+ */
+export const createMockProvider = (fixtures: MockFixture[] = DEFAULT_MOCK_FIXTURES): LlmProvider => {
+  const matchFixture = (query: string): MockFixture => {
+    const normalized = query.toLowerCase();
+    return fixtures.find(fixture => fixture.keywords.some(keyword => normalized.includes(keyword)))
+      ?? FALLBACK_MOCK_FIXTURE;
+  };
+
+  return {
+    id: 'mock',
+
+    async route({ userQuery, signal }: RoutingRequest): Promise<string> {
+      throwIfCancelled(signal);
+
+      // One plan step per run of clauses that match the same agent; later steps build on the first
+      const steps: { id: number; agent: string; task: string; dependsOn: number[] }[] = [];
+      for (const clause of userQuery.split(CLAUSE_SEPARATOR).map(c => c.trim()).filter(Boolean)) {
+        const normalized = clause.toLowerCase();
+        const fixture = fixtures.find(f => f.keywords.some(keyword => normalized.includes(keyword)));
+        const last = steps[steps.length - 1];
+        if (last && (!fixture || fixture.agent === last.agent)) {
+          last.task += `, ${clause}`;
+        } else if (fixture) {
+          steps.push({ id: steps.length + 1, agent: fixture.agent, task: clause, dependsOn: last ? [steps[0].id] : [] });
+        }
+      }
+
+      if (steps.length > 1) {
+        return JSON.stringify({ reasoning: 'Request spans several departments; handling them in order.', confidence: 0.8, alternatives: [], steps });
+      }
+      const fixture = matchFixture(userQuery);
+      // Only the keyword-less fallback is unsure; it offers every other scripted agent
+      const unsure = fixture === FALLBACK_MOCK_FIXTURE;
+      return JSON.stringify({
+        reasoning: fixture.reasoning,
+        confidence: unsure ? 0.3 : 0.9,
+        alternatives: unsure ? [...new Set(fixtures.map(f => f.agent))].filter(agent => agent !== fixture.agent) : [],
+        steps: [{ id: 1, agent: fixture.agent, task: userQuery, dependsOn: [] }]
+      });
+    },
+
+    // Extractive stand-in: the opening of each of the latest lines
+    async summarize({ text, signal }: SummaryRequest): Promise<string> {
+      throwIfCancelled(signal);
+      return text.split('\n')
+        .map(line => line.trim())
+        .filter(Boolean)
+        .slice(-MOCK_SUMMARY_LINES)
+        .map(line => (line.length > 120 ? `${line.slice(0, 117)}...` : line))
+        .join(' ');
+    },
+
+    async generate({ contents, signal, onTextDelta }: GenerationRequest): Promise<GenerationResult> {
+      throwIfCancelled(signal);
+      const userIndex = findLastUserTextIndex(contents);
+      const fixture = matchFixture(lastTextPart(contents[userIndex]));
+
+      // Each model turn since the user spoke advances the script by one step
+      const turnIndex = contents.slice(userIndex + 1).filter(content => content.role === 'model').length;
+      const turn = fixture.turns[turnIndex];
+
+      const text = turn?.text ?? '';
+      const functionCalls = turn?.functionCalls ?? [];
+
+      // Replay the scripted text word by word, like a streamed response
+      if (onTextDelta) {
+        for (const delta of text.match(/\S+\s*|\s+/g) ?? []) {
+          await new Promise(resolve => setTimeout(resolve, 0));
+          throwIfCancelled(signal);
+          onTextDelta(delta);
+        }
+      }
+
+      return {
+        content: {
+          role: 'model',
+          parts: [
+            ...(text ? [{ text }] : []),
+            ...functionCalls.map(functionCall => ({ functionCall }))
+          ]
+        },
+        text,
+        functionCalls,
+        groundingSources: turn?.groundingSources ?? []
+      };
+    }
+  };
+};
@@ -0,0 +1,56 @@
+import { AgentType, ChatMessage } from "../types";
+import { LlmUnavailableError } from "./errors";
+
+// --- Connectivity ---
+
+export const isOnline = () => typeof navigator === 'undefined' || navigator.onLine;
+
+/**
+ * Calls the listener with the new state whenever the browser goes on- or
+ * offline. Returns an unsubscribe function, so it can be returned straight
+ * from a React effect.
+ */
+export const subscribeConnectivity = (listener: (online: boolean) => void) => {
+  const onOnline = () => listener(true);
+  const onOffline = () => listener(false);
+  window.addEventListener('online', onOnline);
+  window.addEventListener('offline', onOffline);
+  return () => {
+    window.removeEventListener('online', onOnline);
+    window.removeEventListener('offline', onOffline);
+  };
+};
+
+/**
+ * True when a failed request never reached the model: the browser is offline,
+ * or fetch rejected ("Failed to fetch", "NetworkError…", Safari's "Load failed"),
+ * whether raw or already classified as an unreachable model service. Server
+ * errors (5xx) are answers, so they do not count.
+ */
+export const isNetworkError = (error: unknown) =>
+  !isOnline() || ((error instanceof TypeError || error instanceof LlmUnavailableError) && /fetch|network|load failed/i.test(error.message));
+
+// A request that failed on the network while the browser still reports a connection
+// waits this long before it is replayed, so a dead link is not retried in a loop
+export const REPLAY_RETRY_MS = 30_000;
+
+// --- Queue ---
+
+// Queued requests are ordinary user messages in the session, so they are
+// encrypted at rest with it and replay in the order they were typed.
+
+export const queueRequest = (text: string, pinnedAgent?: AgentType): ChatMessage => ({
+  id: Date.now().toString(),
+  role: 'user',
+  text,
+  sender: 'User',
+  timestamp: new Date(),
+  outbox: { status: 'QUEUED', queuedAt: new Date().toISOString(), agent: pinnedAgent }
+});
+
+export const nextQueued = (messages: ChatMessage[]) => messages.find(m => m.outbox?.status === 'QUEUED');
+
+export const queuedCount = (messages: ChatMessage[]) => messages.filter(m => m.outbox?.status === 'QUEUED').length;
+
+// Queued and replaying requests are not yet part of the conversation the model sees
+export const isAwaitingReplay = (message: ChatMessage) => message.outbox?.status === 'QUEUED' || message.outbox?.status === 'SENDING';
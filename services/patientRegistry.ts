@@ -0,0 +1,304 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+import { Patient } from "../types";
+import { DomainError } from "./errors";
+import { createCollection } from "./storage";
+import { AgentTool } from "./tools";
+import { assignBed, releaseBed } from "./wards";
+
+const patients = createCollection<Patient>('patients');
+
+// Demo records so a fresh install has someone to look up
+const SEED_PATIENTS: Patient[] = [
+  {
+    mrn: 'MRN-000001',
+    fullName: 'Budi Santoso',
+    dateOfBirth: '1975-03-14',
+    sex: 'M',
+    nik: '3174011403750001',
+    phone: '081234567890',
+    address: 'Jl. Melati No. 12, Jakarta Selatan',
+    allergies: ['Penicillin'],
+    currentMedications: ['Warfarin 2 mg', 'Amlodipine 5 mg'],
+    status: 'REGISTERED',
+    registeredAt: '2026-01-05T08:00:00.000Z'
+  },
+  {
+    mrn: 'MRN-000002',
+    fullName: 'Siti Rahayu',
+    dateOfBirth: '1988-11-02',
+    sex: 'F',
+    nik: '3273024211880002',
+    phone: '085711223344',
+    address: 'Jl. Dago No. 45, Bandung',
+    allergies: [],
+    currentMedications: ['Simvastatin 20 mg'],
+    status: 'REGISTERED',
+    registeredAt: '2026-02-11T09:30:00.000Z'
+  }
+];
+
+let seeded: Promise<void> | null = null;
+
+const ensureSeeded = () => {
+  if (!seeded) {
+    seeded = (async () => {
+      const existing = await patients.getAll();
+      if (existing.length === 0) {
+        await Promise.all(SEED_PATIENTS.map(p => patients.put(p.mrn, p)));
+      }
+    })();
+  }
+  return seeded;
+};
+
+const nextMrn = (existing: Patient[]): string => {
+  const highest = existing.reduce((max, p) => Math.max(max, parseInt(p.mrn.replace(/\D/g, ''), 10) || 0), 0);
+  return `MRN-${String(highest + 1).padStart(6, '0')}`;
+};
+
+// --- Registry Operations ---
+
+export const listPatients = async (): Promise<Patient[]> => {
+  await ensureSeeded();
+  return patients.getAll();
+};
+
+export const getPatient = async (mrn: string): Promise<Patient> => {
+  await ensureSeeded();
+  const patient = await patients.get(mrn.trim().toUpperCase());
+  if (!patient) throw new DomainError(`No patient found with MRN ${mrn}.`);
+  return patient;
+};
+
+/**
+ * Matches MRN or NIK exactly, or any part of the patient's name.
+ */
+export const findPatients = async (query: string): Promise<Patient[]> => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+  const all = await listPatients();
+  return all.filter(p =>
+    p.mrn.toLowerCase() === needle ||
+    p.nik === needle ||
+    p.fullName.toLowerCase().includes(needle)
+  );
+};
+
+export const registerPatient = async (
+  input: Pick<Patient, 'fullName' | 'dateOfBirth' | 'sex'> & Partial<Pick<Patient, 'nik' | 'phone' | 'address' | 'allergies' | 'currentMedications'>>
+): Promise<Patient> => {
+  if (!input.fullName?.trim()) throw new DomainError('Patient full name is required.');
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(input.dateOfBirth ?? '')) {
+    throw new DomainError('Date of birth must be in YYYY-MM-DD format.');
+  }
+
+  const all = await listPatients();
+  if (input.nik && all.some(p => p.nik === input.nik)) {
+    throw new DomainError(`A patient with NIK ${input.nik} is already registered.`);
+  }
+
+  const patient: Patient = {
+    mrn: nextMrn(all),
+    fullName: input.fullName.trim(),
+    dateOfBirth: input.dateOfBirth,
+    sex: input.sex,
+    nik: input.nik,
+    phone: input.phone,
+    address: input.address,
+    allergies: input.allergies ?? [],
+    currentMedications: input.currentMedications ?? [],
+    status: 'REGISTERED',
+    registeredAt: new Date().toISOString()
+  };
+  await patients.put(patient.mrn, patient);
+  return patient;
+};
+
+/**
+ * Adds allergies not yet on the patient's record, ignoring letter case.
+ * Returns the ones that were added.
+ */
+export const addAllergies = async (mrn: string, allergies: string[]): Promise<string[]> => {
+  const patient = await getPatient(mrn);
+  const known = new Set(patient.allergies.map(a => a.toLowerCase()));
+  const added = [...new Set(allergies.map(a => a.trim()).filter(a => a && !known.has(a.toLowerCase())))];
+  if (added.length > 0) await patients.put(patient.mrn, { ...patient, allergies: [...patient.allergies, ...added] });
+  return added;
+};
+
+/**
+ * Admits a patient into a bed: the one given, or the first free bed in the
+ * ward. Refuses when the ward is full.
+ */
+export const admitPatient = async (mrn: string, details: { ward: string; diagnosis: string; bedId?: string }): Promise<Patient> => {
+  const patient = await getPatient(mrn);
+  if (patient.status === 'ADMITTED') {
+    throw new DomainError(`${patient.fullName} (${patient.mrn}) is already admitted to ${patient.ward}.`);
+  }
+  const { assignment, ward } = await assignBed({ patientMrn: patient.mrn, patientName: patient.fullName, ward: details.ward, bedId: details.bedId });
+  const updated: Patient = {
+    ...patient,
+    status: 'ADMITTED',
+    ward: ward.name,
+    bedId: assignment.bedId,
+    diagnosis: details.diagnosis,
+    admittedAt: new Date().toISOString(),
+    dischargedAt: undefined
+  };
+  await patients.put(updated.mrn, updated);
+  return updated;
+};
+
+export const dischargePatient = async (mrn: string): Promise<Patient> => {
+  const patient = await getPatient(mrn);
+  if (patient.status !== 'ADMITTED') {
+    throw new DomainError(`${patient.fullName} (${patient.mrn}) is not currently admitted.`);
+  }
+  if (patient.bedId) await releaseBed(patient.bedId);
+  const updated: Patient = { ...patient, status: 'DISCHARGED', bedId: undefined, dischargedAt: new Date().toISOString() };
+  await patients.put(updated.mrn, updated);
+  return updated;
+};
+
+/**
+ * Moves an admitted patient to another bed, in the same ward or another one.
+ * The new bed is taken before the old one is released.
+ */
+export const transferPatient = async (mrn: string, to: { ward?: string; bedId?: string }): Promise<{ patient: Patient; fromBed?: string }> => {
+  const patient = await getPatient(mrn);
+  if (patient.status !== 'ADMITTED') {
+    throw new DomainError(`${patient.fullName} (${patient.mrn}) is not currently admitted.`);
+  }
+  if (!to.ward && !to.bedId) throw new DomainError('A transfer needs a target ward or bed.');
+  if (to.bedId && to.bedId.trim().toUpperCase() === patient.bedId) {
+    throw new DomainError(`${patient.mrn} is already in bed ${patient.bedId}.`);
+  }
+
+  const { assignment, ward } = await assignBed({ patientMrn: patient.mrn, patientName: patient.fullName, ward: to.ward, bedId: to.bedId });
+  if (patient.bedId) await releaseBed(patient.bedId);
+  const updated: Patient = { ...patient, ward: ward.name, bedId: assignment.bedId };
+  await patients.put(updated.mrn, updated);
+  return { patient: updated, fromBed: patient.bedId };
+};
+
+// --- Agent Tools ---
+
+const registerPatientFunction: FunctionDeclaration = {
+  name: 'register_patient',
+  description: 'Registers a new patient and assigns a Medical Record Number (MRN). Search with find_patient first to avoid duplicates.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      fullName: { type: Type.STRING, description: 'Full legal name' },
+      dateOfBirth: { type: Type.STRING, description: 'Date of birth, YYYY-MM-DD' },
+      sex: { type: Type.STRING, enum: ['M', 'F'] },
+      nik: { type: Type.STRING, description: 'National ID number (NIK), 16 digits' },
+      phone: { type: Type.STRING },
+      address: { type: Type.STRING },
+      allergies: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Known allergies' },
+      currentMedications: { type: Type.ARRAY, items: { type: Type.STRING }, description: 'Medications the patient currently takes' }
+    },
+    required: ['fullName', 'dateOfBirth', 'sex']
+  }
+};
+
+const findPatientFunction: FunctionDeclaration = {
+  name: 'find_patient',
+  description: 'Looks up patients by MRN, NIK or name. Returns demographics, allergies and admission status.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      query: { type: Type.STRING, description: 'MRN, NIK or (part of) the patient name' }
+    },
+    required: ['query']
+  }
+};
+
+const admitPatientFunction: FunctionDeclaration = {
+  name: 'admit_patient',
+  description: 'Admits a registered patient as an inpatient and assigns a bed. Fails if the ward is full; check_bed_availability shows free beds.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      mrn: { type: Type.STRING, description: 'Medical Record Number' },
+      ward: { type: Type.STRING, description: 'Ward id, name or class (VIP, KELAS_1, KELAS_2, KELAS_3, ICU)' },
+      bedId: { type: Type.STRING, description: 'Specific free bed, e.g. ICU-01-B; omit to take the first free bed in the ward' },
+      diagnosis: { type: Type.STRING, description: 'Admitting diagnosis' }
+    },
+    required: ['mrn', 'ward', 'diagnosis']
+  }
+};
+
+const dischargePatientFunction: FunctionDeclaration = {
+  name: 'discharge_patient',
+  description: 'Discharges a currently admitted patient and releases their bed.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      mrn: { type: Type.STRING, description: 'Medical Record Number' }
+    },
+    required: ['mrn']
+  }
+};
+
+const transferPatientFunction: FunctionDeclaration = {
+  name: 'transfer_patient',
+  description: 'Moves an admitted patient to another bed or ward (e.g. to ICU). Fails if the target bed is taken or the ward is full.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      mrn: { type: Type.STRING, description: 'Medical Record Number' },
+      ward: { type: Type.STRING, description: 'Target ward id, name or class' },
+      bedId: { type: Type.STRING, description: 'Specific target bed' }
+    },
+    required: ['mrn']
+  }
+};
+
+// Read-only lookup, shared with agents that need to resolve an MRN
+export const findPatientTool: AgentTool = {
+  declaration: findPatientFunction,
+  handler: async (args) => {
+    const matches = await findPatients(String(args.query ?? ''));
+    return { count: matches.length, patients: matches };
+  }
+};
+
+export const patientTools: AgentTool[] = [
+  {
+    declaration: registerPatientFunction,
+    handler: async (args) => ({
+      patient: await registerPatient({
+        fullName: args.fullName,
+        dateOfBirth: args.dateOfBirth,
+        sex: args.sex,
+        nik: args.nik,
+        phone: args.phone,
+        address: args.address,
+        allergies: args.allergies,
+        currentMedications: args.currentMedications
+      })
+    })
+  },
+  findPatientTool,
+  {
+    declaration: admitPatientFunction,
+    handler: async (args) => ({ patient: await admitPatient(args.mrn, { ward: args.ward, diagnosis: args.diagnosis, bedId: args.bedId }) })
+  },
+  {
+    declaration: dischargePatientFunction,
+    handler: async (args) => ({ patient: await dischargePatient(args.mrn) })
+  },
+  {
+    declaration: transferPatientFunction,
+    handler: async (args, context) => {
+      const result = await transferPatient(args.mrn, { ward: args.ward, bedId: args.bedId });
+      context.auditEvents.push({
+        action: `Patient ${result.patient.mrn} transferred from bed ${result.fromBed ?? 'none'} to ${result.patient.bedId} (${result.patient.ward})`,
+        status: 'SUCCESS',
+        patientMrn: result.patient.mrn
+      });
+      return result;
+    }
+  }
+];
@@ -0,0 +1,118 @@
+import { GenerationRequest, GenerationResult, LlmProvider, RoutingRequest, SummaryRequest } from "./llmProvider";
+import { LlmError, LlmRateLimitError, LlmTimeoutError, RequestCancelledError, throwIfCancelled, toLlmError } from "./errors";
+
+// --- Policy ---
+
+export interface RetryPolicy {
+  attempts: number; // Including the first call
+  baseDelayMs: number; // Doubled after every failed attempt
+  maxDelayMs: number;
+  // Per-call limits; a generation streams a whole agent turn, so it gets the longest
+  timeoutMs: { route: number; generate: number; summarize: number };
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  timeoutMs: { route: 20_000, generate: 90_000, summarize: 30_000 }
+};
+
+/**
+ * Delay before the next attempt: exponential with up to 25% jitter, or the
+ * server's retry hint when it asks for longer.
+ */
+const backoffDelay = (policy: RetryPolicy, attempt: number, error: LlmError) => {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  const jittered = exponential * (1 + Math.random() * 0.25);
+  return error instanceof LlmRateLimitError && error.retryAfterMs ? Math.max(jittered, error.retryAfterMs) : jittered;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new RequestCancelledError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs `call` with its own abort signal that fires when the caller cancels or
+ * after `timeoutMs`. Failures come back typed; a cancellation by the caller
+ * stays a RequestCancelledError.
+ */
+const callWithTimeout = async <T>(call: (signal: AbortSignal) => Promise<T>, timeoutMs: number, callerSignal?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  callerSignal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    return await call(controller.signal);
+  } catch (error) {
+    if (callerSignal?.aborted) throw new RequestCancelledError();
+    throw timedOut ? new LlmTimeoutError(timeoutMs) : toLlmError(error);
+  } finally {
+    clearTimeout(timer);
+    callerSignal?.removeEventListener('abort', onAbort);
+  }
+};
+
+/**
+ * Retries retryable failures with exponential backoff. `canRetry` lets a
+ * streaming call refuse once output has reached the user.
+ */
+const withRetries = async <T>(
+  policy: RetryPolicy,
+  timeoutMs: number,
+  call: (signal: AbortSignal) => Promise<T>,
+  callerSignal?: AbortSignal,
+  canRetry: () => boolean = () => true
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    throwIfCancelled(callerSignal);
+    try {
+      return await callWithTimeout(call, timeoutMs, callerSignal);
+    } catch (error) {
+      if (!(error instanceof LlmError) || !error.retryable || attempt + 1 >= policy.attempts || !canRetry()) throw error;
+      console.warn(`Model call failed (${error.category}), retrying (attempt ${attempt + 2} of ${policy.attempts}):`, error.message);
+      await sleep(backoffDelay(policy, attempt, error), callerSignal);
+    }
+  }
+};
+
+// --- Provider Wrapper ---
+
+/**
+ * Wraps a provider so every call has a timeout, transient failures are
+ * retried, and whatever still fails is thrown as a typed LlmError.
+ */
+export const withResilience = (provider: LlmProvider, policy: RetryPolicy = DEFAULT_RETRY_POLICY): LlmProvider => ({
+  id: provider.id,
+
+  route(request: RoutingRequest): Promise<string> {
+    return withRetries(policy, policy.timeoutMs.route, signal => provider.route({ ...request, signal }), request.signal);
+  },
+
+  summarize(request: SummaryRequest): Promise<string> {
+    return withRetries(policy, policy.timeoutMs.summarize, signal => provider.summarize({ ...request, signal }), request.signal);
+  },
+
+  generate(request: GenerationRequest): Promise<GenerationResult> {
+    // Text already streamed into the reply bubble cannot be taken back, so only a silent failure is retried
+    let streamed = false;
+    const onTextDelta = request.onTextDelta && ((delta: string) => {
+      streamed = true;
+      request.onTextDelta?.(delta);
+    });
+    return withRetries(policy, policy.timeoutMs.generate, signal => provider.generate({ ...request, signal, onTextDelta }), request.signal, () => !streamed);
+  }
+});
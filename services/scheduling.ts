@@ -0,0 +1,249 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+import { Appointment, AppointmentSlot, Doctor } from "../types";
+import { DomainError } from "./errors";
+import { getPatient } from "./patientRegistry";
+import { createCollection } from "./storage";
+import { AgentTool } from "./tools";
+
+const appointments = createCollection<Appointment>('appointments');
+
+// Weekday clinic roster (0 = Sunday)
+const weekdays = (start: string, end: string) => [1, 2, 3, 4, 5].map(day => ({ day, start, end }));
+
+export const DOCTORS: Doctor[] = [
+  { id: 'DR-CARD-01', name: 'dr. Andi Pratama, Sp.JP', department: 'Cardiology', workingHours: weekdays('08:00', '14:00'), slotMinutes: 30 },
+  { id: 'DR-CARD-02', name: 'dr. Maya Kusuma, Sp.JP', department: 'Cardiology', workingHours: [...weekdays('13:00', '17:00'), { day: 6, start: '08:00', end: '12:00' }], slotMinutes: 30 },
+  { id: 'DR-INT-01', name: 'dr. Rudi Hartono, Sp.PD', department: 'Internal Medicine', workingHours: weekdays('08:00', '15:00'), slotMinutes: 20 },
+  { id: 'DR-PED-01', name: 'dr. Lestari Wulandari, Sp.A', department: 'Pediatrics', workingHours: weekdays('09:00', '13:00'), slotMinutes: 20 },
+  { id: 'DR-ORT-01', name: 'dr. Hendra Gunawan, Sp.OT', department: 'Orthopedics', workingHours: [1, 3, 5].map(day => ({ day, start: '10:00', end: '16:00' })), slotMinutes: 30 },
+];
+
+// --- Time Helpers ---
+
+const DATE_TIME_PATTERN = /^(\d{4}-\d{2}-\d{2})T(\d{2}:\d{2})$/;
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return h * 60 + m;
+};
+
+const fromMinutes = (minutes: number) =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+const weekdayOf = (date: string) => new Date(`${date}T00:00`).getDay();
+
+const overlaps = (a: { start: string; end: string }, b: { start: string; end: string }) =>
+  a.start < b.end && b.start < a.end;
+
+const parseStart = (start: string) => {
+  const match = DATE_TIME_PATTERN.exec(start ?? '');
+  if (!match) throw new DomainError('Appointment start must be in YYYY-MM-DDTHH:MM format.');
+  return { date: match[1], time: match[2] };
+};
+
+export const getDoctor = (doctorId: string): Doctor => {
+  const doctor = DOCTORS.find(d => d.id === doctorId);
+  if (!doctor) throw new DomainError(`Unknown doctor id ${doctorId}. Use list_available_slots to see the roster.`);
+  return doctor;
+};
+
+const nextAppointmentId = (existing: Appointment[]) => `APT-${String(existing.length + 1).padStart(6, '0')}`;
+
+// --- Calendar Operations ---
+
+export const listAppointments = async (filter: { date?: string; doctorId?: string; patientMrn?: string } = {}): Promise<Appointment[]> => {
+  const all = await appointments.getAll();
+  return all
+    .filter(a => !filter.date || a.start.startsWith(filter.date))
+    .filter(a => !filter.doctorId || a.doctorId === filter.doctorId)
+    .filter(a => !filter.patientMrn || a.patientMrn === filter.patientMrn)
+    .sort((a, b) => a.start.localeCompare(b.start));
+};
+
+/**
+ * Expands each doctor's working hours for the date into fixed-length slots,
+ * marking those already taken by a booked appointment.
+ */
+export const listSlots = async (date: string, filter: { doctorId?: string; department?: string } = {}): Promise<AppointmentSlot[]> => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date ?? '')) throw new DomainError('Date must be in YYYY-MM-DD format.');
+
+  const booked = (await listAppointments({ date })).filter(a => a.status === 'BOOKED');
+  const department = filter.department?.toLowerCase();
+  const weekday = weekdayOf(date);
+
+  return DOCTORS
+    .filter(d => !filter.doctorId || d.id === filter.doctorId)
+    .filter(d => !department || d.department.toLowerCase().includes(department))
+    .flatMap(doctor => doctor.workingHours
+      .filter(hours => hours.day === weekday)
+      .flatMap(hours => {
+        const slots: AppointmentSlot[] = [];
+        for (let t = toMinutes(hours.start); t + doctor.slotMinutes <= toMinutes(hours.end); t += doctor.slotMinutes) {
+          const slot = { start: `${date}T${fromMinutes(t)}`, end: `${date}T${fromMinutes(t + doctor.slotMinutes)}` };
+          slots.push({
+            ...slot,
+            doctorId: doctor.id,
+            doctorName: doctor.name,
+            department: doctor.department,
+            available: !booked.some(a => a.doctorId === doctor.id && overlaps(a, slot))
+          });
+        }
+        return slots;
+      }));
+};
+
+export const bookAppointment = async (input: {
+  doctorId: string;
+  patientMrn: string;
+  start: string;
+  reason?: string;
+  rescheduledFrom?: string;
+}): Promise<Appointment> => {
+  const doctor = getDoctor(input.doctorId);
+  const patient = await getPatient(input.patientMrn);
+  const { date, time } = parseStart(input.start);
+
+  const startMinutes = toMinutes(time);
+  const endMinutes = startMinutes + doctor.slotMinutes;
+  const shift = doctor.workingHours.find(h =>
+    h.day === weekdayOf(date) && startMinutes >= toMinutes(h.start) && endMinutes <= toMinutes(h.end)
+  );
+  if (!shift) throw new DomainError(`${doctor.name} is not on duty at ${input.start}.`);
+  if ((startMinutes - toMinutes(shift.start)) % doctor.slotMinutes !== 0) {
+    throw new DomainError(`${input.start} is not a valid slot start; ${doctor.name} uses ${doctor.slotMinutes}-minute slots from ${shift.start}.`);
+  }
+  if (new Date(input.start) < new Date()) throw new DomainError('Cannot book an appointment in the past.');
+
+  const slot = { start: input.start, end: `${date}T${fromMinutes(endMinutes)}` };
+  const all = await appointments.getAll();
+  const active = all.filter(a => a.status === 'BOOKED' && a.id !== input.rescheduledFrom);
+
+  const doctorClash = active.find(a => a.doctorId === doctor.id && overlaps(a, slot));
+  if (doctorClash) throw new DomainError(`${doctor.name} is already booked at ${doctorClash.start}.`);
+
+  const patientClash = active.find(a => a.patientMrn === patient.mrn && overlaps(a, slot));
+  if (patientClash) {
+    throw new DomainError(`${patient.fullName} already has appointment ${patientClash.id} at ${patientClash.start}.`);
+  }
+
+  const appointment: Appointment = {
+    id: nextAppointmentId(all),
+    doctorId: doctor.id,
+    patientMrn: patient.mrn,
+    ...slot,
+    status: 'BOOKED',
+    reason: input.reason,
+    rescheduledFrom: input.rescheduledFrom
+  };
+  await appointments.put(appointment.id, appointment);
+  return appointment;
+};
+
+export const cancelAppointment = async (appointmentId: string): Promise<Appointment> => {
+  const appointment = await appointments.get(appointmentId);
+  if (!appointment) throw new DomainError(`No appointment found with id ${appointmentId}.`);
+  if (appointment.status === 'CANCELLED') throw new DomainError(`Appointment ${appointmentId} is already cancelled.`);
+
+  const cancelled: Appointment = { ...appointment, status: 'CANCELLED' };
+  await appointments.put(cancelled.id, cancelled);
+  return cancelled;
+};
+
+/**
+ * Books the new slot first (ignoring the original's own time) and only then
+ * cancels the original, so a failed reschedule leaves the patient booked.
+ */
+export const rescheduleAppointment = async (appointmentId: string, newStart: string): Promise<Appointment> => {
+  const original = await appointments.get(appointmentId);
+  if (!original || original.status !== 'BOOKED') throw new DomainError(`No active appointment found with id ${appointmentId}.`);
+
+  const replacement = await bookAppointment({
+    doctorId: original.doctorId,
+    patientMrn: original.patientMrn,
+    start: newStart,
+    reason: original.reason,
+    rescheduledFrom: original.id
+  });
+  await cancelAppointment(original.id);
+  return replacement;
+};
+
+// --- Agent Tools ---
+
+const listAvailableSlotsFunction: FunctionDeclaration = {
+  name: 'list_available_slots',
+  description: 'Lists free appointment slots on a date from the hospital doctor roster. Filter by doctor id or department.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      date: { type: Type.STRING, description: 'Date, YYYY-MM-DD' },
+      doctorId: { type: Type.STRING, description: 'Optional doctor id, e.g. DR-CARD-01' },
+      department: { type: Type.STRING, description: 'Optional department, e.g. Cardiology' }
+    },
+    required: ['date']
+  }
+};
+
+const bookAppointmentFunction: FunctionDeclaration = {
+  name: 'book_appointment',
+  description: 'Books a slot for a registered patient. Fails on double-booking or outside working hours.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      doctorId: { type: Type.STRING },
+      patientMrn: { type: Type.STRING, description: 'Medical Record Number of the patient' },
+      start: { type: Type.STRING, description: 'Slot start, YYYY-MM-DDTHH:MM' },
+      reason: { type: Type.STRING, description: 'Reason for visit' }
+    },
+    required: ['doctorId', 'patientMrn', 'start']
+  }
+};
+
+const cancelAppointmentFunction: FunctionDeclaration = {
+  name: 'cancel_appointment',
+  description: 'Cancels a booked appointment.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      appointmentId: { type: Type.STRING, description: 'Appointment id, e.g. APT-000001' }
+    },
+    required: ['appointmentId']
+  }
+};
+
+const rescheduleAppointmentFunction: FunctionDeclaration = {
+  name: 'reschedule_appointment',
+  description: 'Moves a booked appointment to a new slot with the same doctor.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      appointmentId: { type: Type.STRING },
+      newStart: { type: Type.STRING, description: 'New slot start, YYYY-MM-DDTHH:MM' }
+    },
+    required: ['appointmentId', 'newStart']
+  }
+};
+
+export const schedulingTools: AgentTool[] = [
+  {
+    declaration: listAvailableSlotsFunction,
+    handler: async (args) => {
+      const slots = await listSlots(args.date, { doctorId: args.doctorId, department: args.department });
+      return { date: args.date, slots: slots.filter(s => s.available) };
+    }
+  },
+  {
+    declaration: bookAppointmentFunction,
+    handler: async (args) => ({
+      appointment: await bookAppointment({ doctorId: args.doctorId, patientMrn: args.patientMrn, start: args.start, reason: args.reason })
+    })
+  },
+  {
+    declaration: cancelAppointmentFunction,
+    handler: async (args) => ({ appointment: await cancelAppointment(args.appointmentId) })
+  },
+  {
+    declaration: rescheduleAppointmentFunction,
+    handler: async (args) => ({ appointment: await rescheduleAppointment(args.appointmentId, args.newStart) })
+  }
+];
@@ -0,0 +1,220 @@
+import { AgentType, ChatMessage, ConversationHistory, ConversationSession, HistoryTurn } from "../types";
+import { summarizeConversation } from "./agentService";
+import { appendAuditEntry } from "./auditLog";
+import { formatDate, t } from "./i18n";
+import { DomainError } from "./errors";
+import { isAwaitingReplay } from "./outbox";
+import { getPatient } from "./patientRegistry";
+import { createCollection } from "./storage";
+
+// --- Encryption at Rest ---
+
+/**
+ * A session as stored: everything but the id, owner and time is inside the
+ * AES-GCM ciphertext, including the title (it usually names the patient).
+ */
+interface EncryptedSession {
+  id: string;
+  owner: string;
+  updatedAt: string;
+  iv: string;         // base64, 12 bytes, fresh for every write
+  ciphertext: string; // base64
+}
+
+interface KeySalt {
+  owner: string;
+  salt: string; // base64, 16 bytes
+}
+
+const sessions = createCollection<EncryptedSession>('sessions');
+const keySalts = createCollection<KeySalt>('session-keys');
+
+const PBKDF2_ITERATIONS = 210_000;
+
+// Key of the signed-in user; never persisted, so sessions stay sealed until the next sign-in
+let unlocked: { owner: string; key: CryptoKey } | null = null;
+
+// Spreading a whole session into fromCharCode overflows the call stack, so it goes in slices
+const BASE64_CHUNK = 0x8000;
+
+const toBase64 = (bytes: Uint8Array): string => {
+  const chunks: string[] = [];
+  for (let i = 0; i < bytes.length; i += BASE64_CHUNK) {
+    chunks.push(String.fromCharCode(...bytes.subarray(i, i + BASE64_CHUNK)));
+  }
+  return btoa(chunks.join(''));
+};
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+/**
+ * Derives the user's session key from their password. Called at sign-in,
+ * the only time the password is available.
+ */
+export const unlockSessions = async (username: string, password: string): Promise<void> => {
+  const owner = username.trim().toLowerCase();
+  let stored = await keySalts.get(owner);
+  if (!stored) {
+    stored = { owner, salt: toBase64(crypto.getRandomValues(new Uint8Array(16))) };
+    await keySalts.put(owner, stored);
+  }
+
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveKey']);
+  const key = await crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: fromBase64(stored.salt), iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+  unlocked = { owner, key };
+};
+
+export const lockSessions = () => {
+  unlocked = null;
+};
+
+const requireKey = () => {
+  if (!unlocked) throw new DomainError('Conversation sessions are locked. Sign in again to open them.');
+  return unlocked;
+};
+
+const encrypt = async (session: ConversationSession): Promise<EncryptedSession> => {
+  const { owner, key } = requireKey();
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const plaintext = new TextEncoder().encode(JSON.stringify(session));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext);
+  return { id: session.id, owner, updatedAt: session.updatedAt, iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+};
+
+const decrypt = async (record: EncryptedSession): Promise<ConversationSession> => {
+  const { key } = requireKey();
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(record.iv) }, key, fromBase64(record.ciphertext));
+  const session: ConversationSession = JSON.parse(new TextDecoder().decode(plaintext));
+  // Dates do not survive JSON
+  session.messages = session.messages.map(m => ({ ...m, timestamp: new Date(m.timestamp) }));
+  return session;
+};
+
+// --- Session Operations ---
+
+export const listSessions = async (): Promise<ConversationSession[]> => {
+  const { owner } = requireKey();
+  const records = (await sessions.getAll()).filter(r => r.owner === owner);
+  const opened: ConversationSession[] = [];
+  for (const record of records) {
+    try {
+      opened.push(await decrypt(record));
+    } catch (error) {
+      // Tampered or written under an older key: leave it on disk, but do not show it
+      console.warn(`Session ${record.id} could not be decrypted:`, error);
+    }
+  }
+  return opened.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+};
+
+/**
+ * Opens a session, tied to the patient's current encounter when an MRN is given.
+ */
+export const createSession = async (options: { title?: string; patientMrn?: string } = {}): Promise<ConversationSession> => {
+  requireKey();
+  const patient = options.patientMrn ? await getPatient(options.patientMrn) : undefined;
+  const now = new Date().toISOString();
+  const encounter = patient?.status === 'ADMITTED' && patient.admittedAt ? ` · ${t('session.admitted', { date: formatDate(patient.admittedAt) })}` : '';
+
+  const session: ConversationSession = {
+    id: crypto.randomUUID(),
+    title: options.title?.trim() || (patient ? `${patient.fullName} (${patient.mrn})${encounter}` : t('session.general')),
+    patientMrn: patient?.mrn,
+    encounterStart: patient?.status === 'ADMITTED' ? patient.admittedAt : undefined,
+    createdAt: now,
+    updatedAt: now,
+    messages: [],
+    summary: '',
+    summarizedCount: 0
+  };
+  await sessions.put(session.id, await encrypt(session));
+  await appendAuditEntry({
+    agent: AgentType.ORCHESTRATOR,
+    action: patient ? 'Conversation session opened for patient' : 'Conversation session opened',
+    status: 'SUCCESS',
+    patientMrn: patient?.mrn
+  });
+  return session;
+};
+
+/**
+ * Persists the session. Replies still streaming and pending routing
+ * prompts are not saved.
+ */
+export const saveSession = async (session: ConversationSession): Promise<ConversationSession> => {
+  const saved: ConversationSession = {
+    ...session,
+    messages: session.messages
+      .filter(m => !m.pending)
+      .map(({ routingChoices, ...message }) => message),
+    updatedAt: new Date().toISOString()
+  };
+  await sessions.put(saved.id, await encrypt(saved));
+  return saved;
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  const { owner } = requireKey();
+  const record = await sessions.get(id);
+  if (!record || record.owner !== owner) throw new DomainError('No such conversation session.');
+  await sessions.remove(id);
+  await appendAuditEntry({ agent: AgentType.ORCHESTRATOR, action: 'Conversation session deleted', status: 'SUCCESS' });
+};
+
+// --- History ---
+
+// Turns past the summary that are sent verbatim; more than SUMMARIZE_AFTER triggers compaction
+const RECENT_TURNS = 8;
+const SUMMARIZE_AFTER = 16;
+
+const toTurn = (message: ChatMessage): HistoryTurn => ({
+  role: message.role,
+  sender: message.sender,
+  text: message.text
+});
+
+// Only exchanged turns count; the welcome banner, unfinished replies and requests still in the outbox do not
+const isConversationTurn = (message: ChatMessage) =>
+  !message.pending && !isAwaitingReplay(message) && message.text.trim() !== '' && message.id !== 'welcome';
+
+/**
+ * The history to send with the next request: the running summary plus every
+ * turn not yet folded into it.
+ */
+export const buildHistory = (session: ConversationSession): ConversationHistory => ({
+  summary: session.summary,
+  turns: session.messages.slice(session.summarizedCount).filter(isConversationTurn).map(toTurn)
+});
+
+/**
+ * Folds all but the latest RECENT_TURNS into the summary once more than
+ * SUMMARIZE_AFTER turns are unsummarized. Returns the session unchanged if
+ * there is nothing to fold or the summary call fails.
+ */
+export const compactSession = async (session: ConversationSession): Promise<ConversationSession> => {
+  const unsummarized = session.messages.slice(session.summarizedCount);
+  if (unsummarized.filter(isConversationTurn).length <= SUMMARIZE_AFTER) return session;
+
+  // Cut so that exactly RECENT_TURNS conversation turns stay verbatim
+  let kept = 0;
+  let cut = session.messages.length;
+  while (cut > session.summarizedCount && kept < RECENT_TURNS) {
+    cut--;
+    if (isConversationTurn(session.messages[cut])) kept++;
+  }
+
+  try {
+    const folded = session.messages.slice(session.summarizedCount, cut).filter(isConversationTurn).map(toTurn);
+    const summary = await summarizeConversation(session.summary, folded);
+    if (!summary) return session;
+    return saveSession({ ...session, summary, summarizedCount: cut });
+  } catch (error) {
+    console.warn("Session summary failed; keeping the full history for now:", error);
+    return session;
+  }
+};
@@ -0,0 +1,119 @@
+// --- Local Persistence ---
+
+/**
+ * A named set of records keyed by id.
+ * Backed by IndexedDB in the browser, or an in-memory map when IndexedDB
+ * is unavailable (private browsing, tests, server-side tooling).
+ */
+export interface Collection<T> {
+  getAll(): Promise<T[]>;
+  get(id: string): Promise<T | undefined>;
+  put(id: string, value: T): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+interface StoredRecord<T> {
+  collection: string;
+  id: string;
+  value: T;
+}
+
+const DB_NAME = 'mho-db';
+const DB_VERSION = 1;
+const STORE = 'records';
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Opens the shared database once. Resolves to null when IndexedDB cannot be used,
+ * in which case every collection falls back to memory.
+ */
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      try {
+        const request = indexedDB.open(DB_NAME, DB_VERSION);
+        request.onupgradeneeded = () => {
+          const store = request.result.createObjectStore(STORE, { keyPath: ['collection', 'id'] });
+          store.createIndex('by_collection', 'collection');
+        };
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => {
+          console.warn("IndexedDB unavailable, using in-memory storage:", request.error);
+          resolve(null);
+        };
+      } catch (error) {
+        console.warn("IndexedDB unavailable, using in-memory storage:", error);
+        resolve(null);
+      }
+    });
+  }
+  return dbPromise;
+};
+
+const createMemoryCollection = <T>(): Collection<T> => {
+  const records = new Map<string, T>();
+  return {
+    async getAll() { return Array.from(records.values()); },
+    async get(id) { return records.get(id); },
+    async put(id, value) { records.set(id, value); },
+    async remove(id) { records.delete(id); }
+  };
+};
+
+export const createCollection = <T>(name: string): Collection<T> => {
+  const memory = createMemoryCollection<T>();
+
+  const withStore = async <R>(
+    mode: IDBTransactionMode,
+    action: (store: IDBObjectStore) => IDBRequest<R>,
+    fallback: () => Promise<R>
+  ): Promise<R> => {
+    const db = await openDatabase();
+    if (!db) return fallback();
+    const store = db.transaction(STORE, mode).objectStore(STORE);
+    return requestToPromise(action(store));
+  };
+
+  return {
+    async getAll() {
+      const rows = await withStore<StoredRecord<T>[]>(
+        'readonly',
+        store => store.index('by_collection').getAll(name),
+        async () => (await memory.getAll()).map(value => ({ collection: name, id: '', value }))
+      );
+      return rows.map(row => row.value);
+    },
+
+    async get(id) {
+      const row = await withStore<StoredRecord<T> | undefined>(
+        'readonly',
+        store => store.get([name, id]),
+        async () => {
+          const value = await memory.get(id);
+          return value === undefined ? undefined : { collection: name, id, value };
+        }
+      );
+      return row?.value;
+    },
+
+    async put(id, value) {
+      const record: StoredRecord<T> = { collection: name, id, value };
+      await withStore<unknown>('readwrite', store => store.put(record), () => memory.put(id, value));
+    },
+
+    async remove(id) {
+      await withStore<unknown>('readwrite', store => store.delete([name, id]), () => memory.remove(id));
+    }
+  };
+};
@@ -0,0 +1,108 @@
+import { FunctionCall, FunctionDeclaration } from "@google/genai";
+import { AgentType, ApprovalRequest, AuditEvent, GeneratedDocumentData, ToolInvocation } from "../types";
+import { ROLE_LABELS, canUseTool, getCurrentUser } from "./accessControl";
+import { appendAuditEntry } from "./auditLog";
+import { DomainError } from "./errors";
+
+// --- Tool Runtime ---
+
+/**
+ * Per-request state shared by every tool call in one agent loop.
+ */
+export interface ToolContext {
+  agent: AgentType;
+  documents: GeneratedDocumentData[];
+  // System-raised notices (e.g. stock alerts) shown alongside the agent's answer
+  alerts: GeneratedDocumentData[];
+  auditEvents: AuditEvent[];
+  // Schema problems from the last rejected generate_document call; empty once one succeeds
+  documentIssues: string[];
+  // Documents held for approval instead of taking effect
+  approvals: ApprovalRequest[];
+}
+
+export type ToolHandler = (
+  args: Record<string, any>,
+  context: ToolContext
+) => Promise<Record<string, unknown>>;
+
+/**
+ * A function declaration sent to the model paired with the code that runs it.
+ */
+export interface AgentTool {
+  declaration: FunctionDeclaration;
+  handler: ToolHandler;
+}
+
+/**
+ * Runs a single model-requested call against the agent's tool set.
+ * Never throws: failures become an `error` payload for the model.
+ * The signed-in user's role must grant the tool for this agent.
+ * Handlers signal expected failures with DomainError. Every call is written
+ * to the audit log with its real outcome; a call whose document was held for
+ * approval is PENDING, not SUCCESS.
+ */
+export const executeToolCall = async (
+  call: FunctionCall,
+  tools: AgentTool[],
+  context: ToolContext
+): Promise<{ response: Record<string, unknown>; invocation: ToolInvocation }> => {
+  const name = call.name ?? 'unknown';
+  const args = (call.args ?? {}) as Record<string, any>;
+  const tool = tools.find(t => t.declaration.name === name);
+
+  if (!tool) {
+    await appendAuditEntry({ agent: context.agent, action: `Unknown tool ${name} requested`, status: 'FAILED', toolName: name, args });
+    return {
+      response: { error: `Tool '${name}' is not available to ${context.agent}.` },
+      invocation: { name, args, ok: false }
+    };
+  }
+
+  const user = getCurrentUser();
+  if (!canUseTool(user, context.agent, name)) {
+    const role = user ? ROLE_LABELS[user.role] : 'Unauthenticated user';
+    await appendAuditEntry({ agent: context.agent, action: `Access denied to tool ${name}`, status: 'DENIED', toolName: name, args, patientMrn: patientRefOf(args) });
+    return {
+      response: { error: `Access denied: ${role} is not permitted to use '${name}' through ${context.agent}.` },
+      invocation: { name, args, ok: false }
+    };
+  }
+
+  const eventsBefore = context.auditEvents.length;
+  const alertsBefore = context.alerts.length;
+  const approvalsBefore = context.approvals.length;
+  const patientMrn = patientRefOf(args);
+
+  try {
+    const output = await tool.handler(args, context);
+    const held = context.approvals.slice(approvalsBefore).map(r => r.id);
+    await appendAuditEntry(held.length > 0
+      ? { agent: context.agent, action: `Tool ${name} executed; held for approval as ${held.join(', ')}`, status: 'PENDING', toolName: name, args, patientMrn }
+      : { agent: context.agent, action: `Tool ${name} executed`, status: 'SUCCESS', toolName: name, args, patientMrn });
+    return { response: { output }, invocation: { name, args, ok: true } };
+  } catch (error) {
+    if (!(error instanceof DomainError)) {
+      console.error(`Tool '${name}' failed:`, error);
+    }
+    const message = error instanceof Error ? error.message : String(error);
+    await appendAuditEntry({ agent: context.agent, action: `Tool ${name} failed: ${message}`, status: 'FAILED', toolName: name, args, patientMrn });
+    return { response: { error: message }, invocation: { name, args, ok: false } };
+  } finally {
+    // Domain events and alerts raised by this call are chained right after it
+    for (const event of context.auditEvents.slice(eventsBefore)) {
+      await appendAuditEntry({ agent: context.agent, action: event.action, status: event.status, toolName: name, patientMrn: event.patientMrn ?? patientMrn });
+    }
+    for (const alert of context.alerts.slice(alertsBefore)) {
+      await appendAuditEntry({ agent: context.agent, action: `ALERT: ${alert.title}`, status: 'PENDING', toolName: name });
+    }
+  }
+};
+
+/**
+ * Best-effort patient reference for the audit trail, from the usual MRN argument names.
+ */
+const patientRefOf = (args: Record<string, any>): string | undefined => {
+  const mrn = args.mrn ?? args.patientMrn ?? args.fields?.mrn;
+  return typeof mrn === 'string' ? mrn : undefined;
+};
@@ -0,0 +1,144 @@
+import { FunctionDeclaration, Type } from "@google/genai";
+import { BedAssignment, BedStatus, Ward, WardClass } from "../types";
+import { DomainError } from "./errors";
+import { createCollection } from "./storage";
+import { AgentTool } from "./tools";
+
+const assignments = createCollection<BedAssignment>('bed-assignments');
+
+// --- Wards ---
+
+export const WARD_CLASSES: WardClass[] = ['VIP', 'KELAS_1', 'KELAS_2', 'KELAS_3', 'ICU'];
+
+export const WARDS: Ward[] = [
+  { id: 'VIP', name: 'Paviliun Anggrek', wardClass: 'VIP', rooms: [{ id: 'VIP-101', beds: 1 }, { id: 'VIP-102', beds: 1 }, { id: 'VIP-103', beds: 1 }] },
+  { id: 'K1', name: 'Bangsal Melati', wardClass: 'KELAS_1', rooms: [{ id: 'K1-201', beds: 2 }, { id: 'K1-202', beds: 2 }] },
+  { id: 'K2', name: 'Bangsal Mawar', wardClass: 'KELAS_2', rooms: [{ id: 'K2-301', beds: 3 }, { id: 'K2-302', beds: 3 }] },
+  { id: 'K3', name: 'Bangsal Dahlia', wardClass: 'KELAS_3', rooms: [{ id: 'K3-401', beds: 4 }, { id: 'K3-402', beds: 4 }] },
+  { id: 'ICU', name: 'Intensive Care Unit', wardClass: 'ICU', rooms: [{ id: 'ICU-01', beds: 4 }] },
+];
+
+const bedIds = (room: { id: string; beds: number }) =>
+  Array.from({ length: room.beds }, (_, i) => `${room.id}-${String.fromCharCode(65 + i)}`);
+
+const ALL_BEDS = WARDS.flatMap(ward => ward.rooms.flatMap(room => bedIds(room).map(bedId => ({ bedId, roomId: room.id, ward }))));
+
+const normalise = (value: string) => value.trim().toUpperCase().replace(/[\s_-]+/g, ' ');
+
+/**
+ * The wards matching a free-text ward: a ward id ("K1"), its name ("Bangsal
+ * Melati") or a class ("ICU", "Kelas 1", "KELAS_1").
+ */
+export const resolveWards = (ward: string): Ward[] => {
+  const key = normalise(ward ?? '');
+  const matches = WARDS.filter(w => [w.id, w.name, w.wardClass].some(candidate => normalise(candidate) === key));
+  if (matches.length === 0) {
+    throw new DomainError(`Unknown ward "${ward}". Wards: ${WARDS.map(w => `${w.id} (${w.name}, ${w.wardClass})`).join(', ')}.`);
+  }
+  return matches;
+};
+
+export const getBed = (bedId: string) => {
+  const bed = ALL_BEDS.find(b => b.bedId === bedId?.trim().toUpperCase());
+  if (!bed) throw new DomainError(`Unknown bed ${bedId}. Bed ids look like ${ALL_BEDS[0].bedId}.`);
+  return bed;
+};
+
+// --- Occupancy ---
+
+export const listBeds = async (filter: { wardId?: string; wardClass?: WardClass } = {}): Promise<BedStatus[]> => {
+  const occupied = new Map((await assignments.getAll()).map(a => [a.bedId, a]));
+  return ALL_BEDS
+    .filter(b => !filter.wardId || b.ward.id === filter.wardId)
+    .filter(b => !filter.wardClass || b.ward.wardClass === filter.wardClass)
+    .map(b => ({
+      bedId: b.bedId,
+      roomId: b.roomId,
+      wardId: b.ward.id,
+      wardName: b.ward.name,
+      wardClass: b.ward.wardClass,
+      occupant: occupied.get(b.bedId)
+    }));
+};
+
+export const wardOccupancy = async () => {
+  const beds = await listBeds();
+  return WARDS.map(ward => {
+    const inWard = beds.filter(b => b.wardId === ward.id);
+    const free = inWard.filter(b => !b.occupant);
+    return {
+      wardId: ward.id,
+      wardName: ward.name,
+      wardClass: ward.wardClass,
+      capacity: inWard.length,
+      occupied: inWard.length - free.length,
+      freeBeds: free.map(b => b.bedId)
+    };
+  });
+};
+
+// --- Assignment ---
+
+/**
+ * Puts a patient in a bed: the given one, or the first free bed in the ward.
+ * Refuses when the bed is taken or every bed in the ward is occupied.
+ */
+export const assignBed = async (input: {
+  patientMrn: string;
+  patientName: string;
+  ward?: string;
+  bedId?: string;
+}): Promise<{ assignment: BedAssignment; ward: Ward }> => {
+  const beds = await listBeds();
+  const wards = input.ward ? resolveWards(input.ward) : WARDS;
+  let bed: BedStatus | undefined;
+
+  if (input.bedId) {
+    const { bedId } = getBed(input.bedId);
+    bed = beds.find(b => b.bedId === bedId)!;
+    if (!wards.some(w => w.id === bed!.wardId)) throw new DomainError(`Bed ${bed.bedId} is in ${bed.wardName}, not ${input.ward}.`);
+    if (bed.occupant) throw new DomainError(`Bed ${bed.bedId} is occupied by ${bed.occupant.patientMrn}.`);
+  } else {
+    if (!input.ward) throw new DomainError('A ward or bed is required.');
+    bed = beds.find(b => !b.occupant && wards.some(w => w.id === b.wardId));
+    if (!bed) {
+      throw new DomainError(`${wards.map(w => w.name).join(' / ')} is full: all ${beds.filter(b => wards.some(w => w.id === b.wardId)).length} beds are occupied.`);
+    }
+  }
+
+  const assignment: BedAssignment = {
+    bedId: bed.bedId,
+    patientMrn: input.patientMrn,
+    patientName: input.patientName,
+    assignedAt: new Date().toISOString()
+  };
+  await assignments.put(bed.bedId, assignment);
+  return { assignment, ward: WARDS.find(w => w.id === bed!.wardId)! };
+};
+
+export const releaseBed = async (bedId: string) => {
+  await assignments.remove(bedId);
+};
+
+// --- Agent Tools ---
+
+const checkBedAvailabilityFunction: FunctionDeclaration = {
+  name: 'check_bed_availability',
+  description: 'Reports bed occupancy per ward (capacity, occupied, free bed ids), optionally for one ward class. Use it to answer whether a bed is free before admitting or transferring.',
+  parameters: {
+    type: Type.OBJECT,
+    properties: {
+      wardClass: { type: Type.STRING, enum: WARD_CLASSES, description: 'VIP, KELAS_1, KELAS_2, KELAS_3 or ICU' }
+    }
+  }
+};
+
+export const wardTools: AgentTool[] = [
+  {
+    declaration: checkBedAvailabilityFunction,
+    handler: async (args) => {
+      const wards = (await wardOccupancy()).filter(w => !args.wardClass || w.wardClass === args.wardClass);
+      return { wards, totalFree: wards.reduce((sum, w) => sum + w.freeBeds.length, 0) };
+    }
+  }
+];
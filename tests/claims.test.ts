@@ -0,0 +1,74 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { login } from '../services/accessControl';
+import { ACCOUNTS, issueInvoice, listJournalEntries } from '../services/accounting';
+import { advanceClaim, createClaim } from '../services/claims';
+import { Claim } from '../types';
+
+// Net debit per account over the entries a claim posted
+const claimPostings = async (claim: Claim) => {
+  const totals: Record<string, number> = {};
+  for (const line of (await listJournalEntries(claim.id)).flatMap(e => e.lines)) {
+    totals[line.accountCode] = (totals[line.accountCode] ?? 0) + line.debit - line.credit;
+  }
+  return Object.fromEntries(Object.entries(totals).filter(([, amount]) => amount !== 0));
+};
+
+const submittedClaim = async () => {
+  const { invoice } = await issueInvoice({
+    patientMrn: 'MRN-000001',
+    lineItems: [{ description: 'Inpatient room, 2 nights', category: 'INPATIENT', quantity: 2, unitPrice: 450000 }]
+  });
+  const claim = await createClaim({ payerId: 'BPJS', patientMrn: 'MRN-000001', memberId: '0001234567890', invoiceIds: [invoice.id] });
+  await advanceClaim(claim.id, 'SUBMITTED', { sepNumber: '0301R0011026V000123' });
+  return advanceClaim(claim.id, 'PENDING');
+};
+
+describe('claim ledger postings', () => {
+  beforeEach(async () => {
+    await login('billing', 'demo123');
+  });
+
+  it('moves the claimed amount to insurance receivables on submission', async () => {
+    const claim = await submittedClaim();
+    expect(await claimPostings(claim)).toEqual({
+      [ACCOUNTS.INSURANCE_RECEIVABLE]: 900000,
+      [ACCOUNTS.PATIENT_RECEIVABLE]: -900000
+    });
+  });
+
+  it('settles an approved claim into the bank', async () => {
+    const claim = await advanceClaim((await submittedClaim()).id, 'APPROVED');
+    expect(await claimPostings(claim)).toEqual({
+      [ACCOUNTS.BANK]: 900000,
+      [ACCOUNTS.PATIENT_RECEIVABLE]: -900000
+    });
+  });
+
+  it('writes off the unpaid share of a partial payment and credits it back when an appeal pays more', async () => {
+    const partial = await advanceClaim((await submittedClaim()).id, 'PARTIALLY_PAID', { paidAmount: 600000 });
+    expect(await claimPostings(partial)).toEqual({
+      [ACCOUNTS.BANK]: 600000,
+      [ACCOUNTS.CLAIM_ADJUSTMENT]: 300000,
+      [ACCOUNTS.PATIENT_RECEIVABLE]: -900000
+    });
+
+    await advanceClaim(partial.id, 'APPEALED', { note: 'Second night was medically necessary' });
+    const approved = await advanceClaim(partial.id, 'APPROVED', { approvedAmount: 800000 });
+    expect(await claimPostings(approved)).toEqual({
+      [ACCOUNTS.BANK]: 800000,
+      [ACCOUNTS.CLAIM_ADJUSTMENT]: 100000,
+      [ACCOUNTS.PATIENT_RECEIVABLE]: -900000
+    });
+  });
+
+  it('hands a denied claim back to the patient until it is appealed', async () => {
+    const denied = await advanceClaim((await submittedClaim()).id, 'DENIED', { denialReason: 'SEP expired' });
+    expect(await claimPostings(denied)).toEqual({});
+
+    const appealed = await advanceClaim(denied.id, 'APPEALED', { note: 'SEP was valid on admission' });
+    expect(await claimPostings(appealed)).toEqual({
+      [ACCOUNTS.INSURANCE_RECEIVABLE]: 900000,
+      [ACCOUNTS.PATIENT_RECEIVABLE]: -900000
+    });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { createPhiVault, deidentify, deidentifyValue, reidentify, reidentifyValue } from '../services/deidentify';
+
+const REGISTRY = ['Budi Santoso', 'Siti Aminah', 'John Smith'];
+
+interface Sample {
+  text: string;
+  phi: string[]; // Must not reach the model
+  keep?: string[]; // Must stay readable
+}
+
+// Requests as staff type them: mixed languages, titles and letter case
+const CORPUS: Sample[] = [
+  { text: 'Admit Budi Santoso to Kelas 1 for observation', phi: ['Budi Santoso'], keep: ['Kelas 1', 'observation'] },
+  { text: 'BUDI SANTOSO needs a bed', phi: ['BUDI SANTOSO', 'BUDI'], keep: ['needs a bed'] },
+  { text: 'Patient john smith is allergic to penicillin', phi: ['john smith'], keep: ['penicillin'] },
+  { text: 'Siti aminah asks to reschedule', phi: ['Siti', 'aminah'], keep: ['reschedule'] },
+  { text: 'sITI AMINAH dan budi datang besok', phi: ['sITI AMINAH', 'budi'], keep: ['datang besok'] },
+  { text: 'Invoice for MRN-000001, NIK 3174012345678901', phi: ['MRN-000001', '3174012345678901'], keep: ['Invoice'] },
+  { text: 'Call Ibu Dewi Lestari on 0812-3456-7890', phi: ['Dewi Lestari', '0812-3456-7890'] },
+  { text: 'Pasien lahir 17 Agustus 1980, tanggal kontrol 4 Januari 2027', phi: ['17 Agustus 1980'], keep: ['4 Januari 2027'] },
+  { text: 'Prescribe paracetamol 500 mg for Budi', phi: ['Budi'], keep: ['paracetamol 500 mg'] },
+  { text: 'What is the trial balance for October?', phi: [], keep: ['trial balance for October'] }
+];
+
+describe('de-identification corpus', () => {
+  it.each(CORPUS)('redacts and restores: $text', ({ text, phi, keep = [] }) => {
+    const vault = createPhiVault(REGISTRY);
+    const redacted = deidentify(text, vault);
+
+    for (const value of phi) expect(redacted).not.toContain(value);
+    for (const value of keep) expect(redacted).toContain(value);
+    expect(reidentify(redacted, vault)).toBe(text);
+  });
+
+  it('restores each spelling of a name exactly as typed', () => {
+    const vault = createPhiVault(REGISTRY);
+    const redacted = deidentify('Budi Santoso (BUDI SANTOSO) and budi santoso', vault);
+    expect(redacted).not.toMatch(/budi|santoso/i);
+    expect(reidentify(redacted, vault)).toBe('Budi Santoso (BUDI SANTOSO) and budi santoso');
+  });
+
+  it('catches names registered by a structured payload in free text elsewhere', () => {
+    const vault = createPhiVault();
+    const payload = { patientName: 'Rina Wulandari', note: 'RINA WULANDARI was seen today', phone: '081234567890' };
+    const redacted = deidentifyValue(payload, vault);
+    expect(JSON.stringify(redacted)).not.toMatch(/rina|wulandari|081234567890/i);
+    expect(reidentifyValue(redacted, vault)).toEqual(payload);
+  });
+
+  it('leaves existing tokens alone', () => {
+    const vault = createPhiVault(REGISTRY);
+    const once = deidentify('Budi Santoso', vault);
+    expect(deidentify(once, vault)).toBe(once);
+  });
+});
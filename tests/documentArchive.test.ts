@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { login } from '../services/accessControl';
+import { archiveDocument, documentArchiveTools, voidDocument } from '../services/documentArchive';
+import { dispenseMedication, getStockLevel, listStockMovements } from '../services/inventory';
+import { AgentType, GeneratedDocumentData } from '../types';
+
+const prescription = (dispensedMovementIds?: string[]): GeneratedDocumentData => ({
+  type: 'PRESCRIPTION',
+  title: 'Prescription - Budi Santoso',
+  content: {
+    mrn: 'MRN-000001',
+    patient_name: 'Budi Santoso',
+    drug: 'Amoxicillin 500 mg',
+    dose: '1 capsule',
+    frequency: '3x daily',
+    quantity: 15,
+    prescriber: 'dr. Rina'
+  },
+  footer: 'Dispensed by the hospital pharmacy.',
+  dispensedMovementIds
+});
+
+describe('voiding a prescription', () => {
+  beforeEach(async () => {
+    await login('nurse', 'demo123');
+  });
+
+  it('returns the dispensed units to their batches once', async () => {
+    const before = (await getStockLevel('amoxicillin')).quantityOnHand;
+    const { movements } = await dispenseMedication({ drug: 'amoxicillin', quantity: 15, patientMrn: 'MRN-000001' });
+    const issued = await archiveDocument(prescription(movements.map(m => m.id)));
+    expect((await getStockLevel('amoxicillin')).quantityOnHand).toBe(before - 15);
+
+    const voided = await voidDocument(issued.documentNumber, 'Wrong patient');
+    expect(voided.status).toBe('VOID');
+    expect(voided.stockNote).toContain('Stock returned: 15 units of amoxicillin');
+    expect((await getStockLevel('amoxicillin')).quantityOnHand).toBe(before);
+
+    const returns = (await listStockMovements('amoxicillin')).filter(m => m.kind === 'RETURN');
+    expect(returns.map(m => m.reverses).sort()).toEqual(movements.map(m => m.id).sort());
+    expect(returns.every(m => m.reference === issued.documentNumber)).toBe(true);
+
+    // The same movements cannot be put back twice
+    const copy = await archiveDocument(prescription(movements.map(m => m.id)));
+    await voidDocument(copy.documentNumber, 'Duplicate');
+    expect((await getStockLevel('amoxicillin')).quantityOnHand).toBe(before);
+  });
+
+  it('tells staff to post a stock correction when nothing was dispensed on file', async () => {
+    const issued = await archiveDocument(prescription());
+    const voided = await voidDocument(issued.documentNumber, 'Entered in error');
+    expect(voided.stockNote).toMatch(/^No stock returned.*stock correction/);
+  });
+});
+
+describe('amend_document tool', () => {
+  beforeEach(async () => {
+    await login('pharmacist', 'demo123');
+  });
+
+  it('applies the changes given as field/value pairs', async () => {
+    const issued = await archiveDocument(prescription());
+    const amend = documentArchiveTools.find(t => t.declaration.name === 'amend_document')!;
+    const context = { agent: AgentType.PHARMACY, documents: [], alerts: [], auditEvents: [], documentIssues: [], approvals: [] };
+    const result = await amend.handler({
+      documentNumber: issued.documentNumber,
+      changes: [{ field: 'frequency', value: '2x daily' }, { field: 'instructions', value: 'After meals' }],
+      reason: 'Dose interval corrected'
+    }, context);
+
+    expect(result).toMatchObject({ version: 2, status: 'CURRENT' });
+    expect(context.documents[0]).toMatchObject({ content: { frequency: '2x daily', instructions: 'After meals', quantity: 15 } });
+  });
+
+  it('leaves the interaction warning to the screening code', async () => {
+    const issued = await archiveDocument({ ...prescription(), content: { ...prescription().content, interaction_warning: '[MAJOR] Bleeding risk' } });
+    const amend = documentArchiveTools.find(t => t.declaration.name === 'amend_document')!;
+    const context = { agent: AgentType.PHARMACY, documents: [], alerts: [], auditEvents: [], documentIssues: [], approvals: [] };
+
+    await expect(amend.handler({
+      documentNumber: issued.documentNumber,
+      changes: [{ field: 'interaction_warning', value: '' }],
+      reason: 'Warning not relevant'
+    }, context)).rejects.toThrow('interaction_warning cannot be amended');
+  });
+});
@@ -0,0 +1,38 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { login } from '../services/accessControl';
+import { generateDocumentTool } from '../services/documents';
+import { AgentType } from '../types';
+
+describe('generate_document tool', () => {
+  beforeEach(async () => {
+    await login('pharmacist', 'demo123');
+  });
+
+  it('does not offer the interaction warning to the model', () => {
+    const fields = generateDocumentTool.declaration.parameters?.properties?.fields;
+    expect(Object.keys(fields?.properties ?? {})).toContain('drug');
+    expect(Object.keys(fields?.properties ?? {})).not.toContain('interaction_warning');
+  });
+
+  it('drops an interaction warning the model writes itself', async () => {
+    const context = { agent: AgentType.PHARMACY, documents: [], alerts: [], auditEvents: [], documentIssues: [], approvals: [] };
+    const result = await generateDocumentTool.handler({
+      docType: 'PRESCRIPTION',
+      title: 'Prescription - Siti Rahayu',
+      fields: {
+        mrn: 'MRN-000002',
+        patient_name: 'Siti Rahayu',
+        drug: 'Amoxicillin 500 mg',
+        dose: '1 capsule',
+        frequency: '3x daily',
+        quantity: 15,
+        prescriber: 'dr. Rina',
+        interaction_warning: 'None found'
+      },
+      complianceNote: 'Dispensed by the hospital pharmacy.'
+    }, context);
+
+    expect(result).toMatchObject({ status: 'generated', warning: undefined });
+    expect(context.documents[0].content).not.toHaveProperty('interaction_warning');
+  });
+});
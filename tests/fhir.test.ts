@@ -0,0 +1,194 @@
+import { readFileSync } from 'node:fs';
+import { beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { login } from '../services/accessControl';
+import { issueInvoice } from '../services/accounting';
+import { createClaim } from '../services/claims';
+import { archiveDocument, searchDocuments } from '../services/documentArchive';
+import { FHIR_SYSTEMS, exportFhirBundle, importFhirBundle } from '../services/fhir';
+import { admitPatient, findPatients, getPatient, registerPatient } from '../services/patientRegistry';
+import { bookAppointment } from '../services/scheduling';
+import { FhirBundle, FhirImportOutcome, FhirPatient, FhirReference, Patient } from '../types';
+
+const loadBundle = (name: string): FhirBundle =>
+  JSON.parse(readFileSync(new URL(`./fixtures/${name}`, import.meta.url), 'utf8'));
+
+// Exports are written to disk and read back by the other system
+const throughJson = (bundle: FhirBundle): FhirBundle => JSON.parse(JSON.stringify(bundle));
+
+const outcomeOf = (outcomes: FhirImportOutcome[], resourceType: string, id: string) =>
+  outcomes.find(o => o.resourceType === resourceType && o.id === id);
+
+const statusesByType = (outcomes: FhirImportOutcome[]) =>
+  Object.fromEntries(outcomes.map(o => [o.resourceType, o.status]));
+
+/**
+ * A registered patient with one of every exported record: allergies, a stay,
+ * an appointment, a prescription, an invoice and a claim on it.
+ */
+const registerPatientWithRecords = async () => {
+  const patient = await registerPatient({
+    fullName: 'Dewi Lestari',
+    dateOfBirth: '1992-07-21',
+    sex: 'F',
+    nik: '3171016107920004',
+    allergies: ['Sulfa', 'Latex']
+  });
+  await admitPatient(patient.mrn, { ward: 'Bangsal Mawar', diagnosis: 'Dengue fever' });
+  await bookAppointment({ doctorId: 'DR-INT-01', patientMrn: patient.mrn, start: '2027-03-01T10:00', reason: 'Follow-up' });
+  await archiveDocument({
+    type: 'PRESCRIPTION',
+    title: 'Prescription - Dewi Lestari',
+    content: {
+      mrn: patient.mrn,
+      patient_name: patient.fullName,
+      drug: 'Paracetamol 500 mg',
+      dose: '1 tablet',
+      frequency: '3x daily',
+      quantity: 10,
+      prescriber: 'dr. Rudi Hartono, Sp.PD'
+    },
+    footer: 'Dispensed by the hospital pharmacy.'
+  });
+  const { invoice } = await issueInvoice({
+    patientMrn: patient.mrn,
+    lineItems: [{ description: 'Inpatient room, 2 nights', category: 'INPATIENT', quantity: 2, unitPrice: 450000 }]
+  });
+  await createClaim({ payerId: 'BPJS', patientMrn: patient.mrn, memberId: '0001234567890', invoiceIds: [invoice.id] });
+  return patient;
+};
+
+describe('FHIR bundle round trip', () => {
+  let patient: Patient;
+
+  beforeAll(async () => {
+    await login('nurse', 'demo123');
+    patient = await registerPatientWithRecords();
+  });
+
+  it('matches every record when an export is imported back into the same registry', async () => {
+    const exported = throughJson(await exportFhirBundle({ patientMrn: patient.mrn }));
+    expect(exported.entry?.map(e => e.resource.resourceType).sort()).toEqual([
+      'AllergyIntolerance', 'AllergyIntolerance', 'Appointment', 'Claim', 'Encounter', 'Invoice', 'MedicationRequest', 'Patient'
+    ]);
+
+    const outcomes = await importFhirBundle(exported);
+    expect(outcomes.filter(o => o.status !== 'SKIPPED').every(o => o.status === 'MATCHED')).toBe(true);
+    expect(outcomes.filter(o => o.status === 'SKIPPED').map(o => o.resourceType)).toEqual(['AllergyIntolerance', 'AllergyIntolerance']);
+    expect((await getPatient(patient.mrn)).allergies).toEqual(['Sulfa', 'Latex']);
+  });
+
+  it('recreates the patient and files the records in another registry', async () => {
+    const exported = throughJson(await exportFhirBundle({ patientMrn: patient.mrn }));
+
+    // A fresh set of modules has its own empty in-memory registry, as another hospital would
+    vi.resetModules();
+    const other = await import('../services/fhir');
+    const otherRegistry = await import('../services/patientRegistry');
+    const outcomes = await other.importFhirBundle(exported);
+    expect(statusesByType(outcomes)).toEqual({
+      Patient: 'CREATED',
+      AllergyIntolerance: 'SKIPPED',
+      Encounter: 'CREATED',
+      Appointment: 'CREATED',
+      MedicationRequest: 'CREATED',
+      Invoice: 'CREATED',
+      Claim: 'CREATED'
+    });
+
+    const [copy] = await otherRegistry.findPatients('Dewi Lestari');
+    expect(copy).toMatchObject({
+      fullName: patient.fullName,
+      dateOfBirth: patient.dateOfBirth,
+      sex: patient.sex,
+      nik: patient.nik,
+      allergies: patient.allergies,
+      status: 'ADMITTED',
+      ward: 'Bangsal Mawar',
+      diagnosis: 'Dengue fever'
+    });
+
+    // Exporting the copy again gives the same patient
+    const reexported = await other.exportFhirBundle({ patientMrn: copy.mrn });
+    const original = exported.entry?.find(e => e.resource.resourceType === 'Patient')?.resource as FhirPatient;
+    const roundTripped = reexported.entry?.find(e => e.resource.resourceType === 'Patient')?.resource as FhirPatient;
+    expect({ ...roundTripped, id: original.id, identifier: roundTripped.identifier?.map(i => i.system) })
+      .toEqual({ ...original, identifier: original.identifier?.map(i => i.system) });
+  });
+
+  it('reports prescriptions, invoices and claims whose local number belongs to another patient', async () => {
+    const exported = throughJson(await exportFhirBundle({ patientMrn: patient.mrn }));
+    // Budi Santoso's record, with Dewi's document, invoice and claim numbers attached to him
+    const budi = throughJson(await exportFhirBundle({ patientMrn: 'MRN-000001' }));
+    const reassigned = exported.entry!
+      .filter(e => e.resource.resourceType === 'Invoice' || e.resource.resourceType === 'Claim' || e.resource.resourceType === 'MedicationRequest')
+      .map(e => {
+        const resource = { ...e.resource };
+        for (const key of ['subject', 'patient']) {
+          if (resource[key]) resource[key] = { reference: 'Patient/MRN-000001' } satisfies FhirReference;
+        }
+        return { resource };
+      });
+
+    const outcomes = await importFhirBundle({ ...budi, entry: [...budi.entry!, ...reassigned] });
+    expect(outcomes.filter(o => o.status === 'CONFLICT').map(o => o.resourceType).sort()).toEqual(['Claim', 'Invoice', 'MedicationRequest']);
+  });
+});
+
+describe('importing bundles from other systems', () => {
+  beforeEach(async () => {
+    await login('nurse', 'demo123');
+  });
+
+  it('registers a patient whose MRN comes from another hospital instead of merging it', async () => {
+    const outcomes = await importFhirBundle(loadBundle('fhir-foreign-bundle.json'));
+
+    const andi = outcomeOf(outcomes, 'Patient', 'andi');
+    expect(andi?.status).toBe('CREATED');
+    const [registered] = await findPatients('Andi Wijaya');
+    expect(registered.mrn).not.toBe('MRN-000001');
+    expect(registered.allergies).toEqual(['Sulfa']);
+    expect((await getPatient('MRN-000001')).fullName).toBe('Budi Santoso');
+
+    expect(outcomeOf(outcomes, 'Appointment', 'appt-559')).toMatchObject({ status: 'CREATED' });
+    expect(outcomeOf(outcomes, 'MedicationRequest', 'rx-3310')).toMatchObject({ status: 'CREATED' });
+    // Their invoice and claim numbers are in their own systems, so they are filed rather than matched to ours
+    expect(outcomeOf(outcomes, 'Invoice', 'inv-8812')).toMatchObject({ status: 'CREATED' });
+    expect(outcomeOf(outcomes, 'Claim', 'clm-2201')).toMatchObject({ status: 'CREATED' });
+    expect(outcomeOf(outcomes, 'Observation', 'obs-1')).toMatchObject({ status: 'SKIPPED' });
+    const filed = await searchDocuments({ patientMrn: registered.mrn, type: 'PRESCRIPTION' });
+    expect(filed.map(d => d.content.drug)).toEqual(['Paracetamol 500 mg']);
+  });
+
+  it('merges a patient matched on NIK and adds the allergies not yet on record', async () => {
+    const outcomes = await importFhirBundle(loadBundle('fhir-foreign-bundle.json'));
+
+    expect(outcomeOf(outcomes, 'Patient', 'budi')).toMatchObject({ status: 'MATCHED', detail: expect.stringContaining('MRN-000001') });
+    expect((await getPatient('MRN-000001')).allergies).toEqual(['Penicillin', 'Sulfa']);
+  });
+
+  it('matches the documents filed by an earlier import of the same bundle instead of filing them again', async () => {
+    const before = await searchDocuments({ includeHistory: true });
+    const outcomes = await importFhirBundle(loadBundle('fhir-foreign-bundle.json'));
+
+    expect(outcomes.filter(o => o.status === 'CREATED')).toEqual([]);
+    for (const [resourceType, id] of [['MedicationRequest', 'rx-3310'], ['Invoice', 'inv-8812'], ['Claim', 'clm-2201']]) {
+      expect(outcomeOf(outcomes, resourceType, id)).toMatchObject({ status: 'MATCHED', detail: expect.stringContaining('earlier import') });
+    }
+    expect(await searchDocuments({ includeHistory: true })).toHaveLength(before.length);
+  });
+
+  it('reports a conflict when the identity does not agree with the local MRN', async () => {
+    const outcomes = await importFhirBundle(loadBundle('fhir-conflicting-bundle.json'));
+
+    expect(outcomeOf(outcomes, 'Patient', 'MRN-000001')).toMatchObject({ status: 'CONFLICT', detail: expect.stringContaining('NIK differs') });
+    expect(outcomeOf(outcomes, 'AllergyIntolerance', 'MRN-000001-allergy-1')).toMatchObject({ status: 'FAILED' });
+    expect(outcomeOf(outcomes, 'Encounter', 'MRN-000001-stay')).toMatchObject({ status: 'FAILED', detail: expect.stringContaining('conflicts') });
+    const budi = await getPatient('MRN-000001');
+    expect(budi.allergies).not.toContain('Latex');
+    expect(budi.status).toBe('REGISTERED');
+
+    // Without a NIK on both sides, the name (in any letter case) and the birth date decide
+    expect(outcomeOf(outcomes, 'Patient', 'MRN-000002')).toMatchObject({ status: 'CONFLICT', detail: expect.stringContaining('birth date') });
+    expect(outcomeOf(outcomes, 'Patient', 'MRN-000003')).toMatchObject({ status: 'MATCHED' });
+  });
+});
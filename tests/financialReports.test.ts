@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { financialReportToCsv } from '../services/financialReports';
+import { FinancialReport } from '../types';
+
+const report = (patientName: string, payerName: string): FinancialReport => ({
+  asOf: '2026-10-19',
+  aging: [{ bucket: '0-30', invoiceCount: 1, amount: 250000 }],
+  totalOutstanding: 250000,
+  averageDailyRevenue: 1000,
+  daysInAR: 250,
+  denialRates: [{ payerId: 'P1', payerName, decided: 2, denied: 1, denialRate: 0.5 }],
+  revenue: [],
+  outstandingInvoices: [{
+    invoiceId: 'INV-1', patientMrn: 'MRN-000001', patientName, date: '2026-10-01',
+    total: 300000, paid: 350000, outstanding: -50000, ageDays: 18, bucket: '0-30'
+  }]
+});
+
+describe('financial report CSV', () => {
+  it.each([
+    ['=HYPERLINK("http://x.example","Budi")', `"'=HYPERLINK(""http://x.example"",""Budi"")"`],
+    ['+62 Budi', `'+62 Budi`],
+    ['-Budi', `'-Budi`],
+    ['@SUM(A1:A2)', `'@SUM(A1:A2)`],
+    ['Budi Santoso', 'Budi Santoso']
+  ])('writes the text %s as inert data', (name, cell) => {
+    const csv = financialReportToCsv(report(name, name));
+    expect(csv).toContain(`\n${cell},2,1,50\n`);
+    expect(csv).toContain(`INV-1,MRN-000001,${cell},2026-10-01,`);
+  });
+
+  it('leaves negative amounts as numbers', () => {
+    const csv = financialReportToCsv(report('Budi Santoso', 'BPJS'));
+    expect(csv).toContain(',300000,350000,-50000,18,0-30');
+  });
+});
@@ -0,0 +1,106 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { login } from '../services/accessControl';
+import { executeAgentTask, executePlan, orchestrateRequest } from '../services/agentService';
+import { listAuditEntries } from '../services/auditLog';
+import { setLanguage } from '../services/i18n';
+import { setLlmProvider } from '../services/llmClient';
+import { createMockProvider } from '../services/mockProvider';
+import { DEFAULT_RETRY_POLICY } from '../services/resilientProvider';
+import { MockFixture } from '../services/mockFixtures';
+import { isNetworkError } from '../services/outbox';
+import { getPatient } from '../services/patientRegistry';
+import { AgentType } from '../types';
+
+const noHistory = { summary: '', turns: [] };
+
+describe('orchestrator → sub-agent flow on the mock provider', () => {
+  beforeEach(async () => {
+    setLanguage('en');
+    setLlmProvider(createMockProvider());
+    await login('nurse', 'demo123');
+  });
+
+  it('routes an admission request and runs its tool calls against the registry', async () => {
+    const plan = await orchestrateRequest('Please admit Budi Santoso for observation');
+    expect(plan.steps.map(s => s.agent)).toEqual([AgentType.ADMISSION]);
+    expect(plan.confidence).toBeGreaterThanOrEqual(0.6);
+
+    const [outcome] = await executePlan(plan, noHistory);
+    expect(outcome.status).toBe('COMPLETED');
+    expect(outcome.result.toolCalls?.map(c => c.name)).toEqual(['find_patient', 'admit_patient', 'generate_document']);
+    expect(outcome.result.document?.type).toBe('ADMISSION_FORM');
+    expect(outcome.result.text).toContain('Budi Santoso');
+
+    const patient = await getPatient('MRN-000001');
+    expect(patient.status).toBe('ADMITTED');
+    expect(patient.bedId).toMatch(/^K1-/);
+
+    const actions = (await listAuditEntries()).map(e => e.action);
+    expect(actions.some(a => a.includes('admit_patient'))).toBe(true);
+  });
+
+  it('replays custom fixtures injected by a test', async () => {
+    const fixtures: MockFixture[] = [{
+      id: 'roster',
+      keywords: ['roster'],
+      agent: AgentType.SCHEDULING,
+      reasoning: 'Roster question.',
+      turns: [{ text: 'Custom scripted answer.' }]
+    }];
+    setLlmProvider(createMockProvider(fixtures));
+
+    const plan = await orchestrateRequest('Show the roster');
+    expect(plan.steps[0].agent).toBe(AgentType.SCHEDULING);
+    const [outcome] = await executePlan(plan, noHistory);
+    expect(outcome.result.text).toBe('Custom scripted answer.');
+  });
+
+  it('throws a dropped connection during sub-agent execution so the request can be queued again', async () => {
+    // Retried without backoff, so the test does not wait on the real delays
+    setLlmProvider(
+      { ...createMockProvider(), generate: () => Promise.reject(new TypeError('Failed to fetch')) },
+      { ...DEFAULT_RETRY_POLICY, baseDelayMs: 0 }
+    );
+    const error = await executeAgentTask(AgentType.ADMISSION, 'Please admit Budi Santoso', noHistory).catch(e => e);
+    expect(isNetworkError(error)).toBe(true);
+  });
+
+  it('still answers other model failures with a failed result', async () => {
+    setLlmProvider({ ...createMockProvider(), generate: () => Promise.reject(Object.assign(new Error('Bad request'), { status: 400 })) });
+    const result = await executeAgentTask(AgentType.ADMISSION, 'Please admit Budi Santoso', noHistory);
+    expect(result.failed).toBe(true);
+    // The audit log records why, not just that the step answered
+    expect(result.failureReason).toContain('Bad request');
+  });
+
+  it('keeps only the well-formed parts of an orchestrator plan', async () => {
+    const route = () => Promise.resolve(JSON.stringify({
+      reasoning: 42,
+      confidence: '0.9',
+      alternatives: [AgentType.SCHEDULING, 7, 'NotAnAgent', AgentType.BILLING],
+      steps: [
+        'admit',
+        { id: 'a', agent: 5 },
+        { id: 'a', agent: AgentType.ADMISSION, task: 12, dependsOn: 'x' },
+        { id: 'b', agent: AgentType.BILLING, task: 'Invoice the stay', dependsOn: ['a', {}] }
+      ]
+    }));
+    setLlmProvider({ ...createMockProvider(), route });
+
+    expect(await orchestrateRequest('Admit and invoice Budi Santoso')).toEqual({
+      reasoning: '',
+      confidence: 0,
+      alternatives: [AgentType.SCHEDULING],
+      steps: [
+        { id: 1, agent: AgentType.ADMISSION, task: 'Admit and invoice Budi Santoso', dependsOn: [] },
+        { id: 2, agent: AgentType.BILLING, task: 'Invoice the stay', dependsOn: [1] }
+      ]
+    });
+  });
+
+  it('leaves an unmatched request for the user to route', async () => {
+    const plan = await orchestrateRequest('lorem ipsum');
+    expect(plan.confidence).toBeLessThan(0.6);
+    expect(plan.alternatives.length).toBeGreaterThan(0);
+  });
+});
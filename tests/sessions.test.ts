@@ -0,0 +1,26 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { login } from '../services/accessControl';
+import { setLanguage } from '../services/i18n';
+import { createSession, listSessions, saveSession, unlockSessions } from '../services/sessions';
+import { AgentType } from '../types';
+
+describe('encrypted sessions', () => {
+  beforeAll(async () => {
+    setLanguage('en');
+    await login('nurse', 'demo123');
+    await unlockSessions('nurse', 'demo123');
+  });
+
+  it('saves and reopens a session larger than the call stack allows in one piece', async () => {
+    const session = await createSession({ title: 'Long shift handover' });
+    const note = 'Vital signs stable, continue IV fluids and monitor urine output. '.repeat(4000);
+    await saveSession({
+      ...session,
+      messages: [{ id: 'm1', role: 'model', text: note, sender: AgentType.ADMISSION, timestamp: new Date() }]
+    });
+    expect(note.length).toBeGreaterThan(200_000);
+
+    const reopened = (await listSessions()).find(s => s.id === session.id);
+    expect(reopened?.messages[0].text).toBe(note);
+  });
+});
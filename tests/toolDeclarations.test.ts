@@ -0,0 +1,33 @@
+import { Schema, Type } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import { accountingTools } from '../services/accounting';
+import { approvalTools } from '../services/approvals';
+import { claimTools } from '../services/claims';
+import { documentArchiveTools } from '../services/documentArchive';
+import { generateDocumentTool } from '../services/documents';
+import { financialReportTools } from '../services/financialReports';
+import { formularyTools } from '../services/formulary';
+import { inventoryTools } from '../services/inventory';
+import { findPatientTool, patientTools } from '../services/patientRegistry';
+import { schedulingTools } from '../services/scheduling';
+import { wardTools } from '../services/wards';
+
+const ALL_TOOLS = [
+  ...accountingTools, ...approvalTools, ...claimTools, ...documentArchiveTools, generateDocumentTool, ...financialReportTools,
+  ...formularyTools, ...inventoryTools, findPatientTool, ...patientTools, ...schedulingTools, ...wardTools
+];
+
+// Paths of OBJECT schemas without properties, which Gemini's function-declaration validation rejects
+const emptyObjects = (schema: Schema | undefined, path: string): string[] => {
+  if (!schema) return [];
+  const own = schema.type === Type.OBJECT && Object.keys(schema.properties ?? {}).length === 0 ? [path] : [];
+  const nested = Object.entries(schema.properties ?? {}).flatMap(([key, child]) => emptyObjects(child, `${path}.${key}`));
+  return [...own, ...nested, ...emptyObjects(schema.items, `${path}[]`)];
+};
+
+// The mock provider never validates declarations, so the live provider's rules are checked here
+describe('tool declarations', () => {
+  it.each(ALL_TOOLS.map(tool => [tool.declaration.name, tool.declaration]))('%s declares every object parameter', (name, declaration) => {
+    expect(emptyObjects(declaration.parameters, String(name))).toEqual([]);
+  });
+});
@@ -6,13 +6,417 @@ export enum AgentType {
   BILLING = 'BillingAndFinanceAgent',
 }
 
+export type StaffRole = 'FRONT_DESK' | 'NURSE' | 'PHARMACIST' | 'DOCTOR' | 'BILLING_CLERK' | 'FINANCE_SUPERVISOR' | 'AUDITOR';
+
+export interface StaffUser {
+  username: string;
+  fullName: string;
+  role: StaffRole;
+}
+
+export type AdmissionStatus = 'REGISTERED' | 'ADMITTED' | 'DISCHARGED';
+
+export interface Patient {
+  mrn: string; // Medical Record Number (No. Rekam Medis)
+  fullName: string;
+  dateOfBirth: string; // ISO date, YYYY-MM-DD
+  sex: 'M' | 'F';
+  nik?: string; // Nomor Induk Kependudukan (national ID)
+  phone?: string;
+  address?: string;
+  allergies: string[];
+  currentMedications?: string[];
+  status: AdmissionStatus;
+  ward?: string; // Ward name of the current or last stay
+  bedId?: string; // Set while admitted, e.g. ICU-01-A
+  diagnosis?: string;
+  registeredAt: string;
+  admittedAt?: string;
+  dischargedAt?: string;
+}
+
+// --- Wards & Beds ---
+
+export type WardClass = 'VIP' | 'KELAS_1' | 'KELAS_2' | 'KELAS_3' | 'ICU';
+
+export interface Ward {
+  id: string;
+  name: string;
+  wardClass: WardClass;
+  rooms: { id: string; beds: number }[];
+}
+
+export interface BedAssignment {
+  bedId: string;
+  patientMrn: string;
+  patientName: string;
+  assignedAt: string; // ISO timestamp
+}
+
+export interface BedStatus {
+  bedId: string; // <room>-<letter>, e.g. K1-201-B
+  roomId: string;
+  wardId: string;
+  wardName: string;
+  wardClass: WardClass;
+  occupant?: BedAssignment;
+}
+
+export interface WorkingHours {
+  day: number; // 0 = Sunday ... 6 = Saturday
+  start: string; // HH:MM
+  end: string; // HH:MM
+}
+
+export interface Doctor {
+  id: string;
+  name: string;
+  department: string;
+  workingHours: WorkingHours[];
+  slotMinutes: number;
+}
+
+export interface Appointment {
+  id: string;
+  doctorId: string;
+  patientMrn: string;
+  start: string; // Local date-time, YYYY-MM-DDTHH:MM
+  end: string;
+  status: 'BOOKED' | 'CANCELLED';
+  reason?: string;
+  rescheduledFrom?: string; // id of the appointment this one replaces
+}
+
+export interface AppointmentSlot {
+  doctorId: string;
+  doctorName: string;
+  department: string;
+  start: string;
+  end: string;
+  available: boolean;
+}
+
+export type InteractionSeverity = 'MINOR' | 'MODERATE' | 'MAJOR' | 'CONTRAINDICATED';
+
+export interface Drug {
+  id: string;
+  name: string; // Generic name
+  brandNames: string[];
+  strengths: string[];
+  form: string;
+  drugClass: string;
+  allergyClasses: string[]; // Allergies that rule this drug out, e.g. 'penicillin'
+}
+
+export interface DrugInteraction {
+  drugs: [string, string]; // Drug ids
+  severity: InteractionSeverity;
+  description: string;
+}
+
+export interface InteractionFinding {
+  kind: 'DRUG_DRUG' | 'ALLERGY' | 'NOT_IN_FORMULARY';
+  severity: InteractionSeverity;
+  drugs: string[];
+  description: string;
+}
+
+export interface InteractionCheckResult {
+  findings: InteractionFinding[];
+  blocked: boolean; // Must not be prescribed
+  flagged: boolean; // May be prescribed with a documented warning
+}
+
+export interface StockBatch {
+  batchNumber: string;
+  expiryDate: string; // YYYY-MM-DD
+  quantityOnHand: number;
+  receivedAt: string;
+}
+
+export interface InventoryItem {
+  drugId: string;
+  reorderThreshold: number;
+  batches: StockBatch[];
+}
+
+export interface StockMovement {
+  id: string;
+  timestamp: string;
+  kind: 'RECEIVE' | 'DISPENSE' | 'RETURN';
+  drugId: string;
+  batchNumber: string;
+  quantity: number;
+  patientMrn?: string;
+  reference?: string; // Supplier delivery note, prescription title or voided document number
+  reverses?: string; // RETURN only: the DISPENSE movement put back
+}
+
+export interface StockAlert {
+  kind: 'LOW_STOCK' | 'NEAR_EXPIRY';
+  drugId: string;
+  drugName: string;
+  message: string;
+}
+
+export type AccountType = 'ASSET' | 'LIABILITY' | 'EQUITY' | 'REVENUE' | 'EXPENSE';
+
+export interface Account {
+  code: string;
+  name: string;
+  type: AccountType;
+}
+
+export interface JournalLine {
+  accountCode: string;
+  debit: number; // Rupiah, whole numbers
+  credit: number;
+}
+
+export interface JournalEntry {
+  id: string;
+  date: string; // YYYY-MM-DD
+  description: string;
+  reference?: string; // Invoice or payment the entry belongs to
+  lines: JournalLine[];
+  postedAt: string;
+}
+
+export type RevenueCategory = 'OUTPATIENT' | 'INPATIENT' | 'PHARMACY' | 'LABORATORY' | 'PROCEDURE';
+
+export interface InvoiceLineItem {
+  description: string;
+  category: RevenueCategory;
+  quantity: number;
+  unitPrice: number;
+  taxable: boolean;
+  amount: number; // quantity x unitPrice, computed
+}
+
+// What issue_invoice receives; amounts and tax are computed from it
+export type InvoiceLineInput = Pick<InvoiceLineItem, 'description' | 'category' | 'quantity' | 'unitPrice'> & { taxable?: boolean };
+
+export interface Invoice {
+  id: string;
+  patientMrn: string;
+  patientName: string;
+  date: string;
+  lineItems: InvoiceLineItem[];
+  subtotal: number;
+  tax: number;
+  total: number;
+  amountPaid: number;
+  status: 'ISSUED' | 'PARTIALLY_PAID' | 'PAID';
+}
+
+export interface TrialBalanceRow {
+  code: string;
+  name: string;
+  debit: number;
+  credit: number;
+}
+
+export type ClaimStatus = 'DRAFT' | 'SUBMITTED' | 'PENDING' | 'APPROVED' | 'PARTIALLY_PAID' | 'DENIED' | 'APPEALED';
+
+export interface Payer {
+  id: string;
+  name: string;
+  kind: 'GOVERNMENT' | 'PRIVATE';
+  memberIdLabel: string;
+  memberIdPattern?: string; // Regex source the member id must match
+  requiresSep: boolean; // BPJS: Surat Eligibilitas Peserta number required to submit
+  submissionWindowDays: number; // Days after service within which a claim must be submitted
+}
+
+export interface ClaimLineItem {
+  invoiceId: string;
+  description: string;
+  amount: number;
+}
+
+export interface ClaimTransition {
+  from: ClaimStatus | null;
+  to: ClaimStatus;
+  at: string;
+  note?: string;
+}
+
+export interface Claim {
+  id: string;
+  payerId: string;
+  patientMrn: string;
+  memberId: string;
+  sepNumber?: string;
+  lineItems: ClaimLineItem[];
+  totalClaimed: number;
+  approvedAmount?: number;
+  paidAmount: number;
+  denialReason?: string;
+  status: ClaimStatus;
+  history: ClaimTransition[];
+}
+
+// --- Financial Reports ---
+
+export type AgingBucket = '0-30' | '31-60' | '61-90' | '90+'; // Days since the invoice date
+
+export interface OutstandingInvoice {
+  invoiceId: string;
+  patientMrn: string;
+  patientName: string;
+  date: string;
+  total: number;
+  paid: number; // Patient payments plus insurer payments on claims covering the invoice
+  outstanding: number;
+  ageDays: number;
+  bucket: AgingBucket;
+}
+
+export interface PayerDenialRate {
+  payerId: string;
+  payerName: string;
+  decided: number; // Claims the payer has ruled on at least once
+  denied: number;  // Of those, claims denied at least once (appeals do not erase a denial)
+  denialRate: number; // denied / decided; 0 when nothing has been decided
+}
+
+export interface DepartmentRevenue {
+  month: string; // YYYY-MM
+  department: RevenueCategory;
+  amount: number; // Invoiced line amounts, before PPN
+}
+
+/**
+ * Revenue cycle figures computed from the stored invoices and claims.
+ */
+export interface FinancialReport {
+  asOf: string; // YYYY-MM-DD
+  aging: { bucket: AgingBucket; invoiceCount: number; amount: number }[];
+  totalOutstanding: number;
+  averageDailyRevenue: number; // Over the days in A/R window
+  daysInAR: number | null; // Outstanding / average daily revenue; null without revenue in the window
+  denialRates: PayerDenialRate[];
+  revenue: DepartmentRevenue[];
+  outstandingInvoices: OutstandingInvoice[]; // Oldest first
+}
+
+export type DocumentType = 'INVOICE' | 'PRESCRIPTION' | 'ADMISSION_FORM' | 'MEMO';
+
+export interface DocumentLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  amount: number;
+}
+
 export interface GeneratedDocumentData {
   title: string;
-  type: 'INVOICE' | 'PRESCRIPTION' | 'ADMISSION_FORM' | 'MEMO';
+  type: DocumentType;
   content: Record<string, string | number>;
+  // INVOICE only: itemised charges, rendered as a table
+  lineItems?: DocumentLineItem[];
   footer: string;
+  // Set once the document is filed in the archive; transient alerts have none
+  documentNumber?: string; // e.g. INV/2026/10/0001
+  version?: number;
+  status?: DocumentStatus;
+  approvalId?: string; // Set while the document is held for approval; it is not filed until approved
+  dispensedMovementIds?: string[]; // PRESCRIPTION only: the stock it dispensed, returned if it is voided
+  importedFrom?: string; // Filed from a FHIR import: the source resource, so importing it again matches instead of refiling
+}
+
+// CURRENT is the live version; an amendment marks its predecessor SUPERSEDED
+export type DocumentStatus = 'CURRENT' | 'SUPERSEDED' | 'VOID';
+
+/**
+ * One version of a filed document. Amendments and voids never edit a
+ * version in place; they add a new one pointing back at its predecessor.
+ */
+export interface ArchivedDocument extends GeneratedDocumentData {
+  id: string; // `${documentNumber}#v${version}`
+  documentNumber: string;
+  version: number;
+  status: DocumentStatus;
+  patientMrn?: string;
+  issuedAt: string; // ISO timestamp
+  issuedBy: string;
+  supersedesId?: string; // Previous version, for amendments and voids
+  changeReason?: string;
+  stockNote?: string; // Voided PRESCRIPTION: what happened to the stock it dispensed
+}
+
+// --- Approvals ---
+
+export type ApprovableDocumentType = Extract<DocumentType, 'PRESCRIPTION' | 'INVOICE'>;
+
+export type ApprovalStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export interface ApprovalThresholds {
+  invoiceTotal: number;          // Rupiah; invoices at or above this total are held
+  prescriptionQuantity: number;  // Units per drug; prescriptions above this are held
+  holdFlaggedPrescriptions: boolean; // Hold prescriptions that carry an interaction warning
+}
+
+export type ApprovalReason =
+  | { code: 'INVOICE_TOTAL'; value: number; threshold: number }
+  | { code: 'PRESCRIPTION_QUANTITY'; value: number; threshold: number }
+  | { code: 'INTERACTION_WARNING'; warning: string };
+
+/**
+ * A high-risk document held before it takes effect: a prescription is not
+ * dispensed and an invoice is not posted until someone authorised approves it.
+ */
+export interface ApprovalRequest {
+  id: string; // APR-000001
+  type: ApprovableDocumentType;
+  status: ApprovalStatus;
+  document: GeneratedDocumentData; // The draft as it will be issued
+  invoiceLines?: InvoiceLineInput[]; // INVOICE: posted to the ledger on approval
+  reasons: ApprovalReason[];
+  patientMrn?: string;
+  agent: AgentType;
+  requestedBy: string;
+  requestedAt: string; // ISO timestamp
+  decidedBy?: string;
+  decidedAt?: string;
+  decisionNote?: string;
+  editedFields?: string[]; // Fields the approver changed before approving
+  documentNumber?: string; // The issued document, once approved
+}
+
+export type DocumentFieldType = 'string' | 'number' | 'currency' | 'date'; // currency: whole Rupiah
+
+export interface DocumentFieldSpec {
+  key: string;
+  label: string;
+  type: DocumentFieldType;
+  required: boolean;
+  description: string;
+  setByCode?: boolean; // Filled in by the hospital's checks, never offered to the model
+}
+
+export interface DocumentSchema {
+  type: DocumentType;
+  fields: DocumentFieldSpec[];
+  requiresLineItems: boolean;
+  // Whether keys outside `fields` are accepted (free-form memos)
+  allowExtraFields: boolean;
+}
+
+export interface GroundingSource {
+  uri: string;
+  title: string;
+}
+
+export interface ToolInvocation {
+  name: string;
+  args: Record<string, unknown>;
+  ok: boolean;
 }
 
+// Lifecycle of a request typed while offline: queued, replaying, then sent
+export type OutboxStatus = 'QUEUED' | 'SENDING' | 'SENT';
+
 export interface ChatMessage {
   id: string;
   role: 'user' | 'model';
@@ -22,13 +426,259 @@ export interface ChatMessage {
   // Optional: If the agent generated a document tool call
   documentData?: GeneratedDocumentData;
   // Optional: Grounding sources from search
-  groundingSources?: Array<{ uri: string; title: string }>;
+  groundingSources?: GroundingSource[];
+  // Optional: System alerts raised while the agent worked (e.g. low stock MEMOs)
+  alerts?: GeneratedDocumentData[];
+  // Optional: Routing and tool steps reported while the request ran
+  progress?: AgentProgressEvent[];
+  // True while the reply is still streaming in
+  pending?: boolean;
+  // Optional: Position in a multi-step plan, when the request was split across agents
+  planStep?: { index: number; total: number; status?: PlanStepStatus };
+  // Optional: Routing the user must confirm before the request runs
+  routingChoices?: { proposed: boolean; agents: AgentType[] };
+  // Optional: Set on user messages queued while offline; `agent` is the agent pinned at the time
+  outbox?: { status: OutboxStatus; queuedAt: string; agent?: AgentType };
 }
 
+/**
+ * A named, persistent conversation, optionally tied to one patient's encounter.
+ * Stored encrypted; this is the decrypted form.
+ */
+export interface ConversationSession {
+  id: string;
+  title: string;
+  patientMrn?: string;
+  encounterStart?: string; // Admission time of the encounter the session belongs to
+  createdAt: string;
+  updatedAt: string;
+  messages: ChatMessage[];
+  summary: string;         // Summary of messages[0, summarizedCount), written by the model
+  summarizedCount: number;
+}
+
+export interface HistoryTurn {
+  role: 'user' | 'model';
+  sender: string; // 'User' or the agent that replied
+  text: string;
+}
+
+/**
+ * What the model sees of earlier turns: a running summary plus the recent turns verbatim.
+ */
+export interface ConversationHistory {
+  summary: string;
+  turns: HistoryTurn[];
+}
+
+/**
+ * One sub-task of an orchestrated request, handled by a single sub-agent.
+ */
+export interface PlanStep {
+  id: number;
+  agent: AgentType;
+  task: string;        // Self-contained instruction for the sub-agent
+  dependsOn: number[]; // Earlier steps whose results this step needs
+}
+
+export interface OrchestrationPlan {
+  reasoning: string;
+  steps: PlanStep[];         // In execution order; empty when routing failed
+  confidence: number;        // 0-1, the orchestrator's confidence in the plan
+  alternatives: AgentType[]; // Other agents that could plausibly handle the request
+}
+
+export type PlanStepStatus = 'COMPLETED' | 'FAILED' | 'SKIPPED';
+
+/**
+ * Live status reported while a request is handled, shown in the chat and the sidebar.
+ */
+export type AgentProgressEvent =
+  | { kind: 'PLANNED'; plan: OrchestrationPlan }
+  | { kind: 'STEP_STARTED'; step: PlanStep; index: number; total: number }
+  | { kind: 'STEP_FINISHED'; step: PlanStep; status: PlanStepStatus }
+  | { kind: 'TOOL_STARTED'; agent: AgentType; tool: string }
+  | { kind: 'TOOL_FINISHED'; agent: AgentType; tool: string; ok: boolean };
+
+export type AuditStatus = 'SUCCESS' | 'PENDING' | 'DENIED' | 'FAILED';
+
 export interface AuditLogEntry {
   id: string;
-  timestamp: string;
+  sequence: number;
+  timestamp: string; // ISO 8601
+  actor: string; // Staff user responsible for the action
   agent: AgentType;
   action: string;
-  status: 'SUCCESS' | 'PENDING' | 'DENIED';
-}
\ No newline at end of file
+  status: AuditStatus;
+  patientMrn?: string;
+  toolName?: string;
+  argsDigest?: string; // SHA-256 of the tool arguments; raw arguments are not retained
+  prevHash: string;
+  hash: string; // SHA-256 over this entry's fields and prevHash
+}
+
+// An audit-worthy domain event raised inside a tool, logged against the tool call that raised it
+export interface AuditEvent {
+  action: string;
+  status: AuditStatus;
+  patientMrn?: string;
+}
+
+// HL7 FHIR R4, limited to the elements this hospital exchanges. Bundles from
+// other systems are untrusted, so every element beyond resourceType is optional.
+export interface FhirResource {
+  resourceType: string;
+  id?: string;
+  [key: string]: unknown;
+}
+
+export interface FhirIdentifier {
+  use?: string;
+  system?: string;
+  value?: string;
+}
+
+export interface FhirReference {
+  reference?: string; // e.g. Patient/MRN-000001
+  identifier?: FhirIdentifier;
+  display?: string;
+}
+
+export interface FhirCoding {
+  system?: string;
+  code?: string;
+  display?: string;
+}
+
+export interface FhirCodeableConcept {
+  coding?: FhirCoding[];
+  text?: string;
+}
+
+export interface FhirMoney {
+  value?: number;
+  currency?: string;
+}
+
+export interface FhirExtension {
+  url: string;
+  valueCode?: string;
+  valueString?: string;
+}
+
+export interface FhirPatient extends FhirResource {
+  resourceType: 'Patient';
+  identifier?: FhirIdentifier[];
+  active?: boolean;
+  name?: { use?: string; text?: string; family?: string; given?: string[] }[];
+  gender?: string;
+  birthDate?: string;
+  telecom?: { system?: string; value?: string; use?: string }[];
+  address?: { use?: string; text?: string }[];
+}
+
+export interface FhirAllergyIntolerance extends FhirResource {
+  resourceType: 'AllergyIntolerance';
+  clinicalStatus?: FhirCodeableConcept;
+  code?: FhirCodeableConcept;
+  patient?: FhirReference;
+}
+
+export interface FhirEncounter extends FhirResource {
+  resourceType: 'Encounter';
+  status?: string;
+  class?: FhirCoding;
+  subject?: FhirReference;
+  period?: { start?: string; end?: string };
+  reasonCode?: FhirCodeableConcept[];
+  location?: { location?: FhirReference }[];
+}
+
+export interface FhirAppointment extends FhirResource {
+  resourceType: 'Appointment';
+  identifier?: FhirIdentifier[];
+  status?: string;
+  serviceType?: FhirCodeableConcept[];
+  description?: string;
+  start?: string;
+  end?: string;
+  participant?: { actor?: FhirReference; status?: string }[];
+}
+
+export interface FhirMedicationRequest extends FhirResource {
+  resourceType: 'MedicationRequest';
+  identifier?: FhirIdentifier[];
+  status?: string;
+  intent?: string;
+  medicationCodeableConcept?: FhirCodeableConcept;
+  subject?: FhirReference;
+  authoredOn?: string;
+  requester?: FhirReference;
+  dosageInstruction?: {
+    text?: string;
+    doseAndRate?: { doseQuantity?: { value?: number; unit?: string } }[];
+    timing?: { code?: FhirCodeableConcept };
+  }[];
+  dispenseRequest?: { quantity?: { value?: number } };
+}
+
+export interface FhirPriceComponent {
+  type?: string; // base | surcharge | deduction | discount | tax | informational
+  code?: FhirCodeableConcept;
+  factor?: number;
+  amount?: FhirMoney;
+}
+
+export interface FhirInvoice extends FhirResource {
+  resourceType: 'Invoice';
+  identifier?: FhirIdentifier[];
+  status?: string;
+  subject?: FhirReference;
+  date?: string;
+  issuer?: FhirReference;
+  lineItem?: { sequence?: number; chargeItemCodeableConcept?: FhirCodeableConcept; priceComponent?: FhirPriceComponent[] }[];
+  totalPriceComponent?: FhirPriceComponent[];
+  totalNet?: FhirMoney;
+  totalGross?: FhirMoney;
+  paymentTerms?: string;
+}
+
+export interface FhirClaim extends FhirResource {
+  resourceType: 'Claim';
+  identifier?: FhirIdentifier[];
+  status?: string;
+  extension?: FhirExtension[];
+  type?: FhirCodeableConcept;
+  use?: string;
+  patient?: FhirReference;
+  created?: string;
+  insurer?: FhirReference;
+  provider?: FhirReference;
+  priority?: FhirCodeableConcept;
+  insurance?: { sequence?: number; focal?: boolean; coverage?: FhirReference }[];
+  item?: { sequence?: number; productOrService?: FhirCodeableConcept; net?: FhirMoney; extension?: FhirExtension[] }[];
+  total?: FhirMoney;
+}
+
+// The resource types mapped to and from the registry
+export type SupportedFhirResource =
+  | FhirPatient | FhirAllergyIntolerance | FhirEncounter | FhirAppointment | FhirMedicationRequest | FhirInvoice | FhirClaim;
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id?: string;
+  type: string; // 'collection' for exports; any type is accepted on import
+  timestamp?: string;
+  entry?: { fullUrl?: string; resource: FhirResource }[];
+}
+
+// CONFLICT: the entry claims a local record (MRN, document, invoice or claim
+// number) that belongs to someone else, so it was neither merged nor created
+export type FhirImportStatus = 'CREATED' | 'MATCHED' | 'CONFLICT' | 'SKIPPED' | 'FAILED';
+
+export interface FhirImportOutcome {
+  resourceType: string;
+  id?: string;
+  status: FhirImportStatus;
+  detail: string;
+}